@@ -0,0 +1,283 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, describe, it, mock } from 'node:test'
+import OpenAI from 'openai'
+import { runBatchPredictions } from './batch_predictions'
+import { PredictionRecord } from './prediction_results'
+import {
+  createAnswerSchema,
+  loadPromptVariant,
+  loadTaskDefinition,
+  TaskDefinition,
+} from './task_definition'
+
+const startDir = process.cwd()
+const labels = ['Riesling', 'Pinot Noir', 'Merlot']
+let dir: string
+let task: TaskDefinition
+
+// Batch state and request files go to the temporary directory's data/
+before(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'batch-'))
+  fs.writeFileSync(
+    path.join(dir, 'task.json'),
+    JSON.stringify({
+      name: 'wine_test',
+      datasets: { train: 'wines.csv', validation: 'wines.csv' },
+      inputColumns: ['winery'],
+      labelColumn: 'variety',
+      labels,
+      systemPrompt: 'You are a sommelier.',
+      promptTemplate:
+        'Which variety does {{winery}} make? Choose from {{labels}}.',
+      answerField: 'variety',
+    })
+  )
+  task = await loadTaskDefinition(path.join(dir, 'task.json'))
+  process.chdir(dir)
+  mock.method(console, 'log', () => {})
+})
+after(() => {
+  process.chdir(startDir)
+  mock.restoreAll()
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+const jsonl = (lines: object[]) =>
+  lines.map((line) => JSON.stringify(line) + '\n').join('')
+
+const completion = (message: object, extra: object = {}) => ({
+  status_code: 200,
+  body: {
+    choices: [{ index: 0, message, ...extra }],
+    usage: { prompt_tokens: 120, completion_tokens: 8 },
+  },
+})
+
+// Output file of the batch, in completion order rather than request order
+const outputLines = [
+  {
+    custom_id: 'record-8',
+    response: completion({ content: null, refusal: 'I cannot help' }),
+    error: null,
+  },
+  {
+    custom_id: 'record-3',
+    response: {
+      status_code: 200,
+      body: {
+        choices: [
+          {
+            index: 0,
+            message: { content: '{"variety":"Riesling"}', refusal: null },
+            logprobs: {
+              content: [
+                { token: '{"variety":"', logprob: -0.01 },
+                { token: 'Ries', logprob: -0.1 },
+                { token: 'ling', logprob: -0.2 },
+                { token: '"}', logprob: 0 },
+              ],
+            },
+          },
+        ],
+        usage: {
+          prompt_tokens: 120,
+          completion_tokens: 8,
+          prompt_tokens_details: { cached_tokens: 64 },
+        },
+      },
+    },
+    error: null,
+  },
+  {
+    custom_id: 'record-7',
+    response: {
+      status_code: 429,
+      body: { error: { message: 'Rate limit reached' } },
+    },
+    error: null,
+  },
+  {
+    custom_id: 'record-11',
+    response: completion({ content: 'Riesling, probably', refusal: null }),
+    error: null,
+  },
+]
+
+// Error file of the batch; record 9 is in neither file
+const errorLines = [
+  {
+    custom_id: 'record-5',
+    response: null,
+    error: {
+      code: 'batch_expired',
+      message: 'This request could not be executed before the window expired.',
+    },
+  },
+]
+
+// OpenAI client whose batch completes on the first poll with the files above
+function createBatchClient() {
+  const files: Record<string, string> = {
+    'file-output': jsonl(outputLines),
+    'file-errors': jsonl(errorLines),
+  }
+  const client = {
+    files: {
+      create: async () => ({ id: 'file-input' }),
+      content: async (id: string) => ({ text: async () => files[id] }),
+    },
+    batches: {
+      create: async () => ({ id: 'batch_1', status: 'validating' }),
+      retrieve: async () => ({
+        id: 'batch_1',
+        status: 'completed',
+        output_file_id: 'file-output',
+        error_file_id: 'file-errors',
+        request_counts: { total: 6, completed: 4, failed: 2 },
+      }),
+    },
+  }
+  return client as unknown as OpenAI
+}
+
+describe('runBatchPredictions', () => {
+  it('maps output and error lines back to their records', async () => {
+    const recordIds = [3, 5, 7, 8, 9, 11]
+    const results: PredictionRecord[] = []
+    await runBatchPredictions({
+      client: createBatchClient(),
+      task,
+      promptVariant: await loadPromptVariant(task),
+      labels,
+      records: recordIds.map((recordId) => ({
+        recordId,
+        inputs: { winery: `Winery ${recordId}` },
+        label: 'Riesling',
+        display: `Winery ${recordId}`,
+      })),
+      model: 'gpt-4o',
+      responseFormat: { type: 'json_object' },
+      answerSchema: createAnswerSchema(task, labels),
+      predictionsFile: './data/predictions_gpt-4o_validation_batch-run.jsonl',
+      timestamp: 'batch-run',
+      store: false,
+      logprobs: true,
+      dataset: 'validation',
+      onResults: async (batchResults) => {
+        results.push(...batchResults)
+      },
+    })
+
+    // Requests are named after their records
+    const requests = fs
+      .readFileSync(
+        './data/batches/predictions_gpt-4o_validation_batch-run_1.requests.jsonl',
+        'utf8'
+      )
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line).custom_id)
+    assert.deepEqual(
+      requests,
+      recordIds.map((recordId) => `record-${recordId}`)
+    )
+
+    assert.deepEqual(
+      results.map(({ recordId, display, prediction, errorClass, error }) => ({
+        recordId,
+        display,
+        prediction,
+        errorClass,
+        error,
+      })),
+      [
+        {
+          recordId: 3,
+          display: 'Winery 3',
+          prediction: 'Riesling',
+          errorClass: null,
+          error: null,
+        },
+        {
+          recordId: 5,
+          display: 'Winery 5',
+          prediction: null,
+          errorClass: 'timeout',
+          error:
+            'This request could not be executed before the window expired.',
+        },
+        {
+          recordId: 7,
+          display: 'Winery 7',
+          prediction: null,
+          errorClass: 'rate_limit',
+          error: '429 Rate limit reached',
+        },
+        {
+          recordId: 8,
+          display: 'Winery 8',
+          prediction: null,
+          errorClass: 'refusal',
+          error: 'Model refused to answer',
+        },
+        {
+          recordId: 9,
+          display: 'Winery 9',
+          prediction: null,
+          errorClass: 'unknown',
+          error: 'Batch batch_1 completed',
+        },
+        {
+          recordId: 11,
+          display: 'Winery 11',
+          prediction: null,
+          errorClass: 'parse_error',
+          error: 'No valid response received',
+        },
+      ]
+    )
+
+    const [answered, , , refused, , unparsed] = results
+    assert.deepEqual(answered.usage, {
+      promptTokens: 120,
+      completionTokens: 8,
+      cachedTokens: 64,
+    })
+    // The label spans the Ries and ling tokens
+    assert.ok(Math.abs(answered.confidence! - Math.exp(-0.3)) < 1e-9)
+    assert.equal(answered.rawResponse, '{"variety":"Riesling"}')
+    assert.equal(refused.refusal, 'I cannot help')
+    assert.equal(refused.confidence, null)
+    assert.deepEqual(unparsed.usage, {
+      promptTokens: 120,
+      completionTokens: 8,
+      cachedTokens: 0,
+    })
+    assert.equal(unparsed.rawResponse, 'Riesling, probably')
+    assert.equal(results[1].usage, null)
+    for (const result of results) {
+      assert.equal(result.batchId, 'batch_1')
+      assert.equal(result.latencyMs, null)
+      assert.equal(result.attempts, 1)
+    }
+
+    // The batch is marked collected so a restart does not collect it again
+    const state = JSON.parse(
+      fs.readFileSync(
+        './data/batches/predictions_gpt-4o_validation_batch-run.batch.json',
+        'utf8'
+      )
+    )
+    assert.deepEqual(
+      state.batches.map(({ batchId, status, collected }: any) => ({
+        batchId,
+        status,
+        collected,
+      })),
+      [{ batchId: 'batch_1', status: 'completed', collected: true }]
+    )
+  })
+})
@@ -0,0 +1,506 @@
+import fs from 'fs'
+import path from 'path'
+import OpenAI from 'openai'
+import { setTimeout } from 'timers/promises'
+import { ZodTypeAny } from 'zod'
+import { deriveLabelConfidence } from './calibration'
+import { PredictionChoice } from './model_provider'
+import { FailureClass, PredictionRecord } from './prediction_results'
+import { RunEventLog } from './run_events'
+import { tallyVotes, SelfConsistencyConfig } from './self_consistency'
+import {
+  buildTaskMessages,
+  renderPrompt,
+  PromptVariant,
+  TaskDefinition,
+  TaskRecord,
+} from './task_definition'
+
+// Request files and the state of submitted batches, one set per predictions file
+const batchesDir = './data/batches'
+
+// The Batch API accepts at most this many requests per batch
+const MAX_BATCH_REQUESTS = 50_000
+
+const terminalStatuses: OpenAI.Batch['status'][] = [
+  'completed',
+  'failed',
+  'expired',
+  'cancelled',
+]
+
+// A submitted batch; saved before polling starts so a restarted run collects
+// it instead of submitting the same requests again
+interface SubmittedBatch {
+  batchId: string
+  inputFileId: string
+  requestsFile: string
+  recordIds: number[]
+  status: OpenAI.Batch['status']
+  collected: boolean // Results written to the predictions file
+  submittedAt: string
+}
+
+interface BatchState {
+  predictionsFile: string
+  model: string
+  promptId: string
+  batches: SubmittedBatch[]
+}
+
+// One line of a batch output or error file
+interface BatchOutputLine {
+  custom_id: string
+  response: { status_code: number; body: any } | null
+  error: { code?: string; message?: string } | null
+}
+
+interface BatchPredictionOptions {
+  client: OpenAI
+  task: TaskDefinition
+  promptVariant: PromptVariant
+  labels: string[]
+  records: (TaskRecord & { recordId: number })[] // Records still to predict
+  model: string
+  responseFormat: any
+  answerSchema: ZodTypeAny // Validates the answers read back from the batch
+  predictionsFile: string
+  timestamp: string
+  store: boolean
+  selfConsistency?: SelfConsistencyConfig // Sample k answers per record and take the majority
+  logprobs?: boolean // Request token logprobs and record the label's confidence
+  pollIntervalMs?: number
+  maxPollIntervalMs?: number
+  dataset: string
+  events?: RunEventLog // Receives batch start, status and end events
+  onResults: (results: PredictionRecord[]) => Promise<void> // Called once per finished batch
+}
+
+const customId = (recordId: number) => `record-${recordId}`
+
+function getStatePath(predictionsFile: string): string {
+  return path.join(
+    batchesDir,
+    `${path.basename(predictionsFile, '.jsonl')}.batch.json`
+  )
+}
+
+async function loadBatchState(
+  statePath: string
+): Promise<BatchState | undefined> {
+  if (!fs.existsSync(statePath)) return undefined
+  return JSON.parse(await fs.promises.readFile(statePath, 'utf8'))
+}
+
+async function saveBatchState(statePath: string, state: BatchState) {
+  await fs.promises.mkdir(path.dirname(statePath), { recursive: true })
+  await fs.promises.writeFile(statePath, JSON.stringify(state, null, 2))
+}
+
+// Writes the chat completion requests of the records to a JSONL file,
+// uploads it and creates the batch
+async function submitBatch(
+  {
+    client,
+    task,
+    promptVariant,
+    labels,
+    model,
+    responseFormat,
+    predictionsFile,
+    timestamp,
+    store,
+    selfConsistency,
+    logprobs,
+  }: BatchPredictionOptions,
+  records: BatchPredictionOptions['records'],
+  part: number
+): Promise<SubmittedBatch> {
+  const requestsFile = path.join(
+    batchesDir,
+    `${path.basename(predictionsFile, '.jsonl')}_${part}.requests.jsonl`
+  )
+  const lines = records.map((record) => ({
+    custom_id: customId(record.recordId),
+    method: 'POST',
+    url: '/v1/chat/completions',
+    body: {
+      model,
+      messages: buildTaskMessages(
+        promptVariant,
+        renderPrompt(promptVariant, record, labels)
+      ),
+      response_format: responseFormat,
+      store,
+      metadata: store ? { purpose: task.name, timestamp } : undefined,
+      temperature: selfConsistency?.temperature,
+      n: selfConsistency?.samples,
+      logprobs: logprobs || undefined,
+    },
+  }))
+  await fs.promises.mkdir(batchesDir, { recursive: true })
+  await fs.promises.writeFile(
+    requestsFile,
+    lines.map((line) => JSON.stringify(line) + '\n').join('')
+  )
+
+  const file = await client.files.create({
+    file: fs.createReadStream(requestsFile),
+    purpose: 'batch',
+  })
+  const batch = await client.batches.create({
+    input_file_id: file.id,
+    endpoint: '/v1/chat/completions',
+    completion_window: '24h',
+    metadata: { purpose: task.name, timestamp, model },
+  })
+  console.log(
+    `✓ Submitted batch ${batch.id} (${records.length} requests from ${requestsFile})`
+  )
+
+  return {
+    batchId: batch.id,
+    inputFileId: file.id,
+    requestsFile,
+    recordIds: records.map(({ recordId }) => recordId),
+    status: batch.status,
+    collected: false,
+    submittedAt: new Date().toISOString(),
+  }
+}
+
+// Polls a batch until it reaches a terminal status
+// The interval grows by 1.5x after each unchanged status, up to maxPollIntervalMs
+async function waitForBatch(
+  client: OpenAI,
+  submitted: SubmittedBatch,
+  onStatusChange: (batch: OpenAI.Batch) => Promise<void>,
+  pollIntervalMs: number,
+  maxPollIntervalMs: number
+): Promise<OpenAI.Batch> {
+  let interval = pollIntervalMs
+
+  while (true) {
+    const batch = await client.batches.retrieve(submitted.batchId)
+
+    if (batch.status !== submitted.status) {
+      const counts = batch.request_counts
+      console.log(
+        `⏳ Batch ${batch.id}: ${submitted.status} → ${batch.status}${
+          counts
+            ? ` (${counts.completed} completed, ${counts.failed} failed of ${counts.total})`
+            : ''
+        }`
+      )
+      submitted.status = batch.status
+      await onStatusChange(batch)
+      interval = pollIntervalMs
+    } else {
+      interval = Math.min(interval * 1.5, maxPollIntervalMs)
+    }
+
+    if (terminalStatuses.includes(batch.status)) return batch
+    await setTimeout(interval)
+  }
+}
+
+async function readBatchFile(
+  client: OpenAI,
+  fileId: string | undefined
+): Promise<BatchOutputLine[]> {
+  if (!fileId) return []
+  const content = await (await client.files.content(fileId)).text()
+  return content
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line))
+}
+
+function classifyStatus(status: number): FailureClass {
+  if (status === 429) return 'rate_limit'
+  if (status === 408) return 'timeout'
+  if (status >= 500) return 'server_error'
+  return 'bad_request'
+}
+
+// Why records of a batch that ended without running them have no answer
+function describeUnfinishedBatch(batch: OpenAI.Batch): {
+  errorClass: FailureClass
+  error: string
+} {
+  const reasons = (batch.errors?.data ?? [])
+    .map(({ message }) => message)
+    .filter(Boolean)
+  const error = `Batch ${batch.id} ${batch.status}${
+    reasons.length ? `: ${reasons.join('; ')}` : ''
+  }`
+  if (batch.status === 'expired') return { errorClass: 'timeout', error }
+  if (batch.status === 'failed') return { errorClass: 'bad_request', error }
+  return { errorClass: 'unknown', error }
+}
+
+// Maps an output line to the prediction fields of its record; with voting,
+// the majority answer of all the line's choices
+function readOutputLine(
+  task: TaskDefinition,
+  answerSchema: ZodTypeAny,
+  line: BatchOutputLine | undefined,
+  unfinished: { errorClass: FailureClass; error: string },
+  voting: boolean
+): Pick<
+  PredictionRecord,
+  | 'prediction'
+  | 'output'
+  | 'rawResponse'
+  | 'refusal'
+  | 'error'
+  | 'errorClass'
+  | 'usage'
+  | 'votes'
+  | 'agreement'
+  | 'confidence'
+> {
+  const failure = (errorClass: FailureClass, error: string) => ({
+    prediction: null,
+    output: null,
+    rawResponse: null,
+    refusal: null,
+    error,
+    errorClass,
+    usage: null,
+    votes: null,
+    agreement: null,
+    confidence: null,
+  })
+
+  if (!line) return failure(unfinished.errorClass, unfinished.error)
+  if (!line.response) {
+    return failure(
+      line.error?.code === 'batch_expired' ? 'timeout' : 'unknown',
+      line.error?.message ?? 'Request failed in the batch'
+    )
+  }
+
+  const { status_code: status, body } = line.response
+  if (status !== 200) {
+    return failure(
+      classifyStatus(status),
+      `${status} ${body?.error?.message ?? 'error'}`
+    )
+  }
+
+  const usage = body.usage
+    ? {
+        promptTokens: body.usage.prompt_tokens,
+        completionTokens: body.usage.completion_tokens,
+        cachedTokens: body.usage.prompt_tokens_details?.cached_tokens ?? 0,
+      }
+    : null
+
+  // Every sampled completion, its answer checked against the answer schema
+  const choices: PredictionChoice[] = (body.choices ?? []).map(
+    ({ message, logprobs }: any) => {
+      let content: unknown
+      try {
+        content = JSON.parse(message?.content ?? '')
+      } catch {
+        content = undefined
+      }
+      const parsed = answerSchema.safeParse(content)
+      return {
+        parsed: parsed.success ? parsed.data : null,
+        refusal: message?.refusal ?? null,
+        content: message?.content ?? null,
+        logprobs: logprobs?.content ?? null,
+      }
+    }
+  )
+  const vote = voting ? tallyVotes(choices, task.answerField) : null
+  const choice = vote?.choice ?? choices[0]
+  const rawResponse = choice?.content ?? null
+
+  if (choice?.refusal) {
+    return {
+      ...failure('refusal', 'Model refused to answer'),
+      refusal: choice.refusal,
+      rawResponse,
+      usage,
+    }
+  }
+  if (!choice?.parsed) {
+    return {
+      ...failure('parse_error', 'No valid response received'),
+      rawResponse,
+      usage,
+    }
+  }
+
+  return {
+    prediction: vote?.prediction ?? String(choice.parsed[task.answerField]),
+    output: choice.parsed,
+    rawResponse,
+    refusal: null,
+    error: null,
+    errorClass: null,
+    usage,
+    votes: vote?.votes ?? null,
+    agreement: vote?.agreement ?? null,
+    confidence: deriveLabelConfidence(
+      choice.content,
+      choice.logprobs,
+      task.answerField
+    ),
+  }
+}
+
+// Reads back the results of a finished batch, one record per submitted
+// request; requests the batch never ran become failed records
+async function collectBatch(
+  options: BatchPredictionOptions,
+  batch: OpenAI.Batch,
+  submitted: SubmittedBatch
+): Promise<PredictionRecord[]> {
+  const { client, task, answerSchema, model, promptVariant } = options
+  const lines = new Map(
+    [
+      ...(await readBatchFile(client, batch.output_file_id)),
+      ...(await readBatchFile(client, batch.error_file_id)),
+    ].map((line) => [line.custom_id, line])
+  )
+  const records = new Map(
+    options.records.map((record) => [record.recordId, record])
+  )
+  const unfinished = describeUnfinishedBatch(batch)
+
+  // Records written before a restart are no longer pending
+  return submitted.recordIds
+    .filter((recordId) => records.has(recordId))
+    .map((recordId) => {
+      const record = records.get(recordId)!
+      return {
+        type: 'prediction',
+        recordId,
+        model,
+        promptId: promptVariant.id,
+        display: record.display,
+        label: record.label,
+        ...readOutputLine(
+          task,
+          answerSchema,
+          lines.get(customId(recordId)),
+          unfinished,
+          Boolean(options.selfConsistency)
+        ),
+        attempts: 1,
+        latencyMs: null,
+        cacheHit: false,
+        batchId: batch.id,
+        timestamp: new Date().toISOString(),
+      }
+    })
+}
+
+// Predicts the records through the Batch API: submits them (at most
+// MAX_BATCH_REQUESTS per batch), polls until each batch ends and hands the
+// results over batch by batch. Batches submitted by an earlier, interrupted
+// process for the same predictions file are collected instead of resubmitted
+async function runBatchPredictions(
+  options: BatchPredictionOptions
+): Promise<void> {
+  const {
+    client,
+    records,
+    predictionsFile,
+    model,
+    promptVariant,
+    pollIntervalMs = 30000,
+    maxPollIntervalMs = 300000,
+    dataset,
+    events,
+  } = options
+  const statePath = getStatePath(predictionsFile)
+  const state: BatchState = (await loadBatchState(statePath)) ?? {
+    predictionsFile,
+    model,
+    promptId: promptVariant.id,
+    batches: [],
+  }
+
+  const context = { dataset, model, promptId: promptVariant.id }
+  const pending = new Set(records.map(({ recordId }) => recordId))
+  const resumed = state.batches.filter(
+    ({ collected, recordIds }) =>
+      !collected && recordIds.some((recordId) => pending.has(recordId))
+  )
+  for (const { batchId, recordIds } of resumed) {
+    events?.emit({
+      type: 'batch_start',
+      ...context,
+      batch: batchId,
+      records: recordIds.length,
+      resumed: true,
+    })
+  }
+  if (resumed.length) {
+    console.log(
+      `↩️  Resuming ${resumed.length} submitted batch(es): ${resumed
+        .map(({ batchId }) => batchId)
+        .join(', ')}`
+    )
+  }
+
+  const submittedIds = new Set(resumed.flatMap(({ recordIds }) => recordIds))
+  const unsubmitted = records.filter(
+    ({ recordId }) => !submittedIds.has(recordId)
+  )
+  for (let i = 0; i < unsubmitted.length; i += MAX_BATCH_REQUESTS) {
+    const submitted = await submitBatch(
+      options,
+      unsubmitted.slice(i, i + MAX_BATCH_REQUESTS),
+      state.batches.length + 1
+    )
+    state.batches.push(submitted)
+    resumed.push(submitted)
+    await saveBatchState(statePath, state)
+    events?.emit({
+      type: 'batch_start',
+      ...context,
+      batch: submitted.batchId,
+      records: submitted.recordIds.length,
+    })
+  }
+
+  for (const submitted of resumed) {
+    const startTime = Date.now()
+    const batch = await waitForBatch(
+      client,
+      submitted,
+      async ({ status, request_counts: counts }) => {
+        events?.emit({
+          type: 'batch_status',
+          ...context,
+          batch: submitted.batchId,
+          status,
+          counts,
+        })
+        await saveBatchState(statePath, state)
+      },
+      pollIntervalMs,
+      maxPollIntervalMs
+    )
+    const results = await collectBatch(options, batch, submitted)
+    await options.onResults(results)
+    submitted.collected = true
+    await saveBatchState(statePath, state)
+    events?.emit({
+      type: 'batch_end',
+      ...context,
+      batch: submitted.batchId,
+      records: results.length,
+      failed: results.filter(({ errorClass }) => errorClass).length,
+      durationMs: Date.now() - startTime,
+    })
+  }
+}
+
+export { runBatchPredictions, BatchPredictionOptions }
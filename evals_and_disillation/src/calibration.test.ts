@@ -0,0 +1,262 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  deriveLabelConfidence,
+  summarizeCalibration,
+  CALIBRATION_BUCKETS,
+  DEFERRAL_THRESHOLDS,
+} from './calibration'
+import { TokenLogprob } from './model_provider'
+
+// Tokens with their logprobs, e.g. tokens(['{"', -0.1], ['a', -0.2])
+const tokens = (...entries: [string, number][]): TokenLogprob[] =>
+  entries.map(([token, logprob]) => ({ token, logprob }))
+
+const joined = (logprobs: TokenLogprob[]) =>
+  logprobs.map(({ token }) => token).join('')
+
+function assertClose(actual: number | null | undefined, expected: number) {
+  assert.ok(
+    actual !== null &&
+      actual !== undefined &&
+      Math.abs(actual - expected) < 1e-9,
+    `expected ${actual} to be close to ${expected}`
+  )
+}
+
+describe('deriveLabelConfidence', () => {
+  it('multiplies the probabilities of the tokens spelling out the value', () => {
+    const logprobs = tokens(
+      ['{"', -0.01],
+      ['variety', -0.02],
+      ['":"', -0.03],
+      ['Pin', -0.1],
+      ['ot', -0.2],
+      [' Noir', -0.3],
+      ['"}', -0.04]
+    )
+
+    assertClose(
+      deriveLabelConfidence(joined(logprobs), logprobs, 'variety'),
+      Math.exp(-0.6)
+    )
+  })
+
+  it('counts a token spanning the quote and the value', () => {
+    const logprobs = tokens(
+      ['{"variety":', -0.01],
+      ['"Ries', -0.5],
+      ['ling"}', -0.25]
+    )
+
+    assertClose(
+      deriveLabelConfidence(joined(logprobs), logprobs, 'variety'),
+      Math.exp(-0.75)
+    )
+  })
+
+  it('allows whitespace around the colon', () => {
+    const logprobs = tokens(
+      ['{"variety"', -0.01],
+      [': "', -0.02],
+      ['Merlot', -0.4],
+      ['"}', -0.03]
+    )
+
+    assertClose(
+      deriveLabelConfidence(joined(logprobs), logprobs, 'variety'),
+      Math.exp(-0.4)
+    )
+  })
+
+  it('reads values with escaped quotes to the closing quote', () => {
+    // {"winner":"Sea \"The\" Stars"}
+    const logprobs = tokens(
+      ['{"winner":"', -0.01],
+      ['Sea', -0.1],
+      [' \\"', -0.2],
+      ['The', -0.3],
+      ['\\"', -0.4],
+      [' Stars', -0.5],
+      ['"}', -0.02]
+    )
+
+    assertClose(
+      deriveLabelConfidence(joined(logprobs), logprobs, 'winner'),
+      Math.exp(-1.5)
+    )
+  })
+
+  it('ignores other fields before the answer field', () => {
+    const logprobs = tokens(
+      ['{"reasoning":"', -0.01],
+      ['Petrol notes', -2],
+      ['","variety":"', -0.02],
+      ['Riesling', -0.1],
+      ['"}', -0.03]
+    )
+
+    assertClose(
+      deriveLabelConfidence(joined(logprobs), logprobs, 'variety'),
+      Math.exp(-0.1)
+    )
+  })
+
+  it('is null when the tokens do not join back to the content', () => {
+    const logprobs = tokens(['{"variety":"', -0.01], ['Merlot', -0.1])
+
+    assert.equal(
+      deriveLabelConfidence('{"variety":"Merlot"}', logprobs, 'variety'),
+      null
+    )
+  })
+
+  it('is null without content, tokens or a string answer field', () => {
+    const logprobs = tokens(['{"score":', -0.01], ['7', -0.1], ['}', -0.02])
+
+    assert.equal(deriveLabelConfidence(null, logprobs, 'score'), null)
+    assert.equal(deriveLabelConfidence('{"score":7}', [], 'score'), null)
+    assert.equal(
+      deriveLabelConfidence(joined(logprobs), logprobs, 'score'),
+      null
+    )
+    assert.equal(
+      deriveLabelConfidence(joined(logprobs), logprobs, 'variety'),
+      null
+    )
+  })
+})
+
+describe('summarizeCalibration', () => {
+  it('weights each bucket gap by its share of the records', () => {
+    const summary = summarizeCalibration([
+      { recordId: 0, confidence: 0.95, correct: true },
+      { recordId: 1, confidence: 0.95, correct: false },
+      { recordId: 2, confidence: 0.25, correct: true },
+      { recordId: 3, confidence: 0.25, correct: true },
+    ])
+
+    // Half the records at 0.95 confidence and 50% accuracy, half at 0.25 and 100%
+    assertClose(summary?.expectedCalibrationError, 0.5 * 0.45 + 0.5 * 0.75)
+    assertClose(summary?.meanConfidence, 0.6)
+    assert.equal(summary?.accuracy, 0.75)
+    assert.equal(summary?.buckets.length, CALIBRATION_BUCKETS)
+    assert.deepEqual(
+      summary?.buckets.filter(({ records }) => records),
+      [
+        {
+          lower: 0.2,
+          upper: 0.3,
+          records: 2,
+          meanConfidence: 0.25,
+          accuracy: 1,
+        },
+        {
+          lower: 0.9,
+          upper: 1,
+          records: 2,
+          meanConfidence: 0.95,
+          accuracy: 0.5,
+        },
+      ]
+    )
+  })
+
+  it('is perfectly calibrated when accuracy matches confidence', () => {
+    const summary = summarizeCalibration([
+      { recordId: 0, confidence: 1, correct: true },
+      { recordId: 1, confidence: 0.5, correct: true },
+      { recordId: 2, confidence: 0.5, correct: false },
+    ])
+    assertClose(summary?.expectedCalibrationError, 0)
+  })
+
+  it('puts lower bounds in their bucket and a confidence of 1 in the last', () => {
+    const summary = summarizeCalibration([
+      { recordId: 0, confidence: 0, correct: false },
+      { recordId: 1, confidence: 0.1, correct: false },
+      { recordId: 2, confidence: 0.9, correct: true },
+      { recordId: 3, confidence: 1, correct: true },
+    ])
+
+    assert.deepEqual(
+      summary?.buckets.map(({ records }) => records),
+      [1, 1, 0, 0, 0, 0, 0, 0, 0, 2]
+    )
+  })
+
+  it('defers records below each threshold and those without a confidence', () => {
+    const records = [
+      { recordId: 0, confidence: 0.99, correct: true },
+      { recordId: 1, confidence: 0.85, correct: true },
+      { recordId: 2, confidence: 0.6, correct: false },
+      { recordId: 3, confidence: 0.3, correct: false },
+      { recordId: 4, confidence: null, correct: false }, // Failed record
+    ]
+    const fallback = {
+      model: 'gpt-4o',
+      correct: new Map([
+        [0, true],
+        [1, false],
+        [2, true],
+        [3, false],
+        [4, true],
+      ]),
+    }
+
+    const summary = summarizeCalibration(records, fallback)
+    const at = (threshold: number) =>
+      summary?.curve.find((point) => point.threshold === threshold)
+
+    assert.equal(summary?.totalRecords, 5)
+    assert.equal(summary?.scoredRecords, 4)
+    assert.equal(summary?.fallbackModel, 'gpt-4o')
+    assert.deepEqual(
+      summary?.curve.map(({ threshold }) => threshold),
+      DEFERRAL_THRESHOLDS
+    )
+    // Nothing is deferred by confidence, only the failed record
+    assert.deepEqual(at(0), {
+      threshold: 0,
+      answered: 4,
+      coverage: 4 / 5,
+      accuracy: 2 / 4,
+      accuracyWithDeferral: 3 / 5,
+    })
+    // Records 2, 3 and 4 go to the fallback, which gets 2 and 4 right
+    assert.deepEqual(at(0.8), {
+      threshold: 0.8,
+      answered: 2,
+      coverage: 2 / 5,
+      accuracy: 1,
+      accuracyWithDeferral: 4 / 5,
+    })
+    // The threshold itself is answered
+    assert.equal(at(0.99)?.answered, 1)
+  })
+
+  it('has no accuracy with deferral without a fallback', () => {
+    const summary = summarizeCalibration([
+      { recordId: 0, confidence: 0.4, correct: true },
+    ])
+
+    assert.equal(summary?.fallbackModel, null)
+    assert.ok(
+      summary?.curve.every(
+        ({ accuracyWithDeferral }) => accuracyWithDeferral === null
+      )
+    )
+    // No record reaches 0.5
+    assert.equal(
+      summary?.curve.find(({ threshold }) => threshold === 0.5)?.accuracy,
+      null
+    )
+  })
+
+  it('returns null when no record has a confidence', () => {
+    assert.equal(
+      summarizeCalibration([{ recordId: 0, confidence: null, correct: true }]),
+      null
+    )
+  })
+})
@@ -0,0 +1,172 @@
+import { TokenLogprob } from './model_provider'
+
+// Predictions per confidence bucket: how confident the model was on average
+// and how often it was right
+interface ReliabilityBucket {
+  lower: number
+  upper: number
+  records: number
+  meanConfidence: number | null // null for empty buckets
+  accuracy: number | null
+}
+
+// Selective prediction at one confidence threshold: the model answers the
+// records at or above it and defers the rest
+interface SelectivePredictionPoint {
+  threshold: number
+  answered: number
+  coverage: number // Answered over all records, failed ones included
+  accuracy: number | null // On the answered records; null when none is answered
+  accuracyWithDeferral: number | null // Over all records, deferred ones answered by the fallback model
+}
+
+interface CalibrationSummary {
+  totalRecords: number
+  scoredRecords: number // Records with a confidence
+  meanConfidence: number
+  accuracy: number // On the scored records
+  expectedCalibrationError: number
+  buckets: ReliabilityBucket[]
+  curve: SelectivePredictionPoint[]
+  fallbackModel: string | null // Model the deferred records go to
+}
+
+// A record's confidence and whether its answer is right
+interface ScoredPrediction {
+  recordId: number
+  confidence: number | null // null without logprobs (e.g. failed records)
+  correct: boolean
+}
+
+// Equal-width buckets of the reliability table and the calibration error
+const CALIBRATION_BUCKETS = 10
+
+// Confidence thresholds of the coverage-vs-accuracy curve
+const DEFERRAL_THRESHOLDS = [
+  0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 0.95, 0.99,
+]
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Probability the model gave to the value of the answer field: the product of
+// the probabilities of the tokens spelling it out (a token merging the value
+// with its quote counts too). Returns null when the tokens do not add up to
+// the content or the field is not a string in it
+function deriveLabelConfidence(
+  content: string | null | undefined,
+  tokens: TokenLogprob[] | null | undefined,
+  answerField: string
+): number | null {
+  if (!content || !tokens?.length) return null
+  if (tokens.map(({ token }) => token).join('') !== content) return null
+
+  const field = new RegExp(
+    `${escapeRegExp(JSON.stringify(answerField))}\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)"`
+  ).exec(content)
+  if (!field) return null
+  const end = field.index + field[0].length - 1 // The closing quote
+  const start = end - field[1].length
+
+  let offset = 0
+  let logprob = 0
+  for (const token of tokens) {
+    const tokenEnd = offset + token.token.length
+    if (tokenEnd > start && offset < end) logprob += token.logprob
+    offset = tokenEnd
+  }
+  return Math.exp(logprob)
+}
+
+// Reliability table, expected calibration error and the coverage-vs-accuracy
+// curve of a model's confidences. Records without a confidence are always
+// deferred. With a fallback (recordId -> whether the fallback model got it
+// right), the curve also gives the accuracy of answering the confident records
+// and deferring the rest. Returns null when no record has a confidence
+function summarizeCalibration(
+  records: ScoredPrediction[],
+  fallback?: { model: string; correct: Map<number, boolean> }
+): CalibrationSummary | null {
+  const scored = records.filter(
+    (record): record is ScoredPrediction & { confidence: number } =>
+      record.confidence !== null
+  )
+  if (!scored.length) return null
+
+  const mean = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / values.length
+
+  const buckets = Array.from({ length: CALIBRATION_BUCKETS }, (_, i) => {
+    const lower = i / CALIBRATION_BUCKETS
+    const upper = (i + 1) / CALIBRATION_BUCKETS
+    // The last bucket includes a confidence of exactly 1
+    const inBucket = scored.filter(
+      ({ confidence }) =>
+        confidence >= lower &&
+        (confidence < upper || i === CALIBRATION_BUCKETS - 1)
+    )
+    return {
+      lower,
+      upper,
+      records: inBucket.length,
+      meanConfidence: inBucket.length
+        ? mean(inBucket.map(({ confidence }) => confidence))
+        : null,
+      accuracy: inBucket.length
+        ? inBucket.filter(({ correct }) => correct).length / inBucket.length
+        : null,
+    }
+  })
+
+  const expectedCalibrationError = buckets.reduce(
+    (sum, { records: count, meanConfidence, accuracy }) =>
+      count
+        ? sum + (count / scored.length) * Math.abs(accuracy! - meanConfidence!)
+        : sum,
+    0
+  )
+
+  const curve = DEFERRAL_THRESHOLDS.map((threshold) => {
+    const answered = scored.filter(({ confidence }) => confidence >= threshold)
+    const answeredIds = new Set(answered.map(({ recordId }) => recordId))
+    const answeredCorrect = answered.filter(({ correct }) => correct).length
+    const deferredCorrect = fallback
+      ? records.filter(
+          ({ recordId }) =>
+            !answeredIds.has(recordId) && fallback.correct.get(recordId)
+        ).length
+      : 0
+
+    return {
+      threshold,
+      answered: answered.length,
+      coverage: answered.length / records.length,
+      accuracy: answered.length ? answeredCorrect / answered.length : null,
+      accuracyWithDeferral: fallback
+        ? (answeredCorrect + deferredCorrect) / records.length
+        : null,
+    }
+  })
+
+  return {
+    totalRecords: records.length,
+    scoredRecords: scored.length,
+    meanConfidence: mean(scored.map(({ confidence }) => confidence)),
+    accuracy: scored.filter(({ correct }) => correct).length / scored.length,
+    expectedCalibrationError,
+    buckets,
+    curve,
+    fallbackModel: fallback?.model ?? null,
+  }
+}
+
+export {
+  deriveLabelConfidence,
+  summarizeCalibration,
+  CALIBRATION_BUCKETS,
+  DEFERRAL_THRESHOLDS,
+  CalibrationSummary,
+  ReliabilityBucket,
+  SelectivePredictionPoint,
+  ScoredPrediction,
+}
@@ -0,0 +1,153 @@
+// Per-label precision, recall and F1 for a multi-class classifier
+interface ClassMetrics {
+  label: string
+  precision: number
+  recall: number
+  f1: number
+  support: number // Number of records whose actual label is this class
+}
+
+interface AveragedMetrics {
+  precision: number
+  recall: number
+  f1: number
+}
+
+// Rows are actual labels, columns are predicted labels
+interface ConfusionMatrix {
+  labels: string[]
+  counts: number[][]
+}
+
+interface ClassificationMetrics {
+  perClass: ClassMetrics[]
+  macro: AveragedMetrics
+  micro: AveragedMetrics
+  weighted: AveragedMetrics
+  confusionMatrix: ConfusionMatrix
+}
+
+interface LabelPair {
+  predicted: string
+  actual: string
+}
+
+function safeDivide(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator
+}
+
+function f1Score(precision: number, recall: number): number {
+  return safeDivide(2 * precision * recall, precision + recall)
+}
+
+// Builds the confusion matrix over every label seen as either actual or predicted
+function buildConfusionMatrix(pairs: LabelPair[]): ConfusionMatrix {
+  const labels = Array.from(
+    new Set(pairs.flatMap(({ predicted, actual }) => [actual, predicted]))
+  ).sort()
+  const index = new Map(labels.map((label, i) => [label, i]))
+  const counts = labels.map(() => labels.map(() => 0))
+
+  for (const { predicted, actual } of pairs) {
+    counts[index.get(actual)!][index.get(predicted)!]++
+  }
+
+  return { labels, counts }
+}
+
+// Computes per-class and averaged metrics from predicted/actual label pairs
+// Micro averages equal plain accuracy for single-label classification
+function computeClassificationMetrics(
+  pairs: LabelPair[]
+): ClassificationMetrics {
+  const confusionMatrix = buildConfusionMatrix(pairs)
+  const { labels, counts } = confusionMatrix
+
+  const perClass: ClassMetrics[] = labels.map((label, i) => {
+    const truePositives = counts[i][i]
+    const support = counts[i].reduce((sum, count) => sum + count, 0)
+    const predictedCount = counts.reduce((sum, row) => sum + row[i], 0)
+    const precision = safeDivide(truePositives, predictedCount)
+    const recall = safeDivide(truePositives, support)
+
+    return { label, precision, recall, f1: f1Score(precision, recall), support }
+  })
+
+  // Labels that were only ever predicted have no support and are left out of
+  // the macro average, matching the usual definition over the true classes
+  const supportedClasses = perClass.filter((metrics) => metrics.support > 0)
+  const totalSupport = pairs.length
+
+  const macro: AveragedMetrics = {
+    precision: safeDivide(
+      supportedClasses.reduce((sum, m) => sum + m.precision, 0),
+      supportedClasses.length
+    ),
+    recall: safeDivide(
+      supportedClasses.reduce((sum, m) => sum + m.recall, 0),
+      supportedClasses.length
+    ),
+    f1: safeDivide(
+      supportedClasses.reduce((sum, m) => sum + m.f1, 0),
+      supportedClasses.length
+    ),
+  }
+
+  const weighted: AveragedMetrics = {
+    precision: safeDivide(
+      perClass.reduce((sum, m) => sum + m.precision * m.support, 0),
+      totalSupport
+    ),
+    recall: safeDivide(
+      perClass.reduce((sum, m) => sum + m.recall * m.support, 0),
+      totalSupport
+    ),
+    f1: safeDivide(
+      perClass.reduce((sum, m) => sum + m.f1 * m.support, 0),
+      totalSupport
+    ),
+  }
+
+  const correct = labels.reduce((sum, _, i) => sum + counts[i][i], 0)
+  const microScore = safeDivide(correct, totalSupport)
+  const micro: AveragedMetrics = {
+    precision: microScore,
+    recall: microScore,
+    f1: microScore,
+  }
+
+  return { perClass, macro, micro, weighted, confusionMatrix }
+}
+
+// Returns the most frequent off-diagonal cells of a confusion matrix
+function getTopConfusions(
+  { labels, counts }: ConfusionMatrix,
+  limit = 5
+): Array<{ actual: string; predicted: string; count: number }> {
+  const confusions: Array<{
+    actual: string
+    predicted: string
+    count: number
+  }> = []
+
+  labels.forEach((actual, i) => {
+    labels.forEach((predicted, j) => {
+      if (i !== j && counts[i][j] > 0) {
+        confusions.push({ actual, predicted, count: counts[i][j] })
+      }
+    })
+  })
+
+  return confusions.sort((a, b) => b.count - a.count).slice(0, limit)
+}
+
+export {
+  computeClassificationMetrics,
+  buildConfusionMatrix,
+  getTopConfusions,
+  ClassificationMetrics,
+  ClassMetrics,
+  AveragedMetrics,
+  ConfusionMatrix,
+  LabelPair,
+}
@@ -0,0 +1,817 @@
+import fs from 'fs'
+import path from 'path'
+import { parseArgs, ParseArgsConfig } from 'util'
+import YAML from 'yaml'
+import { z } from 'zod'
+import {
+  analyzePredictionFiles,
+  analyzeRun,
+  getRunSettings,
+  planEvaluation,
+  resumeEvaluation,
+  retryFailedRecords,
+  runEvaluation,
+  EvaluationConfig,
+} from './run_evaluation'
+import { getPredictionsFilePath, PlannedRequests } from './step2_get_output'
+import {
+  exportDistillationDataset,
+  logValidationReport,
+  validateFineTuningFile,
+} from './export_distillation'
+import { loadRunManifest } from './run_manifest'
+import { runRegistryCommand } from './run_registry'
+import { createModelProvider } from './model_provider'
+import {
+  clearResponseCache,
+  isCacheMode,
+  withResponseCache,
+} from './response_cache'
+import { samplingOptionsSchema } from './sampling'
+import {
+  resolveSelfConsistency,
+  selfConsistencyOptionsSchema,
+} from './self_consistency'
+import {
+  checkDatasetSplits,
+  hasDatasetProblems,
+  logDatasetCheck,
+} from './dataset_check'
+import { logPrepareSummary, prepareDataset } from './prepare_dataset'
+import {
+  defaultTaskPath,
+  getPromptIds,
+  loadTaskDefinition,
+} from './task_definition'
+
+type FlagValues = Record<string, string | boolean | undefined>
+
+const usage = `Usage: tsx src/cli.ts <command> [options]
+
+Commands:
+  run                 Generate predictions and analyze them
+  predict             Generate predictions only (analyze them later)
+  analyze <runId>     Analyze the predictions of an existing run (or --files)
+  report <runId>      Rewrite the HTML reports of an existing run (or --files)
+  retry-failed <runId> Predict the failed records of a run again and re-analyze it
+  export [file]       Export teacher predictions as fine-tuning data
+  prepare <raw.csv>   Build train/validation splits from a raw dataset
+  check-data          Check a train/validation pair for skipped rows, labels and leakage
+  runs <command>      Query the run registry: list, show, compare, pin or check
+  clear-cache         Delete every cached model response
+
+Options for run and predict:
+  --config <file>       YAML or JSON evaluation config (flags override it)
+  --task <file>         Task definition (default: ${defaultTaskPath})
+  --models <a,b,...>    Models to evaluate (default: gpt-4o,gpt-4o-mini)
+  --reference <model>   Model the others are compared against (default: first model)
+  --prompts <a,b|all>   Prompt variants (default: default)
+  --datasets <list>     train, validation or train,validation (default: both)
+  --samples <n>         Records per dataset, -1 for all (default: 3)
+  --sampling <strategy> first, random or stratified (default: stratified)
+  --seed <n>            Sampling seed (default: 42)
+  --stratify-by <col>   Column to stratify on (default: the task's label column)
+  --min-per-class <n>   Minimum records per stratum
+  --max-per-class <n>   Maximum records per stratum
+  --same-records <runId> Evaluate the records (and sample settings) of a previous run
+  --compare <runId>     Previous run to diff against in the HTML report
+  --resume <runId>      Continue an interrupted run with its stored config
+  --execution <mode>    sync (one request per record) or batch (Batch API, half price; default: sync)
+  --self-consistency <k> Sample k answers per record and predict the majority label
+  --temperature <t>     Sampling temperature for --self-consistency (default: 0.7)
+  --logprobs            Record each answer's confidence from token logprobs (calibration analysis)
+  --cache <mode>        Response cache: use, bypass or refresh (default: RESPONSE_CACHE, else use)
+  --dry-run             Print the planned requests and estimated cost, then exit
+  --no-dashboard        Plain log output instead of the live progress view
+
+Options for analyze and report:
+  --datasets <list>     Only these datasets of the run
+  --compare <runId>     Previous run to diff against in the HTML report
+  --cache <mode>        Response cache of LLM judge requests (use, bypass or refresh)
+  --files <a,b,...>     Analyze these prediction files instead of a run (the first is the reference)
+  --task <file>         Task of the --files predictions (default: ${defaultTaskPath})
+  --dataset <name>      Dataset the --files predictions were made on (train or validation)
+
+Options for retry-failed:
+  --datasets <list>     Only these datasets of the run
+  --skip-analysis       Do not analyze the run afterwards
+  --cache <mode>        Response cache: use, bypass or refresh
+  --no-dashboard        Plain log output instead of the live progress view
+
+Options for export:
+  --run <runId>         Use the reference model's train predictions of a run
+  --task <file>         Task definition (default: the run's task, or ${defaultTaskPath})
+  --prompt <id>         Prompt variant the student is trained on
+  --dataset <file>      Source dataset of the predictions (default: the task's train set)
+  --only-correct        Keep only teacher answers matching the ground truth
+  --min-agreement <f>   Keep only answers this share of self-consistency samples agreed on
+  --no-dedupe           Keep examples with identical prompts
+  --max-per-variety <n> Cap on examples per teacher label
+  --val-fraction <f>    Share of examples held out for validation (default: 0.1)
+  --seed <n>            Shuffle seed (default: 42)
+  --out <name>          Output file name prefix
+  --validate <file>     Only validate an existing fine-tuning JSONL file
+
+Options for prepare:
+  --task <file>         Task deciding usable rows and the label (default: ${defaultTaskPath})
+  --top-k <n>           Keep only the n most frequent labels
+  --train-size <n>      Training rows to sample (with --validation-size)
+  --validation-size <n> Validation rows to sample (with --train-size)
+  --val-fraction <f>    Share of all rows held out when no sizes are given (default: 0.2)
+  --dedupe-by <a,b>     Columns whose repeated values are dropped (default: the task's leakage columns)
+  --seed <n>            Split seed (default: 42)
+  --out-dir <dir>       Output directory (default: data/prepared)
+  --name <prefix>       Output file name prefix (default: the task name)
+
+Options for check-data:
+  --task <file>         Task definition (default: ${defaultTaskPath})
+  --train <file>        Training split (default: the task's)
+  --validation <file>   Validation split (default: the task's)
+  --columns <a,b>       Columns compared across splits (default: the task's leakage columns)
+  --threshold <f>       Word-pair overlap counted as a near-duplicate (default: 0.8)
+
+Run registry commands (runId can be latest):
+  runs list                        Every run, with the reference model's accuracy
+  runs show <runId>                Config, provenance, metrics and files of one run
+  runs compare <runA> <runB>       Accuracy of every model, before and after
+  runs pin <runId>                 Pin the baseline for check
+  runs check <runId>               Exit code 1 on an accuracy regression against the baseline
+    --baseline <runId>             Run to compare against (default: the pinned run)
+    --threshold <f>                Allowed accuracy drop, a fraction (default: 0.02)
+
+Examples:
+  tsx src/cli.ts run --models gpt-4o,gpt-4o-mini --datasets validation --samples 50
+  tsx src/cli.ts run --config evals/nightly.yaml --dry-run
+  tsx src/cli.ts predict --datasets train --samples -1 --execution batch
+  tsx src/cli.ts run --datasets train --samples 100 --self-consistency 5 --temperature 0.8
+  tsx src/cli.ts predict --task tasks/race_winner.json --prompts all --samples -1
+  tsx src/cli.ts report 2026-01-15-09-30-00 --compare 2026-01-14-09-30-00
+  tsx src/cli.ts retry-failed 2026-01-15-09-30-00
+  tsx src/cli.ts analyze --files data/predictions_a.jsonl,data/predictions_b.csv --dataset validation
+  tsx src/cli.ts runs check latest --threshold 0.02
+  tsx src/cli.ts run --models gpt-4o --samples 20 --cache refresh
+  tsx src/cli.ts export --run 2026-01-15-09-30-00 --only-correct
+  tsx src/cli.ts prepare winemag-data-130k-v2.csv --top-k 20 --train-size 500 --validation-size 300`
+
+// Evaluation settings accepted from a config file and from flags
+// Paths in a config file are relative to the file itself
+const evaluationConfigSchema = z
+  .object({
+    task: z.string().optional(),
+    models: z.array(z.string().min(1)).min(1).optional(),
+    referenceModel: z.string().min(1).optional(),
+    prompts: z
+      .union([z.literal('all'), z.array(z.string().min(1)).min(1)])
+      .optional(),
+    datasets: z
+      .array(z.enum(['train', 'validation']))
+      .min(1)
+      .optional(),
+    numSamples: z
+      .number()
+      .int()
+      .refine((value) => value === -1 || value > 0, {
+        message: 'Use a positive number of records, or -1 for all',
+      })
+      .optional(),
+    sampling: samplingOptionsSchema.optional(),
+    sampleFrom: z.string().min(1).optional(),
+    compareTo: z.string().min(1).optional(),
+    execution: z.enum(['sync', 'batch']).optional(),
+    selfConsistency: selfConsistencyOptionsSchema.optional(),
+    logprobs: z.boolean().optional(),
+  })
+  .strict()
+
+type EvaluationFileConfig = z.infer<typeof evaluationConfigSchema>
+
+// Flag names of config keys, for error messages about flags
+const flagNames: Record<string, string> = {
+  task: '--task',
+  models: '--models',
+  referenceModel: '--reference',
+  prompts: '--prompts',
+  datasets: '--datasets',
+  numSamples: '--samples',
+  'sampling.strategy': '--sampling',
+  'sampling.seed': '--seed',
+  'sampling.stratifyBy': '--stratify-by',
+  'sampling.minPerClass': '--min-per-class',
+  'sampling.maxPerClass': '--max-per-class',
+  sampleFrom: '--same-records',
+  compareTo: '--compare',
+  execution: '--execution',
+  'selfConsistency.samples': '--self-consistency',
+  'selfConsistency.temperature': '--temperature',
+  logprobs: '--logprobs',
+}
+
+function formatIssues(
+  error: z.ZodError,
+  describePath: (key: string) => string
+) {
+  return error.issues
+    .map(
+      (issue) =>
+        `${describePath(issue.path.join('.') || '(root)')}: ${issue.message}`
+    )
+    .join('; ')
+}
+
+async function loadConfigFile(filePath: string): Promise<EvaluationFileConfig> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Config file not found: ${filePath}`)
+  }
+
+  const text = await fs.promises.readFile(filePath, 'utf8')
+  let content: unknown
+  try {
+    content = filePath.endsWith('.json') ? JSON.parse(text) : YAML.parse(text)
+  } catch (error) {
+    throw new Error(
+      `Could not parse config file ${filePath}: ${
+        error instanceof Error ? error.message : error
+      }`
+    )
+  }
+
+  const parsed = evaluationConfigSchema.safeParse(content ?? {})
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid config file ${filePath}: ${formatIssues(
+        parsed.error,
+        (key) => key
+      )}`
+    )
+  }
+
+  const config = parsed.data
+  return config.task
+    ? { ...config, task: path.join(path.dirname(filePath), config.task) }
+    : config
+}
+
+const splitList = (value: string | undefined) =>
+  value
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+// Validates the flags with the same schema as config files
+function parseEvaluationFlags(values: FlagValues): EvaluationFileConfig {
+  const text = (name: string) => values[name] as string | undefined
+  const number = (name: string) =>
+    text(name) === undefined ? undefined : Number(text(name))
+  const prompts = text('prompts')
+  const sampling = {
+    strategy: text('sampling'),
+    seed: number('seed'),
+    stratifyBy: text('stratify-by'),
+    minPerClass: number('min-per-class'),
+    maxPerClass: number('max-per-class'),
+  }
+  const selfConsistency = {
+    samples: number('self-consistency'),
+    temperature: number('temperature'),
+  }
+
+  const parsed = evaluationConfigSchema.safeParse({
+    task: text('task'),
+    models: splitList(text('models')),
+    referenceModel: text('reference'),
+    prompts: prompts === 'all' ? 'all' : splitList(prompts),
+    datasets: splitList(text('datasets')),
+    numSamples: number('samples'),
+    sampling: Object.values(sampling).some((value) => value !== undefined)
+      ? sampling
+      : undefined,
+    sampleFrom: text('same-records'),
+    compareTo: text('compare'),
+    execution: text('execution'),
+    selfConsistency: Object.values(selfConsistency).some(
+      (value) => value !== undefined
+    )
+      ? selfConsistency
+      : undefined,
+    logprobs: values.logprobs ? true : undefined,
+  })
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid options: ${formatIssues(
+        parsed.error,
+        (key) => flagNames[key] ?? flagNames[key.split('.')[0]] ?? key
+      )}`
+    )
+  }
+  return parsed.data
+}
+
+const withoutUndefined = <T extends object>(object: T) =>
+  Object.fromEntries(
+    Object.entries(object).filter(([, value]) => value !== undefined)
+  ) as Partial<T>
+
+// Merges config file and flags (flags win) into an evaluation config
+async function resolveEvaluationConfig(
+  values: FlagValues
+): Promise<EvaluationConfig> {
+  const fileConfig = values.config
+    ? await loadConfigFile(values.config as string)
+    : {}
+  const flagConfig = parseEvaluationFlags(values)
+  const merged: EvaluationFileConfig = {
+    ...fileConfig,
+    ...withoutUndefined(flagConfig),
+  }
+
+  // Sampling flags override single settings of the config file's sampling
+  if (fileConfig.sampling && flagConfig.sampling) {
+    const sampling = samplingOptionsSchema.safeParse({
+      ...fileConfig.sampling,
+      ...withoutUndefined(flagConfig.sampling),
+    })
+    if (!sampling.success) {
+      throw new Error(
+        `Invalid sampling settings: ${formatIssues(
+          sampling.error,
+          (key) => key
+        )}`
+      )
+    }
+    merged.sampling = sampling.data
+  }
+
+  const task = merged.task ?? defaultTaskPath
+  return {
+    ...merged,
+    // Single settings merge like sampling; both are validated by then
+    selfConsistency: merged.selfConsistency
+      ? resolveSelfConsistency({
+          ...fileConfig.selfConsistency,
+          ...withoutUndefined(merged.selfConsistency),
+        })
+      : undefined,
+    task,
+    prompts:
+      merged.prompts === 'all'
+        ? getPromptIds(await loadTaskDefinition(task))
+        : merged.prompts,
+  }
+}
+
+function logDryRun(
+  plans: PlannedRequests[],
+  judgeCount: number,
+  batch: boolean
+) {
+  console.log('🧪 Dry run: no requests are sent\n')
+
+  const columns = [
+    'Dataset',
+    'Prompt',
+    'Model',
+    'Requests',
+    'Prompt tok',
+    'Output tok',
+    'Est. cost',
+  ]
+  const rows = plans.map((plan) => [
+    plan.dataset,
+    plan.promptId,
+    plan.model,
+    String(plan.requests),
+    String(plan.promptTokens),
+    String(plan.completionTokens),
+    plan.estimatedCost === null
+      ? 'unknown'
+      : `$${plan.estimatedCost.toFixed(4)}`,
+  ])
+  const widths = columns.map((column, i) =>
+    Math.max(column.length, ...rows.map((row) => row[i].length))
+  )
+  const formatRow = (cells: string[]) =>
+    cells
+      .map((cell, i) =>
+        i < 3 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])
+      )
+      .join('  ')
+
+  console.log(formatRow(columns))
+  rows.forEach((row) => console.log(formatRow(row)))
+
+  const requests = plans.reduce((sum, plan) => sum + plan.requests, 0)
+  const tokens = plans.reduce(
+    (sum, plan) => sum + plan.promptTokens + plan.completionTokens,
+    0
+  )
+  const cost = plans.reduce((sum, plan) => sum + (plan.estimatedCost ?? 0), 0)
+  const unpriced = [
+    ...new Set(
+      plans
+        .filter((plan) => plan.estimatedCost === null)
+        .map(({ model }) => model)
+    ),
+  ]
+
+  console.log(
+    `\nTotal: ${requests} requests, ~${tokens} tokens, ~$${cost.toFixed(4)}${
+      unpriced.length ? ` (no price for ${unpriced.join(', ')})` : ''
+    }`
+  )
+  if (judgeCount) {
+    console.log(
+      `Plus ${requests * judgeCount} LLM judge requests (${judgeCount} per prediction, not estimated)`
+    )
+  }
+  if (batch) console.log('Costs are Batch API prices (half the sync price).')
+  console.log('Estimates assume no cache hits and ~4 characters per token.')
+}
+
+// Model provider of the MODEL_PROVIDER env var behind the response cache;
+// --cache overrides the RESPONSE_CACHE env var
+function createProvider(values: FlagValues) {
+  const mode = values.cache as string | undefined
+  if (mode !== undefined && !isCacheMode(mode)) {
+    throw new Error(`--cache must be use, bypass or refresh (got "${mode}")`)
+  }
+  return withResponseCache(createModelProvider(), { mode })
+}
+
+// The live view needs a terminal; logs piped to a file or CI stay plain
+function showDashboard(values: FlagValues): boolean {
+  return Boolean(process.stderr.isTTY) && !values['no-dashboard']
+}
+
+async function runCommand(command: 'run' | 'predict', values: FlagValues) {
+  const resumeRunId = values.resume as string | undefined
+  const skipAnalysis = command === 'predict'
+
+  if (values['dry-run']) {
+    const config = resumeRunId
+      ? {
+          ...(await loadRunManifest(resumeRunId)).config,
+          provider: undefined,
+          resumeRunId,
+        }
+      : await resolveEvaluationConfig(values)
+    const task = await loadTaskDefinition(config.task ?? defaultTaskPath)
+    const judgeCount = skipAnalysis
+      ? 0
+      : task.scorers.filter(({ type }) => type === 'llm_judge').length
+    logDryRun(
+      await planEvaluation(config),
+      judgeCount,
+      config.execution === 'batch'
+    )
+    return
+  }
+
+  if (resumeRunId) {
+    await resumeEvaluation(
+      resumeRunId,
+      createProvider(values),
+      skipAnalysis,
+      showDashboard(values)
+    )
+    return
+  }
+  await runEvaluation({
+    ...(await resolveEvaluationConfig(values)),
+    provider: createProvider(values),
+    skipAnalysis,
+    dashboard: showDashboard(values),
+  })
+}
+
+// Reads a numeric flag, rejecting values that are not numbers
+function parseNumberFlag(values: FlagValues, name: string) {
+  const value = values[name] as string | undefined
+  if (value === undefined) return undefined
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`--${name} must be a number (got "${value}")`)
+  }
+  return parsed
+}
+
+// Analyzes a run, or with --files any prediction files outside of a run
+async function analyzeCommand(
+  command: 'analyze' | 'report',
+  values: FlagValues,
+  positionals: string[]
+) {
+  const runId = positionals[0]
+  const files = splitList(values.files as string | undefined)
+  const reportOnly = command === 'report'
+
+  if (files) {
+    if (runId) {
+      throw new Error(`Pass either a run ID or --files to ${command}, not both`)
+    }
+    if (!files.length) throw new Error('--files needs at least one file')
+    const dataset = values.dataset as string | undefined
+    if (
+      dataset !== undefined &&
+      dataset !== 'train' &&
+      dataset !== 'validation'
+    ) {
+      throw new Error(
+        `--dataset must be train or validation (got "${dataset}")`
+      )
+    }
+    for (const name of ['datasets', 'compare']) {
+      if (values[name] !== undefined) {
+        throw new Error(`--${name} only applies to a run, not to --files`)
+      }
+    }
+    return analyzePredictionFiles(files, {
+      task: values.task as string | undefined,
+      dataset,
+      reportOnly,
+      provider: createProvider(values),
+    })
+  }
+
+  if (!runId) {
+    throw new Error(`Please provide the run ID (or --files) to ${command}`)
+  }
+  for (const name of ['task', 'dataset']) {
+    if (values[name] !== undefined) {
+      throw new Error(`--${name} only applies to --files`)
+    }
+  }
+  const { datasets, compareTo } = parseEvaluationFlags(values)
+  return analyzeRun(runId, {
+    datasets,
+    compareTo,
+    reportOnly,
+    provider: createProvider(values),
+  })
+}
+
+async function prepareCommand(values: FlagValues, positionals: string[]) {
+  const input = positionals[0]
+  if (!input) throw new Error('Please provide the raw dataset CSV to prepare')
+
+  const summary = await prepareDataset({
+    input,
+    task: values.task as string | undefined,
+    topK: parseNumberFlag(values, 'top-k'),
+    trainSize: parseNumberFlag(values, 'train-size'),
+    validationSize: parseNumberFlag(values, 'validation-size'),
+    validationFraction: parseNumberFlag(values, 'val-fraction'),
+    dedupeColumns: splitList(values['dedupe-by'] as string | undefined),
+    seed: parseNumberFlag(values, 'seed'),
+    outputDir: values['out-dir'] as string | undefined,
+    name: values.name as string | undefined,
+  })
+  logPrepareSummary(summary)
+  if (hasDatasetProblems(summary.check)) process.exitCode = 1
+}
+
+async function checkDataCommand(values: FlagValues) {
+  const task = await loadTaskDefinition(values.task as string | undefined)
+  const report = await checkDatasetSplits(task, {
+    trainFile: values.train as string | undefined,
+    validationFile: values.validation as string | undefined,
+    columns: splitList(values.columns as string | undefined),
+    threshold: parseNumberFlag(values, 'threshold'),
+  })
+  logDatasetCheck(report)
+  if (hasDatasetProblems(report)) process.exitCode = 1
+}
+
+async function exportCommand(values: FlagValues, positionals: string[]) {
+  const text = (name: string) => values[name] as string | undefined
+  const runId = text('run')
+  const runSettings = runId
+    ? getRunSettings((await loadRunManifest(runId)).config)
+    : undefined
+  const taskPath = text('task') ?? runSettings?.taskPath
+  const task = await loadTaskDefinition(taskPath)
+
+  const validateFile = text('validate')
+  if (validateFile) {
+    const report = await validateFineTuningFile(validateFile, task)
+    logValidationReport(report)
+    if (report.errors.length) process.exitCode = 1
+    return
+  }
+
+  const promptId = text('prompt') ?? runSettings?.prompts[0]
+  const teacherFile =
+    positionals[0] ??
+    (runId && runSettings
+      ? getPredictionsFilePath(
+          runSettings.referenceModel,
+          'train',
+          runId,
+          promptId
+        )
+      : undefined)
+  if (!teacherFile) {
+    throw new Error(
+      'Please provide a teacher predictions file or --run <runId>'
+    )
+  }
+
+  const summary = await exportDistillationDataset({
+    teacherFile,
+    task: taskPath,
+    promptId,
+    datasetPath: text('dataset'),
+    outputName: text('out'),
+    onlyCorrect: Boolean(values['only-correct']),
+    minAgreement: parseNumberFlag(values, 'min-agreement'),
+    dedupe: !values['no-dedupe'],
+    maxPerVariety: parseNumberFlag(values, 'max-per-variety'),
+    validationFraction: parseNumberFlag(values, 'val-fraction'),
+    seed: parseNumberFlag(values, 'seed'),
+  })
+
+  console.log('Export Stats:', summary)
+
+  for (const file of [summary.trainFile, summary.validationFile]) {
+    if (!file) continue
+    const report = await validateFineTuningFile(file, task)
+    logValidationReport(report)
+    if (report.errors.length) process.exitCode = 1
+  }
+}
+
+// parseArgs reads a negative number (--samples -1) as an unknown option, so
+// negative values are attached to their flag (--samples=-1)
+function attachNegativeValues(args: string[]): string[] {
+  return args.reduce<string[]>((result, arg) => {
+    const previous = result[result.length - 1]
+    if (/^-\d/.test(arg) && /^--[^=]+$/.test(previous ?? '')) {
+      result[result.length - 1] = `${previous}=${arg}`
+    } else {
+      result.push(arg)
+    }
+    return result
+  }, [])
+}
+
+const runOptions = {
+  config: { type: 'string' },
+  task: { type: 'string' },
+  models: { type: 'string' },
+  reference: { type: 'string' },
+  prompts: { type: 'string' },
+  datasets: { type: 'string' },
+  samples: { type: 'string' },
+  sampling: { type: 'string' },
+  seed: { type: 'string' },
+  'stratify-by': { type: 'string' },
+  'min-per-class': { type: 'string' },
+  'max-per-class': { type: 'string' },
+  'same-records': { type: 'string' },
+  compare: { type: 'string' },
+  resume: { type: 'string' },
+  execution: { type: 'string' },
+  'self-consistency': { type: 'string' },
+  temperature: { type: 'string' },
+  logprobs: { type: 'boolean' },
+  cache: { type: 'string' },
+  'dry-run': { type: 'boolean' },
+  'no-dashboard': { type: 'boolean' },
+} as const
+
+const analyzeOptions = {
+  datasets: { type: 'string' },
+  compare: { type: 'string' },
+  cache: { type: 'string' },
+  files: { type: 'string' },
+  task: { type: 'string' },
+  dataset: { type: 'string' },
+} as const
+
+// Options of every command; parseArgs rejects anything not listed here
+const commandOptions: Record<string, ParseArgsConfig['options']> = {
+  run: runOptions,
+  predict: runOptions,
+  analyze: analyzeOptions,
+  report: analyzeOptions,
+  'retry-failed': {
+    datasets: { type: 'string' },
+    'skip-analysis': { type: 'boolean' },
+    cache: { type: 'string' },
+    'no-dashboard': { type: 'boolean' },
+  },
+  export: {
+    run: { type: 'string' },
+    task: { type: 'string' },
+    prompt: { type: 'string' },
+    dataset: { type: 'string' },
+    'only-correct': { type: 'boolean' },
+    'min-agreement': { type: 'string' },
+    'no-dedupe': { type: 'boolean' },
+    'max-per-variety': { type: 'string' },
+    'val-fraction': { type: 'string' },
+    seed: { type: 'string' },
+    out: { type: 'string' },
+    validate: { type: 'string' },
+  },
+  prepare: {
+    task: { type: 'string' },
+    'top-k': { type: 'string' },
+    'train-size': { type: 'string' },
+    'validation-size': { type: 'string' },
+    'val-fraction': { type: 'string' },
+    'dedupe-by': { type: 'string' },
+    seed: { type: 'string' },
+    'out-dir': { type: 'string' },
+    name: { type: 'string' },
+  },
+  'check-data': {
+    task: { type: 'string' },
+    train: { type: 'string' },
+    validation: { type: 'string' },
+    columns: { type: 'string' },
+    threshold: { type: 'string' },
+  },
+  'clear-cache': {},
+  runs: {
+    baseline: { type: 'string' },
+    threshold: { type: 'string' },
+  },
+}
+
+async function main(argv: string[]) {
+  const [command, ...args] = argv
+  if (
+    !command ||
+    command === '--help' ||
+    command === '-h' ||
+    command === 'help'
+  ) {
+    console.log(usage)
+    return
+  }
+
+  const options = Object.hasOwn(commandOptions, command)
+    ? commandOptions[command]
+    : undefined
+  if (!options) {
+    throw new Error(`Unknown command "${command}". Run with --help for usage.`)
+  }
+
+  const { values: parsedValues, positionals } = parseArgs({
+    args: attachNegativeValues(args),
+    allowPositionals: true,
+    strict: true,
+    options: { ...options, help: { type: 'boolean', short: 'h' } },
+  })
+  const values = parsedValues as FlagValues
+  if (values.help) {
+    console.log(usage)
+    return
+  }
+
+  switch (command) {
+    case 'run':
+    case 'predict':
+      if (positionals.length) {
+        throw new Error(
+          `Unexpected argument "${positionals[0]}"; ${command} only takes --flags`
+        )
+      }
+      return runCommand(command, values)
+    case 'analyze':
+    case 'report':
+      return analyzeCommand(command, values, positionals)
+    case 'retry-failed': {
+      const runId = positionals[0]
+      if (!runId) throw new Error('Please provide the run ID to retry')
+      const stillFailed = await retryFailedRecords(runId, {
+        datasets: parseEvaluationFlags(values).datasets,
+        skipAnalysis: Boolean(values['skip-analysis']),
+        provider: createProvider(values),
+        dashboard: showDashboard(values),
+      })
+      if (stillFailed) process.exitCode = 1
+      return
+    }
+    case 'export':
+      return exportCommand(values, positionals)
+    case 'prepare':
+      return prepareCommand(values, positionals)
+    case 'check-data':
+      return checkDataCommand(values)
+    case 'clear-cache':
+      await clearResponseCache()
+      console.log('🗑️  Cleared the response cache')
+      return
+    case 'runs':
+      return runRegistryCommand(positionals[0], positionals.slice(1), {
+        baseline: values.baseline as string | undefined,
+        threshold: values.threshold as string | undefined,
+      })
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error('Error:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
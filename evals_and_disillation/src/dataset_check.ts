@@ -0,0 +1,356 @@
+import { createSeededRandom } from './random'
+import { inspectTaskRows, DatasetRows, TaskDefinition } from './task_definition'
+
+// Texts sharing at least this share of word pairs count as near-duplicates
+const NEAR_DUPLICATE_THRESHOLD = 0.8
+
+// MinHash signature size: BANDS bands of ROWS_PER_BAND hashes each. Pairs
+// above ~0.6 similarity almost always share a band and get compared exactly
+const BANDS = 8
+const ROWS_PER_BAND = 4
+
+// Validation rows listed per column in the report
+const MAX_EXAMPLES = 10
+
+// Rows, skipped rows and labels of one split
+interface SplitSummary {
+  file: string
+  totalRows: number
+  validRows: number
+  dropped: Record<string, number> // Skip reason -> rows
+  labelCounts: Record<string, number> // Most frequent first
+}
+
+// A validation record whose text (nearly) repeats a training record
+// Row numbers are recordIds: indexes into each split's valid records
+interface DuplicatePair {
+  trainRow: number
+  validationRow: number
+  similarity: number // 1 for exact duplicates after normalization
+  text: string // The validation text
+}
+
+interface ColumnDuplicates {
+  exact: number
+  near: number
+  examples: DuplicatePair[]
+}
+
+interface DatasetCheckReport {
+  train: SplitSummary
+  validation: SplitSummary
+  labelSource: string // Where the label list checked against comes from
+  unseenLabels: Record<string, number> // Validation labels missing from the label list -> rows
+  duplicates: Record<string, ColumnDuplicates> // Column -> cross-split duplicates
+  leakedValidationRows: number // Validation records duplicating any training record
+  threshold: number
+}
+
+// Lowercase words without accents or punctuation, so formatting differences
+// do not hide duplicates
+function normalizeText(value: unknown): string {
+  return String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+// Consecutive word pairs; single words for one-word texts
+function getShingles(text: string): Set<string> {
+  const words = text.split(' ').filter(Boolean)
+  if (words.length < 2) return new Set(words)
+  return new Set(words.slice(1).map((word, i) => `${words[i]} ${word}`))
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0
+  for (const item of a) if (b.has(item)) shared++
+  return shared / (a.size + b.size - shared)
+}
+
+// 32-bit FNV-1a
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Seeded hash functions, so the same datasets always give the same report
+function createMinHasher(): (shingles: Set<string>) => number[] {
+  const random = createSeededRandom(7)
+  const coefficients = Array.from({ length: BANDS * ROWS_PER_BAND }, () => [
+    Math.floor(random() * 0xffffffff) | 1,
+    Math.floor(random() * 0xffffffff),
+  ])
+  return (shingles) => {
+    const hashes = [...shingles].map(hashString)
+    return coefficients.map(([a, b]) =>
+      hashes.reduce(
+        (min, hash) => Math.min(min, (Math.imul(a, hash) + b) >>> 0),
+        0xffffffff
+      )
+    )
+  }
+}
+
+function getBandKeys(signature: number[]): string[] {
+  return Array.from(
+    { length: BANDS },
+    (_, band) =>
+      `${band}:${signature
+        .slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND)
+        .join(',')}`
+  )
+}
+
+// Finds, for each validation text, the most similar training text at or
+// above the threshold. Exact matches are looked up directly; near matches are
+// found through MinHash banding instead of comparing every pair
+function findCrossDuplicates(
+  trainValues: unknown[],
+  validationValues: unknown[],
+  threshold = NEAR_DUPLICATE_THRESHOLD
+): DuplicatePair[] {
+  const trainTexts = trainValues.map(normalizeText)
+  const exactIndex = new Map<string, number>()
+  trainTexts.forEach((text, row) => {
+    if (text && !exactIndex.has(text)) exactIndex.set(text, row)
+  })
+
+  const minHash = createMinHasher()
+  const trainShingles = trainTexts.map(getShingles)
+  const buckets = new Map<string, number[]>()
+  trainShingles.forEach((shingles, row) => {
+    if (!shingles.size) return
+    for (const key of getBandKeys(minHash(shingles))) {
+      const bucket = buckets.get(key) ?? []
+      bucket.push(row)
+      buckets.set(key, bucket)
+    }
+  })
+
+  const pairs: DuplicatePair[] = []
+  validationValues.forEach((value, validationRow) => {
+    const text = normalizeText(value)
+    if (!text) return
+
+    const exactRow = exactIndex.get(text)
+    if (exactRow !== undefined) {
+      pairs.push({
+        trainRow: exactRow,
+        validationRow,
+        similarity: 1,
+        text: String(value),
+      })
+      return
+    }
+
+    const shingles = getShingles(text)
+    const candidates = new Set(
+      getBandKeys(minHash(shingles)).flatMap((key) => buckets.get(key) ?? [])
+    )
+    let best: DuplicatePair | undefined
+    for (const trainRow of candidates) {
+      const similarity = jaccard(shingles, trainShingles[trainRow])
+      if (similarity >= threshold && similarity > (best?.similarity ?? 0)) {
+        best = { trainRow, validationRow, similarity, text: String(value) }
+      }
+    }
+    if (best) pairs.push(best)
+  })
+  return pairs
+}
+
+function countLabels(records: DatasetRows['records']): Record<string, number> {
+  const counts = new Map<string, number>()
+  for (const { label } of records) {
+    counts.set(label, (counts.get(label) ?? 0) + 1)
+  }
+  return Object.fromEntries([...counts.entries()].sort(([, a], [, b]) => b - a))
+}
+
+function summarizeSplit(file: string, split: DatasetRows): SplitSummary {
+  return {
+    file,
+    totalRows: split.totalRows,
+    validRows: split.records.length,
+    dropped: split.dropped,
+    labelCounts: countLabels(split.records),
+  }
+}
+
+// The label list validation answers are checked against: the task's fixed
+// list, or the labels derived from the training split
+function getCheckedLabels(
+  task: TaskDefinition,
+  train: DatasetRows
+): { labels: Set<string>; source: string } {
+  if (Array.isArray(task.labels)) {
+    return { labels: new Set(task.labels), source: 'task label list' }
+  }
+  const column = task.labels?.column ?? task.labelColumn
+  return {
+    labels: new Set(
+      train.rows
+        .map((row) => row[column])
+        .filter(
+          (value) => value !== null && value !== undefined && value !== ''
+        )
+        .map(String)
+    ),
+    source: `${column} values of the train split`,
+  }
+}
+
+// Checks a train/validation pair for skipped rows, label coverage and
+// leakage: validation records whose text repeats a training record
+async function checkDatasetSplits(
+  task: TaskDefinition,
+  {
+    trainFile = task.datasets.train,
+    validationFile = task.datasets.validation,
+    columns = task.leakageColumns ?? task.inputColumns,
+    threshold = NEAR_DUPLICATE_THRESHOLD,
+  }: {
+    trainFile?: string
+    validationFile?: string
+    columns?: string[]
+    threshold?: number
+  } = {}
+): Promise<DatasetCheckReport> {
+  const train = await inspectTaskRows(task, trainFile)
+  const validation = await inspectTaskRows(task, validationFile)
+
+  const { labels, source } =
+    task.answerFormat === 'text'
+      ? { labels: undefined, source: 'none (free-text answers)' }
+      : getCheckedLabels(task, train)
+  const unseenLabels: Record<string, number> = {}
+  if (labels) {
+    for (const { label } of validation.records) {
+      if (!labels.has(label)) {
+        unseenLabels[label] = (unseenLabels[label] ?? 0) + 1
+      }
+    }
+  }
+
+  const duplicates: Record<string, ColumnDuplicates> = {}
+  const leakedRows = new Set<number>()
+  for (const column of columns) {
+    const pairs = findCrossDuplicates(
+      train.rows.map((row) => row[column]),
+      validation.rows.map((row) => row[column]),
+      threshold
+    )
+    pairs.forEach(({ validationRow }) => leakedRows.add(validationRow))
+    duplicates[column] = {
+      exact: pairs.filter(({ similarity }) => similarity === 1).length,
+      near: pairs.filter(({ similarity }) => similarity < 1).length,
+      examples: pairs.slice(0, MAX_EXAMPLES),
+    }
+  }
+
+  return {
+    train: summarizeSplit(trainFile, train),
+    validation: summarizeSplit(validationFile, validation),
+    labelSource: source,
+    unseenLabels,
+    duplicates,
+    leakedValidationRows: leakedRows.size,
+    threshold,
+  }
+}
+
+// Leakage and validation labels the model can never answer are problems;
+// skipped rows are only reported
+function hasDatasetProblems(report: DatasetCheckReport): boolean {
+  return (
+    report.leakedValidationRows > 0 ||
+    Object.keys(report.unseenLabels).length > 0
+  )
+}
+
+const truncate = (text: string, length = 80) =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text
+
+function logSplitSummary(name: string, split: SplitSummary) {
+  const labels = Object.entries(split.labelCounts)
+  console.log(`\n${name}: ${split.file}`)
+  console.log(
+    `Rows: ${split.totalRows} (${split.validRows} usable, ${
+      split.totalRows - split.validRows
+    } skipped)`
+  )
+  for (const [reason, count] of Object.entries(split.dropped)) {
+    console.log(`  skipped, ${reason}: ${count}`)
+  }
+  console.log(`Labels: ${labels.length}`)
+  for (const [label, count] of labels.slice(0, 15)) {
+    console.log(
+      `  ${label.padEnd(30)} ${String(count).padStart(6)}  ${(
+        (count / split.validRows) *
+        100
+      ).toFixed(1)}%`
+    )
+  }
+  if (labels.length > 15) console.log(`  ... ${labels.length - 15} more`)
+}
+
+function logDatasetCheck(report: DatasetCheckReport) {
+  console.log('=== Dataset Check ===')
+  logSplitSummary('Train', report.train)
+  logSplitSummary('Validation', report.validation)
+
+  console.log(`\nLabel list: ${report.labelSource}`)
+  const unseen = Object.entries(report.unseenLabels)
+  if (unseen.length) {
+    console.log(
+      `❌ ${unseen.length} validation labels are not in the label list:`
+    )
+    for (const [label, count] of unseen) {
+      console.log(`  ${label}: ${count} rows`)
+    }
+  } else {
+    console.log('✓ Every validation label is in the label list')
+  }
+
+  console.log(
+    `\nLeakage (exact, or near-duplicate at ${(report.threshold * 100).toFixed(
+      0
+    )}% word-pair overlap):`
+  )
+  for (const [column, { exact, near, examples }] of Object.entries(
+    report.duplicates
+  )) {
+    console.log(`  ${column}: ${exact} exact, ${near} near-duplicate`)
+    for (const { trainRow, validationRow, similarity, text } of examples) {
+      console.log(
+        `    validation #${validationRow} ~ train #${trainRow} (${(
+          similarity * 100
+        ).toFixed(0)}%): ${truncate(text)}`
+      )
+    }
+  }
+  if (report.leakedValidationRows) {
+    console.log(
+      `❌ ${report.leakedValidationRows} of ${report.validation.validRows} validation records repeat a training record`
+    )
+  } else {
+    console.log('✓ No leakage found')
+  }
+}
+
+export {
+  checkDatasetSplits,
+  findCrossDuplicates,
+  hasDatasetProblems,
+  logDatasetCheck,
+  normalizeText,
+  DatasetCheckReport,
+  DuplicatePair,
+  SplitSummary,
+}
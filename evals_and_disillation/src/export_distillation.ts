@@ -0,0 +1,331 @@
+import fs from 'fs'
+import path from 'path'
+import OpenAI from 'openai'
+import {
+  buildTaskMessages,
+  createAnswerSchema,
+  getTaskLabels,
+  loadPromptVariant,
+  loadTaskDefinition,
+  loadTaskRecords,
+  renderPrompt,
+  PromptVariant,
+  TaskDefinition,
+} from './task_definition'
+import { readPredictionsFile } from './step3_analyze_results'
+import { createSeededRandom, shuffle } from './random'
+import { estimateMessageTokens } from './tokens'
+
+// Training examples above this size are rejected by the fine-tuning API
+const MAX_TOKENS_PER_EXAMPLE = 65536
+
+// Directory for exported fine-tuning files
+const distillationDir = './data/distillation'
+
+interface DistillationExportOptions {
+  teacherFile: string // Teacher predictions CSV (e.g. the gpt-4o train run)
+  task?: string // Task definition file (defaults to the wine variety task)
+  promptId?: string // Prompt variant the student is trained on (defaults to the task's default prompt)
+  datasetPath?: string // Source dataset the predictions were made on (defaults to the task's train set)
+  outputName?: string // File name prefix (defaults to distillation_<model>_<timestamp>)
+  onlyCorrect?: boolean // Keep only teacher answers matching the ground truth
+  minAgreement?: number // Keep only answers at least this share of self-consistency samples agreed on
+  dedupe?: boolean // Drop examples with an identical user prompt
+  maxPerVariety?: number // Cap on examples per teacher label
+  validationFraction?: number // Share of examples held out for validation
+  seed?: number
+}
+
+// One chat-format fine-tuning example
+interface FineTuningExample {
+  messages: OpenAI.ChatCompletionMessageParam[]
+}
+
+interface ExportSummary {
+  trainFile: string
+  validationFile: string | null
+  trainExamples: number
+  validationExamples: number
+  skipped: {
+    failed: number // Teacher records without an answer
+    missingSource: number
+    incorrect: number
+    lowAgreement: number
+    invalidLabel: number
+    duplicate: number
+    overCap: number
+  }
+}
+
+interface ValidationReport {
+  filePath: string
+  examples: number
+  errors: string[]
+  tokens: { min: number; max: number; mean: number; total: number }
+}
+
+// Builds a training example from the teacher answer for one source record
+function buildExample(
+  task: TaskDefinition,
+  promptVariant: PromptVariant,
+  prompt: string,
+  label: string
+): FineTuningExample {
+  return {
+    messages: [
+      ...buildTaskMessages(promptVariant, prompt),
+      {
+        role: 'assistant',
+        content: JSON.stringify({ [task.answerField]: label }),
+      },
+    ],
+  }
+}
+
+async function writeJsonl(filePath: string, examples: FineTuningExample[]) {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.promises.writeFile(
+    filePath,
+    examples.map((example) => JSON.stringify(example)).join('\n') + '\n'
+  )
+}
+
+// Turns a teacher predictions file into chat-format fine-tuning JSONL
+// Prediction recordIds index into the valid records of the source dataset
+async function exportDistillationDataset({
+  teacherFile,
+  task: taskPath,
+  promptId,
+  datasetPath,
+  outputName,
+  onlyCorrect = false,
+  minAgreement,
+  dedupe = true,
+  maxPerVariety,
+  validationFraction = 0.1,
+  seed = 42,
+}: DistillationExportOptions): Promise<ExportSummary> {
+  const task = await loadTaskDefinition(taskPath)
+  const promptVariant = await loadPromptVariant(task, promptId)
+  const [predictions, records, labels] = await Promise.all([
+    readPredictionsFile(teacherFile),
+    loadTaskRecords(task, datasetPath ?? task.datasets.train),
+    getTaskLabels(task),
+  ])
+  if (minAgreement !== undefined && !(minAgreement > 0 && minAgreement <= 1)) {
+    throw new Error(`Minimum agreement must be in (0, 1], got ${minAgreement}`)
+  }
+  if (
+    minAgreement !== undefined &&
+    predictions.every(({ agreement }) => agreement === undefined)
+  ) {
+    throw new Error(
+      `${teacherFile} has no agreement scores; a minimum agreement needs a self-consistency run`
+    )
+  }
+
+  const skipped: ExportSummary['skipped'] = {
+    failed: 0,
+    missingSource: 0,
+    incorrect: 0,
+    lowAgreement: 0,
+    invalidLabel: 0,
+    duplicate: 0,
+    overCap: 0,
+  }
+  const seenPrompts = new Set<string>()
+  const candidates: Array<{ variety: string; example: FineTuningExample }> = []
+
+  for (const prediction of predictions) {
+    if (prediction.failure) {
+      skipped.failed++
+      continue
+    }
+    const source = records[Number(prediction.recordId)]
+
+    // Guard against predictions made on a different file or sample order
+    if (!source || source.display !== prediction.winery) {
+      skipped.missingSource++
+      continue
+    }
+    if (labels.length && !labels.includes(prediction.prediction)) {
+      skipped.invalidLabel++
+      continue
+    }
+    if (onlyCorrect && prediction.prediction !== source.label) {
+      skipped.incorrect++
+      continue
+    }
+    if (
+      minAgreement !== undefined &&
+      (prediction.agreement ?? 0) < minAgreement
+    ) {
+      skipped.lowAgreement++
+      continue
+    }
+
+    const prompt = renderPrompt(promptVariant, source, labels)
+    if (dedupe && seenPrompts.has(prompt)) {
+      skipped.duplicate++
+      continue
+    }
+    seenPrompts.add(prompt)
+
+    candidates.push({
+      variety: prediction.prediction,
+      example: buildExample(task, promptVariant, prompt, prediction.prediction),
+    })
+  }
+
+  // Shuffle before capping so the kept examples are not biased by file order
+  const random = createSeededRandom(seed)
+  const perVariety = new Map<string, number>()
+  const examples = shuffle(candidates, random).filter(({ variety }) => {
+    const count = perVariety.get(variety) ?? 0
+    if (maxPerVariety !== undefined && count >= maxPerVariety) {
+      skipped.overCap++
+      return false
+    }
+    perVariety.set(variety, count + 1)
+    return true
+  })
+
+  const validationCount = Math.round(examples.length * validationFraction)
+  const validationExamples = examples.slice(0, validationCount)
+  const trainExamples = examples.slice(validationCount)
+
+  const teacherModel = predictions[0].model
+  const name =
+    outputName ??
+    `distillation_${teacherModel}_${new Date()
+      .toISOString()
+      .replace(/[:.]/g, '-')}`
+  const trainFile = path.join(distillationDir, `${name}_train.jsonl`)
+  const validationFile = validationCount
+    ? path.join(distillationDir, `${name}_validation.jsonl`)
+    : null
+
+  await writeJsonl(
+    trainFile,
+    trainExamples.map(({ example }) => example)
+  )
+  if (validationFile) {
+    await writeJsonl(
+      validationFile,
+      validationExamples.map(({ example }) => example)
+    )
+  }
+
+  return {
+    trainFile,
+    validationFile,
+    trainExamples: trainExamples.length,
+    validationExamples: validationExamples.length,
+    skipped,
+  }
+}
+
+// Checks a fine-tuning JSONL file: message structure, assistant answers
+// against the response schema, and (estimated) tokens per example
+async function validateFineTuningFile(
+  filePath: string,
+  task?: TaskDefinition
+): Promise<ValidationReport> {
+  const taskDefinition = task ?? (await loadTaskDefinition())
+  const answerSchema = createAnswerSchema(
+    taskDefinition,
+    await getTaskLabels(taskDefinition)
+  )
+  const lines = (await fs.promises.readFile(filePath, 'utf8'))
+    .split('\n')
+    .filter((line) => line.trim())
+
+  const errors: string[] = []
+  const tokenCounts: number[] = []
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1
+    let example: FineTuningExample
+
+    try {
+      example = JSON.parse(line)
+    } catch {
+      errors.push(`Line ${lineNumber}: invalid JSON`)
+      return
+    }
+
+    const roles = example.messages?.map((message) => message.role) ?? []
+    if (roles.join(',') !== 'system,user,assistant') {
+      errors.push(
+        `Line ${lineNumber}: expected system, user, assistant messages but got ${
+          roles.join(', ') || 'none'
+        }`
+      )
+      return
+    }
+
+    const answer = example.messages[2].content
+    try {
+      const parsed = answerSchema.safeParse(JSON.parse(String(answer)))
+      if (!parsed.success) {
+        errors.push(
+          `Line ${lineNumber}: assistant answer does not match schema (${parsed.error.issues[0].message})`
+        )
+      }
+    } catch {
+      errors.push(`Line ${lineNumber}: assistant answer is not JSON`)
+    }
+
+    const tokens = estimateMessageTokens(example.messages)
+    tokenCounts.push(tokens)
+    if (tokens > MAX_TOKENS_PER_EXAMPLE) {
+      errors.push(
+        `Line ${lineNumber}: ~${tokens} tokens exceeds the ${MAX_TOKENS_PER_EXAMPLE} token limit`
+      )
+    }
+  })
+
+  const total = tokenCounts.reduce((sum, count) => sum + count, 0)
+  return {
+    filePath,
+    examples: lines.length,
+    errors,
+    tokens: {
+      min: tokenCounts.length ? Math.min(...tokenCounts) : 0,
+      max: tokenCounts.length ? Math.max(...tokenCounts) : 0,
+      mean: tokenCounts.length ? total / tokenCounts.length : 0,
+      total,
+    },
+  }
+}
+
+function logValidationReport({
+  filePath,
+  examples,
+  errors,
+  tokens,
+}: ValidationReport) {
+  console.log(`\n${filePath}`)
+  console.log(`Examples: ${examples}`)
+  console.log(
+    `Estimated tokens per example: min ${tokens.min}, max ${
+      tokens.max
+    }, mean ${tokens.mean.toFixed(1)} (total ~${tokens.total})`
+  )
+  if (errors.length) {
+    console.log(`❌ ${errors.length} problems found:`)
+    errors.slice(0, 20).forEach((error) => console.log(`  ${error}`))
+  } else {
+    console.log('✓ File is valid')
+  }
+}
+
+export {
+  exportDistillationDataset,
+  validateFineTuningFile,
+  logValidationReport,
+  DistillationExportOptions,
+  ExportSummary,
+  ValidationReport,
+  FineTuningExample,
+}
@@ -0,0 +1,229 @@
+import fs from 'fs'
+import { parseArgs } from 'util'
+import { pathToFileURL } from 'url'
+import { setTimeout } from 'timers/promises'
+import OpenAI from 'openai'
+import { createOpenAIClient } from './model_provider'
+import { runEvaluation } from './run_evaluation'
+
+// Local record of every fine-tuning job started from this project
+const registryPath = './data/fine_tune_registry.json'
+
+interface FineTuneRegistryEntry {
+  jobId: string
+  baseModel: string
+  trainingFile: string
+  trainingFileId: string
+  validationFile: string | null
+  validationFileId: string | null
+  status: OpenAI.FineTuning.FineTuningJob['status']
+  fineTunedModel: string | null
+  evaluationRunId: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+interface FineTuneConfig {
+  trainingFile: string // Local JSONL file (e.g. from export_distillation)
+  validationFile?: string
+  baseModel?: string
+  suffix?: string
+  evaluate?: boolean // Evaluate the resulting model on the validation set
+  numSamples?: number // Samples for the follow-up evaluation (-1 for all)
+  pollIntervalMs?: number
+  maxPollIntervalMs?: number
+  client?: OpenAI
+}
+
+async function loadRegistry(): Promise<FineTuneRegistryEntry[]> {
+  if (!fs.existsSync(registryPath)) return []
+  return JSON.parse(await fs.promises.readFile(registryPath, 'utf8'))
+}
+
+// Inserts or updates the registry entry of a job
+async function saveRegistryEntry(entry: FineTuneRegistryEntry): Promise<void> {
+  const registry = await loadRegistry()
+  const index = registry.findIndex(({ jobId }) => jobId === entry.jobId)
+  entry.updatedAt = new Date().toISOString()
+
+  if (index === -1) registry.push(entry)
+  else registry[index] = entry
+
+  await fs.promises.writeFile(registryPath, JSON.stringify(registry, null, 2))
+}
+
+async function uploadTrainingFile(
+  client: OpenAI,
+  filePath: string
+): Promise<string> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Training file not found: ${filePath}`)
+  }
+
+  const file = await client.files.create({
+    file: fs.createReadStream(filePath),
+    purpose: 'fine-tune',
+  })
+  console.log(`✓ Uploaded ${filePath} as ${file.id}`)
+  return file.id
+}
+
+// Polls a job until it reaches a terminal status
+// The interval grows by 1.5x after each unchanged status, up to maxPollIntervalMs
+async function waitForJob(
+  client: OpenAI,
+  entry: FineTuneRegistryEntry,
+  pollIntervalMs: number,
+  maxPollIntervalMs: number
+): Promise<OpenAI.FineTuning.FineTuningJob> {
+  let interval = pollIntervalMs
+
+  while (true) {
+    const job = await client.fineTuning.jobs.retrieve(entry.jobId)
+
+    if (job.status !== entry.status) {
+      console.log(`⏳ Job ${job.id}: ${entry.status} → ${job.status}`)
+      entry.status = job.status
+      entry.fineTunedModel = job.fine_tuned_model
+      await saveRegistryEntry(entry)
+      interval = pollIntervalMs
+    } else {
+      interval = Math.min(interval * 1.5, maxPollIntervalMs)
+    }
+
+    if (['succeeded', 'failed', 'cancelled'].includes(job.status)) {
+      return job
+    }
+    await setTimeout(interval)
+  }
+}
+
+// Uploads training data, runs a fine-tuning job to completion, records it in
+// the registry and evaluates the resulting model against the base model
+async function runFineTune({
+  trainingFile,
+  validationFile,
+  baseModel = 'gpt-4o-mini-2024-07-18',
+  suffix,
+  evaluate = true,
+  numSamples = -1,
+  pollIntervalMs = 10000,
+  maxPollIntervalMs = 120000,
+  client = createOpenAIClient(),
+}: FineTuneConfig): Promise<FineTuneRegistryEntry> {
+  const trainingFileId = await uploadTrainingFile(client, trainingFile)
+  const validationFileId = validationFile
+    ? await uploadTrainingFile(client, validationFile)
+    : null
+
+  const job = await client.fineTuning.jobs.create({
+    model: baseModel,
+    training_file: trainingFileId,
+    validation_file: validationFileId ?? undefined,
+    suffix,
+  })
+  console.log(`✓ Created fine-tuning job ${job.id} on ${baseModel}`)
+
+  const now = new Date().toISOString()
+  const entry: FineTuneRegistryEntry = {
+    jobId: job.id,
+    baseModel,
+    trainingFile,
+    trainingFileId,
+    validationFile: validationFile ?? null,
+    validationFileId,
+    status: job.status,
+    fineTunedModel: job.fine_tuned_model,
+    evaluationRunId: null,
+    createdAt: now,
+    updatedAt: now,
+  }
+  await saveRegistryEntry(entry)
+
+  const finishedJob = await waitForJob(
+    client,
+    entry,
+    pollIntervalMs,
+    maxPollIntervalMs
+  )
+
+  if (finishedJob.status !== 'succeeded' || !finishedJob.fine_tuned_model) {
+    throw new Error(
+      `Fine-tuning job ${finishedJob.id} ended with status ${
+        finishedJob.status
+      }${finishedJob.error ? `: ${finishedJob.error.message}` : ''}`
+    )
+  }
+
+  console.log(`\n✅ Fine-tuned model ready: ${finishedJob.fine_tuned_model}`)
+
+  if (evaluate) {
+    console.log('\n=== Evaluating fine-tuned model on validation set ===')
+    const { runId } = await runEvaluation({
+      comparisonModel: finishedJob.fine_tuned_model,
+      datasets: ['validation'],
+      numSamples,
+    })
+    entry.evaluationRunId = runId
+    await saveRegistryEntry(entry)
+  }
+
+  return entry
+}
+
+// CLI handler
+// Usage: tsx src/fine_tune.ts <trainingFile> [--validation-file file]
+//          [--model gpt-4o-mini-2024-07-18] [--suffix name] [--samples -1] [--no-eval]
+//        tsx src/fine_tune.ts --list
+if (
+  process.argv[1] &&
+  import.meta.url === pathToFileURL(process.argv[1]).href
+) {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'validation-file': { type: 'string' },
+      model: { type: 'string' },
+      suffix: { type: 'string' },
+      samples: { type: 'string', default: '-1' },
+      'no-eval': { type: 'boolean', default: false },
+      'poll-interval': { type: 'string', default: '10000' },
+      list: { type: 'boolean', default: false },
+    },
+  })
+
+  const run = async () => {
+    if (values.list) {
+      for (const entry of await loadRegistry()) {
+        console.log(
+          `${entry.createdAt}  ${entry.jobId}  ${entry.status}  ${
+            entry.fineTunedModel ?? '-'
+          }  eval run: ${entry.evaluationRunId ?? '-'}`
+        )
+      }
+      return
+    }
+
+    const trainingFile = positionals[0]
+    if (!trainingFile) {
+      throw new Error('Please provide a training file')
+    }
+
+    await runFineTune({
+      trainingFile,
+      validationFile: values['validation-file'],
+      baseModel: values.model,
+      suffix: values.suffix,
+      evaluate: !values['no-eval'],
+      numSamples: parseInt(values.samples!),
+      pollIntervalMs: parseInt(values['poll-interval']!),
+    })
+  }
+
+  run().catch((error) => {
+    console.error('Error during fine-tuning:', error)
+    process.exit(1)
+  })
+}
+
+export { runFineTune, loadRegistry, FineTuneConfig, FineTuneRegistryEntry }
@@ -0,0 +1,409 @@
+import fs from 'fs'
+import { pairPredictions, PairedRecord } from './paired_comparison'
+import { Leaderboard } from './leaderboard'
+import {
+  WineAnalysisResult,
+  WinePredictionRecord,
+} from './step3_analyze_results'
+import { TaskRecord } from './task_definition'
+
+// What to put in the report besides the analysis itself
+interface ReportOptions {
+  filePath: string
+  title: string
+  config: Record<string, string | number | boolean> // Shown as the run configuration
+  baselineRunId?: string // Previous run the diff section compares against
+  baselineFiles?: string[] // Prediction files of that run, matched to models by name
+}
+
+interface ReportData {
+  options: ReportOptions
+  results: WineAnalysisResult[]
+  predictions: WinePredictionRecord[][] // `predictions[i]` holds the predictions behind `results[i]`
+  leaderboard: Leaderboard
+  sourceRecords?: TaskRecord[] // Dataset records, indexed by recordId
+  baselinePredictions?: WinePredictionRecord[][]
+}
+
+// Change of one model against its predictions in the baseline run
+interface BaselineDiff {
+  model: string
+  pairedCount: number
+  baselineAccuracy: number
+  accuracy: number
+  fixed: PairedRecord[] // Wrong in the baseline, correct now
+  broken: PairedRecord[] // Correct in the baseline, wrong now
+}
+
+const styles = `
+body { font-family: -apple-system, Segoe UI, Helvetica, Arial, sans-serif; margin: 2rem; color: #1f2328; }
+h1 { margin-bottom: 0.25rem; }
+h2 { margin-top: 2.5rem; border-bottom: 1px solid #d0d7de; padding-bottom: 0.3rem; }
+table { border-collapse: collapse; font-size: 0.9rem; }
+th, td { border: 1px solid #d0d7de; padding: 0.3rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+td.num { text-align: right; font-variant-numeric: tabular-nums; }
+.muted { color: #656d76; font-size: 0.85rem; }
+.bar { display: flex; align-items: center; gap: 0.5rem; margin: 0.3rem 0; }
+.bar .label { width: 16rem; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+.bar .track { width: 30rem; background: #eaeef2; height: 1.1rem; position: relative; }
+.bar .strict { background: #2da44e; height: 100%; }
+.bar .lenient { position: absolute; top: 0; height: 100%; background: #2da44e55; }
+.heatmap td { width: 1.6rem; height: 1.6rem; padding: 0; text-align: center; font-size: 0.7rem; }
+.heatmap th { font-size: 0.7rem; white-space: nowrap; }
+.heatmap thead th { writing-mode: vertical-rl; transform: rotate(180deg); }
+.wrong { color: #cf222e; }
+.right { color: #1a7f37; }
+.inputs { font-size: 0.8rem; max-width: 40rem; }
+.filters { display: flex; gap: 1rem; margin: 0.8rem 0; }
+details { margin: 0.8rem 0; }
+`
+
+// Shows the rows matching the search text and the "wrong only" model filter
+const filterScript = `
+function applyFilters() {
+  const text = document.getElementById('search').value.toLowerCase()
+  const model = document.getElementById('wrong-model').value
+  document.querySelectorAll('#disagreements tbody tr').forEach((row) => {
+    const matchesText = !text || row.textContent.toLowerCase().includes(text)
+    const matchesModel = !model || row.dataset.wrong.split('|').includes(model)
+    row.style.display = matchesText && matchesModel ? '' : 'none'
+  })
+}
+document.getElementById('search').addEventListener('input', applyFilters)
+document.getElementById('wrong-model').addEventListener('change', applyFilters)
+`
+
+function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(2)}%`
+
+function renderConfig(config: ReportOptions['config']): string {
+  const rows = Object.entries(config)
+    .map(
+      ([key, value]) =>
+        `<tr><th>${escapeHtml(key)}</th><td>${escapeHtml(value)}</td></tr>`
+    )
+    .join('')
+  return `<h2>Run configuration</h2><table>${rows}</table>`
+}
+
+function renderComparisonTable({ entries }: Leaderboard): string {
+  const rows = entries
+    .map(
+      (entry) => `<tr>
+<td class="num">${entry.rank}</td>
+<td>${escapeHtml(entry.model)}${entry.isReference ? ' *' : ''}</td>
+<td class="num">${entry.totalPredictions}</td>
+<td class="num">${entry.failedPredictions || ''}</td>
+<td class="num">${pct(entry.accuracy)}</td>
+<td class="num">${pct(entry.lenientAccuracy)}</td>
+<td class="num">${entry.macroF1.toFixed(3)}</td>
+<td class="num">${
+        entry.totalCost === null ? '-' : `$${entry.totalCost.toFixed(4)}`
+      }</td>
+<td class="num">${
+        entry.meanLatencyMs === null
+          ? '-'
+          : `${entry.meanLatencyMs.toFixed(0)}ms`
+      }</td>
+<td class="num">${entry.wins}/${entry.losses}</td>
+</tr>`
+    )
+    .join('')
+
+  return `<h2>Model comparison</h2>
+<table>
+<thead><tr><th>#</th><th>Model</th><th>Predictions</th><th>Failed</th><th>Accuracy</th><th>Lenient</th><th>Macro F1</th><th>Cost</th><th>Latency</th><th>W/L</th></tr></thead>
+<tbody>${rows}</tbody>
+</table>
+<p class="muted">* reference model. W/L counts records a model got right (wrong) while another model got them wrong (right).</p>`
+}
+
+function renderAccuracyBars(results: WineAnalysisResult[]): string {
+  const bars = results
+    .map(
+      ({ model, accuracy, lenientAccuracy }) => `<div class="bar">
+<span class="label">${escapeHtml(model)}</span>
+<span class="track"><span class="lenient" style="width:${
+        lenientAccuracy * 100
+      }%"></span><div class="strict" style="width:${
+        accuracy * 100
+      }%"></div></span>
+<span>${pct(accuracy)} <span class="muted">(${pct(
+        lenientAccuracy
+      )} lenient)</span></span>
+</div>`
+    )
+    .join('')
+  return `<h2>Accuracy</h2>${bars}<p class="muted">Solid: strict accuracy. Shaded: lenient accuracy.</p>`
+}
+
+// Colours cells by their share of the row (the actual label's records)
+function renderHeatmap({ model, metrics }: WineAnalysisResult): string {
+  const { labels, counts } = metrics.confusionMatrix
+  const header = labels.map((label) => `<th>${escapeHtml(label)}</th>`).join('')
+  const rows = labels
+    .map((actual, i) => {
+      const total = counts[i].reduce((sum, count) => sum + count, 0)
+      const cells = counts[i]
+        .map((count, j) => {
+          if (!count) return '<td></td>'
+          const share = count / total
+          const color = i === j ? '45, 164, 78' : '207, 34, 46'
+          return `<td title="${escapeHtml(actual)} → ${escapeHtml(
+            labels[j]
+          )}: ${count}" style="background: rgba(${color}, ${(
+            0.15 +
+            0.85 * share
+          ).toFixed(2)})">${count}</td>`
+        })
+        .join('')
+      return `<tr><th>${escapeHtml(actual)}</th>${cells}</tr>`
+    })
+    .join('')
+
+  return `<details>
+<summary>${escapeHtml(model)} (${labels.length} labels)</summary>
+<table class="heatmap"><thead><tr><th>Actual \\ Predicted</th>${header}</tr></thead><tbody>${rows}</tbody></table>
+</details>`
+}
+
+function renderInputs(source: TaskRecord | undefined): string {
+  if (!source) return '<span class="muted">Source record not found</span>'
+  return Object.entries(source.inputs)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(
+      ([column, value]) =>
+        `<div><strong>${escapeHtml(column)}:</strong> ${escapeHtml(
+          value
+        )}</div>`
+    )
+    .join('')
+}
+
+// Every record some model got wrong, with each model's answer side by side
+function renderDisagreements(
+  results: WineAnalysisResult[],
+  predictions: WinePredictionRecord[][],
+  sourceRecords: TaskRecord[] | undefined
+): string {
+  const models = results.map(({ model }) => model)
+  const byRecord = new Map<string, Array<WinePredictionRecord | undefined>>()
+  predictions.forEach((modelPredictions, i) => {
+    for (const prediction of modelPredictions) {
+      const key = String(prediction.recordId)
+      const row = byRecord.get(key) ?? models.map(() => undefined)
+      row[i] = prediction
+      byRecord.set(key, row)
+    }
+  })
+
+  const rows = [...byRecord.entries()]
+    .filter(([, row]) =>
+      row.some(
+        (prediction) =>
+          prediction && prediction.prediction !== prediction.actual_variety
+      )
+    )
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([recordId, row]) => {
+      const first = row.find(Boolean)!
+      const wrongModels = models.filter(
+        (_, i) => row[i] && row[i]!.prediction !== row[i]!.actual_variety
+      )
+      const cells = row
+        .map((prediction) =>
+          prediction
+            ? `<td class="${
+                prediction.prediction === prediction.actual_variety
+                  ? 'right'
+                  : 'wrong'
+              }">${escapeHtml(
+                prediction.failure
+                  ? `(failed: ${prediction.failure.errorClass})`
+                  : prediction.prediction
+              )}</td>`
+            : '<td class="muted">-</td>'
+        )
+        .join('')
+      return `<tr data-wrong="${escapeHtml(wrongModels.join('|'))}">
+<td class="num">${escapeHtml(recordId)}</td>
+<td>${escapeHtml(first.winery)}</td>
+<td class="inputs">${renderInputs(sourceRecords?.[Number(recordId)])}</td>
+<td>${escapeHtml(first.actual_variety)}</td>
+${cells}
+</tr>`
+    })
+
+  const options = models
+    .map(
+      (model) =>
+        `<option value="${escapeHtml(model)}">${escapeHtml(model)}</option>`
+    )
+    .join('')
+
+  return `<h2>Disagreements (${rows.length})</h2>
+<p class="muted">Records at least one model got wrong.</p>
+<div class="filters">
+<input id="search" type="search" placeholder="Filter by any text" size="40">
+<label>Wrong for <select id="wrong-model"><option value="">any model</option>${options}</select></label>
+</div>
+<table id="disagreements">
+<thead><tr><th>Record</th><th>Title</th><th>Inputs</th><th>Actual</th>${models
+    .map((model) => `<th>${escapeHtml(model)}</th>`)
+    .join('')}</tr></thead>
+<tbody>${rows.join('')}</tbody>
+</table>`
+}
+
+// Pairs each model with its own predictions in the baseline run
+function diffAgainstBaseline(
+  results: WineAnalysisResult[],
+  predictions: WinePredictionRecord[][],
+  baselinePredictions: WinePredictionRecord[][]
+): BaselineDiff[] {
+  return results.flatMap(({ model }, i) => {
+    const baseline = baselinePredictions.find(
+      (records) => records[0]?.model === model
+    )
+    if (!baseline) return []
+
+    const { paired } = pairPredictions(baseline, predictions[i])
+    const count = paired.length || 1
+    return [
+      {
+        model,
+        pairedCount: paired.length,
+        baselineAccuracy:
+          paired.filter((record) => record.baseCorrect).length / count,
+        accuracy:
+          paired.filter((record) => record.comparisonCorrect).length / count,
+        fixed: paired.filter(
+          (record) => !record.baseCorrect && record.comparisonCorrect
+        ),
+        broken: paired.filter(
+          (record) => record.baseCorrect && !record.comparisonCorrect
+        ),
+      },
+    ]
+  })
+}
+
+function renderBaselineDiff(runId: string, diffs: BaselineDiff[]): string {
+  if (!diffs.length) {
+    return `<h2>Changes since ${escapeHtml(
+      runId
+    )}</h2><p class="muted">No model of this run was found in the baseline run.</p>`
+  }
+
+  const summary = diffs
+    .map(
+      ({ model, pairedCount, baselineAccuracy, accuracy, fixed, broken }) => {
+        const delta = accuracy - baselineAccuracy
+        return `<tr>
+<td>${escapeHtml(model)}</td>
+<td class="num">${pairedCount}</td>
+<td class="num">${pct(baselineAccuracy)}</td>
+<td class="num">${pct(accuracy)}</td>
+<td class="num ${delta < 0 ? 'wrong' : delta > 0 ? 'right' : ''}">${
+          delta > 0 ? '+' : ''
+        }${(delta * 100).toFixed(2)} pp</td>
+<td class="num right">${fixed.length}</td>
+<td class="num wrong">${broken.length}</td>
+</tr>`
+      }
+    )
+    .join('')
+
+  const changed = diffs
+    .map(({ model, fixed, broken }) => {
+      const rows = [
+        ...broken.map((record) => ({ record, status: 'broken' })),
+        ...fixed.map((record) => ({ record, status: 'fixed' })),
+      ]
+        .map(
+          ({ record, status }) => `<tr>
+<td class="${status === 'fixed' ? 'right' : 'wrong'}">${status}</td>
+<td class="num">${escapeHtml(record.recordId)}</td>
+<td>${escapeHtml(record.winery)}</td>
+<td>${escapeHtml(record.actual)}</td>
+<td>${escapeHtml(record.basePrediction)}</td>
+<td>${escapeHtml(record.comparisonPrediction)}</td>
+</tr>`
+        )
+        .join('')
+      return rows
+        ? `<details><summary>${escapeHtml(model)}: ${
+            fixed.length + broken.length
+          } changed records</summary>
+<table><thead><tr><th>Change</th><th>Record</th><th>Title</th><th>Actual</th><th>Before</th><th>Now</th></tr></thead><tbody>${rows}</tbody></table>
+</details>`
+        : ''
+    })
+    .join('')
+
+  return `<h2>Changes since ${escapeHtml(runId)}</h2>
+<p class="muted">Each model is compared with its own predictions in the baseline run, on the records both runs predicted.</p>
+<table>
+<thead><tr><th>Model</th><th>Shared records</th><th>Before</th><th>Now</th><th>Change</th><th>Fixed</th><th>Broken</th></tr></thead>
+<tbody>${summary}</tbody>
+</table>
+${changed}`
+}
+
+// Renders the whole report as one HTML document with inline styles and script
+function renderHtmlReport({
+  options,
+  results,
+  predictions,
+  leaderboard,
+  sourceRecords,
+  baselinePredictions,
+}: ReportData): string {
+  const sections = [
+    renderConfig(options.config),
+    renderComparisonTable(leaderboard),
+    renderAccuracyBars(results),
+    `<h2>Confusion matrices</h2><p class="muted">Rows are actual labels, columns predicted labels; shading is the share of the row.</p>${results
+      .map(renderHeatmap)
+      .join('')}`,
+    options.baselineRunId && baselinePredictions
+      ? renderBaselineDiff(
+          options.baselineRunId,
+          diffAgainstBaseline(results, predictions, baselinePredictions)
+        )
+      : '',
+    renderDisagreements(results, predictions, sourceRecords),
+  ]
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(options.title)}</title>
+<style>${styles}</style>
+</head>
+<body>
+<h1>${escapeHtml(options.title)}</h1>
+<p class="muted">Generated ${escapeHtml(new Date().toISOString())}</p>
+${sections.join('\n')}
+<script>${filterScript}</script>
+</body>
+</html>
+`
+}
+
+async function saveHtmlReport(data: ReportData): Promise<string> {
+  await fs.promises.writeFile(data.options.filePath, renderHtmlReport(data))
+  return data.options.filePath
+}
+
+export { renderHtmlReport, saveHtmlReport, ReportData, ReportOptions }
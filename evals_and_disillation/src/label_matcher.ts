@@ -0,0 +1,143 @@
+import fs from 'fs'
+import { z } from 'zod'
+
+// How a prediction relates to the ground-truth label
+type MatchKind = 'exact' | 'normalized' | 'alias' | 'partial' | 'none'
+
+interface MatchResult {
+  kind: MatchKind
+  strict: boolean // Only exact string equality counts
+  credit: number // Lenient score between 0 and 1
+}
+
+// Rules for accepting predictions that differ from the label in form only.
+// `aliases` maps a canonical label to the names that mean the same thing
+// (Syrah: Shiraz), `blends` lists the components of blend labels; labels not
+// in `blends` are split on `blendSeparators` (Malbec-Merlot).
+const matcherConfigSchema = z.object({
+  normalization: z
+    .object({
+      caseInsensitive: z.boolean().default(true),
+      collapseWhitespace: z.boolean().default(true),
+      stripAccents: z.boolean().default(true),
+      stripPunctuation: z.boolean().default(false),
+    })
+    .default({}),
+  aliases: z.record(z.array(z.string())).default({}),
+  blends: z.record(z.array(z.string())).default({}),
+  // Credit for predicting one component of the actual blend (0 disables it)
+  partialCredit: z.number().min(0).max(1).default(0),
+  blendSeparators: z.array(z.string()).default([]),
+})
+
+type MatcherConfig = z.infer<typeof matcherConfigSchema>
+
+interface LabelMatcher {
+  config: MatcherConfig
+  normalize(label: string): string
+  match(predicted: string, actual: string): MatchResult
+}
+
+// Normalization only: casing, whitespace and accents are ignored
+const defaultMatcherConfig: MatcherConfig = matcherConfigSchema.parse({})
+
+// Loads and validates a matcher config file
+async function loadMatcherConfig(filePath: string): Promise<MatcherConfig> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Label matching config not found: ${filePath}`)
+  }
+
+  const parsed = matcherConfigSchema.safeParse(
+    JSON.parse(await fs.promises.readFile(filePath, 'utf8'))
+  )
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ')
+    throw new Error(`Invalid label matching config ${filePath}: ${issues}`)
+  }
+  return parsed.data
+}
+
+function createLabelMatcher(
+  config: MatcherConfig = defaultMatcherConfig
+): LabelMatcher {
+  const { normalization } = config
+
+  function normalize(label: string): string {
+    let value = label.trim()
+    if (normalization.stripAccents) {
+      value = value.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    }
+    if (normalization.caseInsensitive) value = value.toLowerCase()
+    if (normalization.stripPunctuation) {
+      value = value.replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    }
+    if (normalization.collapseWhitespace) value = value.replace(/\s+/g, ' ')
+    return value.trim()
+  }
+
+  // Every alias (and the canonical name itself) points at the canonical name
+  const canonicalNames = new Map<string, string>()
+  for (const [canonical, aliases] of Object.entries(config.aliases)) {
+    for (const name of [canonical, ...aliases]) {
+      canonicalNames.set(normalize(name), normalize(canonical))
+    }
+  }
+  const canonicalize = (label: string) => {
+    const normalized = normalize(label)
+    return canonicalNames.get(normalized) ?? normalized
+  }
+
+  const blends = new Map(
+    Object.entries(config.blends).map(([blend, components]) => [
+      canonicalize(blend),
+      components.map(canonicalize),
+    ])
+  )
+
+  function getComponents(label: string): string[] {
+    const known = blends.get(canonicalize(label))
+    if (known) return known
+
+    let parts = [label]
+    for (const separator of config.blendSeparators) {
+      parts = parts.flatMap((part) => part.split(separator))
+    }
+    return parts.length > 1
+      ? parts.filter((part) => part.trim()).map(canonicalize)
+      : []
+  }
+
+  function match(predicted: string, actual: string): MatchResult {
+    if (predicted === actual) {
+      return { kind: 'exact', strict: true, credit: 1 }
+    }
+    if (normalize(predicted) === normalize(actual)) {
+      return { kind: 'normalized', strict: false, credit: 1 }
+    }
+    if (canonicalize(predicted) === canonicalize(actual)) {
+      return { kind: 'alias', strict: false, credit: 1 }
+    }
+    if (
+      config.partialCredit > 0 &&
+      getComponents(predicted).length === 0 &&
+      getComponents(actual).includes(canonicalize(predicted))
+    ) {
+      return { kind: 'partial', strict: false, credit: config.partialCredit }
+    }
+    return { kind: 'none', strict: false, credit: 0 }
+  }
+
+  return { config, normalize, match }
+}
+
+export {
+  createLabelMatcher,
+  loadMatcherConfig,
+  defaultMatcherConfig,
+  LabelMatcher,
+  MatcherConfig,
+  MatchResult,
+  MatchKind,
+}
@@ -0,0 +1,227 @@
+import { createObjectCsvWriter } from 'csv-writer'
+import { pairPredictions } from './paired_comparison'
+import {
+  WineAnalysisResult,
+  WinePredictionRecord,
+} from './step3_analyze_results'
+
+// One row of the leaderboard
+interface LeaderboardEntry {
+  rank: number
+  model: string
+  isReference: boolean
+  totalPredictions: number
+  failedPredictions: number
+  accuracy: number
+  lenientAccuracy: number
+  macroF1: number
+  totalCost: number | null
+  costPerCorrect: number | null
+  meanLatencyMs: number | null
+  wins: number // Head-to-head records won against all other models
+  losses: number
+}
+
+// Head-to-head result of one model against another on their shared records
+interface PairwiseResult {
+  model: string
+  opponent: string
+  pairedCount: number
+  wins: number // Model correct, opponent wrong
+  losses: number // Model wrong, opponent correct
+  ties: number // Both correct or both wrong
+}
+
+interface Leaderboard {
+  referenceModel: string
+  entries: LeaderboardEntry[]
+  pairwise: PairwiseResult[]
+}
+
+// Ranks by accuracy, then macro F1, then lower cost (unknown cost last)
+function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry): number {
+  return (
+    b.accuracy - a.accuracy ||
+    b.macroF1 - a.macroF1 ||
+    (a.totalCost ?? Infinity) - (b.totalCost ?? Infinity)
+  )
+}
+
+// Builds the leaderboard and the pairwise win/loss counts of every model
+// `predictions[i]` holds the predictions behind `results[i]`
+function buildLeaderboard(
+  results: WineAnalysisResult[],
+  predictions: WinePredictionRecord[][],
+  referenceModel: string
+): Leaderboard {
+  const pairwise: PairwiseResult[] = []
+
+  results.forEach((result, i) => {
+    results.forEach((opponent, j) => {
+      if (i === j) return
+      const { paired } = pairPredictions(predictions[i], predictions[j])
+      const wins = paired.filter(
+        (record) => record.baseCorrect && !record.comparisonCorrect
+      ).length
+      const losses = paired.filter(
+        (record) => !record.baseCorrect && record.comparisonCorrect
+      ).length
+      pairwise.push({
+        model: result.model,
+        opponent: opponent.model,
+        pairedCount: paired.length,
+        wins,
+        losses,
+        ties: paired.length - wins - losses,
+      })
+    })
+  })
+
+  const entries = results
+    .map(
+      ({
+        model,
+        totalPredictions,
+        failedPredictions,
+        accuracy,
+        lenientAccuracy,
+        metrics,
+        usageSummary,
+      }): LeaderboardEntry => {
+        const own = pairwise.filter((pair) => pair.model === model)
+        return {
+          rank: 0,
+          model,
+          isReference: model === referenceModel,
+          totalPredictions,
+          failedPredictions,
+          accuracy,
+          lenientAccuracy,
+          macroF1: metrics.macro.f1,
+          totalCost: usageSummary.totalCost,
+          costPerCorrect: usageSummary.costPerCorrect,
+          meanLatencyMs: usageSummary.meanLatencyMs,
+          wins: own.reduce((sum, pair) => sum + pair.wins, 0),
+          losses: own.reduce((sum, pair) => sum + pair.losses, 0),
+        }
+      }
+    )
+    .sort(compareEntries)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }))
+
+  return { referenceModel, entries, pairwise }
+}
+
+function logLeaderboard({ entries, pairwise }: Leaderboard) {
+  const pct = (value: number) => `${(value * 100).toFixed(2)}%`
+  const modelWidth = Math.max(
+    5,
+    ...entries.map(({ model }) => model.length + 2)
+  )
+  const formatRow = (cells: string[]) =>
+    [
+      cells[0].padEnd(3),
+      cells[1].padEnd(modelWidth),
+      ...cells.slice(2).map((cell) => cell.padStart(10)),
+    ].join(' ')
+
+  console.log('=== Leaderboard ===\n')
+  console.log(
+    formatRow([
+      '#',
+      'Model',
+      'Accuracy',
+      'Lenient',
+      'Macro F1',
+      'Cost',
+      'Latency',
+      'W/L',
+    ])
+  )
+  for (const entry of entries) {
+    console.log(
+      formatRow([
+        String(entry.rank),
+        entry.isReference ? `${entry.model} *` : entry.model,
+        pct(entry.accuracy),
+        pct(entry.lenientAccuracy),
+        entry.macroF1.toFixed(3),
+        entry.totalCost === null ? '-' : `$${entry.totalCost.toFixed(4)}`,
+        entry.meanLatencyMs === null
+          ? '-'
+          : `${entry.meanLatencyMs.toFixed(0)}ms`,
+        `${entry.wins}/${entry.losses}`,
+      ])
+    )
+  }
+  console.log('* reference model\n')
+
+  // Each pair once, from the point of view of the higher-ranked model
+  const rankOf = (model: string) =>
+    entries.find((entry) => entry.model === model)!.rank
+  console.log('Head-to-head (wins/losses/ties on shared records):')
+  for (const { model, opponent, wins, losses, ties } of pairwise) {
+    if (rankOf(model) > rankOf(opponent)) continue
+    console.log(`  ${model} vs ${opponent}: ${wins}/${losses}/${ties}`)
+  }
+  console.log()
+}
+
+// Writes the ranked leaderboard and the pairwise win/loss table
+async function saveLeaderboard(
+  { entries, pairwise }: Leaderboard,
+  outputName: string
+): Promise<{ leaderboardFile: string; pairwiseFile: string }> {
+  const leaderboardFile = `./data/leaderboard_${outputName}.csv`
+  const leaderboardWriter = createObjectCsvWriter({
+    path: leaderboardFile,
+    header: [
+      { id: 'rank', title: 'Rank' },
+      { id: 'model', title: 'Model' },
+      { id: 'isReference', title: 'Reference' },
+      { id: 'totalPredictions', title: 'Total Predictions' },
+      { id: 'failedPredictions', title: 'Failed Predictions' },
+      { id: 'accuracy', title: 'Accuracy' },
+      { id: 'lenientAccuracy', title: 'Lenient Accuracy' },
+      { id: 'macroF1', title: 'Macro F1' },
+      { id: 'totalCost', title: 'Total Cost (USD)' },
+      { id: 'costPerCorrect', title: 'Cost per Correct (USD)' },
+      { id: 'meanLatencyMs', title: 'Mean Latency (ms)' },
+      { id: 'wins', title: 'Wins' },
+      { id: 'losses', title: 'Losses' },
+    ],
+  })
+  await leaderboardWriter.writeRecords(
+    entries.map((entry) => ({
+      ...entry,
+      totalCost: entry.totalCost ?? '',
+      costPerCorrect: entry.costPerCorrect ?? '',
+      meanLatencyMs: entry.meanLatencyMs ?? '',
+    }))
+  )
+
+  const pairwiseFile = `./data/pairwise_${outputName}.csv`
+  const pairwiseWriter = createObjectCsvWriter({
+    path: pairwiseFile,
+    header: [
+      { id: 'model', title: 'Model' },
+      { id: 'opponent', title: 'Opponent' },
+      { id: 'pairedCount', title: 'Paired Records' },
+      { id: 'wins', title: 'Wins' },
+      { id: 'losses', title: 'Losses' },
+      { id: 'ties', title: 'Ties' },
+    ],
+  })
+  await pairwiseWriter.writeRecords(pairwise)
+
+  return { leaderboardFile, pairwiseFile }
+}
+
+export {
+  buildLeaderboard,
+  logLeaderboard,
+  saveLeaderboard,
+  Leaderboard,
+  LeaderboardEntry,
+  PairwiseResult,
+}
@@ -0,0 +1,181 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, describe, it } from 'node:test'
+import { zodResponseFormat } from 'openai/helpers/zod'
+import { z } from 'zod'
+import {
+  createFakeProvider,
+  createRecordingProvider,
+  createReplayProvider,
+  hashPredictionRequest,
+  PredictionRequest,
+} from './model_provider'
+
+const varieties = ['Riesling', 'Pinot Noir', 'Merlot']
+const labelFormat = zodResponseFormat(
+  z.object({ variety: z.enum(['Riesling', 'Pinot Noir', 'Merlot']) }),
+  'wine_variety'
+)
+
+function request(
+  prompt: string,
+  overrides: Partial<PredictionRequest> = {}
+): PredictionRequest {
+  return {
+    model: 'gpt-4o',
+    messages: [
+      { role: 'system', content: 'You are a sommelier.' },
+      {
+        role: 'user',
+        content: `${prompt}\nChoose one of: ${varieties.join(', ')}`,
+      },
+    ],
+    responseFormat: labelFormat,
+    ...overrides,
+  }
+}
+
+describe('createFakeProvider', () => {
+  const provider = createFakeProvider({ 'Domaine Gresser': 'Riesling' })
+
+  it('answers the label mentioned most often in the prompt', async () => {
+    const response = await provider.complete(
+      request('A Merlot blend with Pinot Noir, mostly Merlot.')
+    )
+
+    assert.deepEqual(response.parsed, { variety: 'Merlot' })
+    assert.equal(response.refusal, null)
+    assert.equal(response.content, '{"variety":"Merlot"}')
+    assert.ok(response.usage!.promptTokens > 0)
+    assert.ok(response.usage!.completionTokens > 0)
+  })
+
+  it('prefers a fixture matching a prompt fragment', async () => {
+    const response = await provider.complete(
+      request('Domaine Gresser, notes of Merlot and Merlot again')
+    )
+    assert.deepEqual(response.parsed, { variety: 'Riesling' })
+  })
+
+  it('gives the same hashed answer to the same prompt', async () => {
+    const first = await provider.complete(request('An unnamed red wine'))
+    const second = await provider.complete(request('An unnamed red wine'))
+
+    assert.ok(varieties.includes(first.parsed!.variety as string))
+    assert.deepEqual(first, second)
+  })
+
+  it('samples n answers starting with the regular one', async () => {
+    const response = await provider.complete(
+      request('Merlot from Pomerol', { n: 5, temperature: 1 })
+    )
+
+    assert.equal(response.choices?.length, 5)
+    assert.deepEqual(response.choices![0].parsed, { variety: 'Merlot' })
+    assert.deepEqual(response.parsed, { variety: 'Merlot' })
+  })
+
+  it('returns logprob tokens spelling out the content', async () => {
+    const response = await provider.complete(
+      request('Pinot Noir from Oregon', { logprobs: true })
+    )
+
+    assert.equal(
+      response.logprobs?.map(({ token }) => token).join(''),
+      response.content
+    )
+    const confidence = Math.exp(
+      response.logprobs!.reduce((sum, { logprob }) => sum + logprob, 0)
+    )
+    assert.ok(confidence > 0 && confidence < 1)
+  })
+
+  it('synthesizes answers for schemas without an enum', async () => {
+    const response = await provider.complete(
+      request('Grade this commentary', {
+        responseFormat: zodResponseFormat(
+          z.object({ score: z.number(), rationale: z.string() }),
+          'judge_score'
+        ),
+      })
+    )
+
+    assert.equal(typeof response.parsed!.score, 'number')
+    assert.match(response.parsed!.rationale as string, /^fake rationale /)
+  })
+
+  it('needs a JSON schema response format', async () => {
+    await assert.rejects(
+      provider.complete(request('Merlot', { responseFormat: undefined })),
+      /requires a JSON schema response format/
+    )
+  })
+})
+
+describe('record and replay', () => {
+  let dir: string
+  // Recordings are JSON, so unset fields are dropped
+  const asJson = (value: unknown) => JSON.parse(JSON.stringify(value))
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recordings-'))
+  })
+  after(() => fs.rmSync(dir, { recursive: true, force: true }))
+
+  it('writes each request and response to a file named by its hash', async () => {
+    const recorded = request('Riesling from the Mosel')
+    const recorder = createRecordingProvider(createFakeProvider(), dir)
+    const response = await recorder.complete(recorded)
+
+    assert.equal(recorder.name, 'record(fake)')
+    const filePath = path.join(dir, `${hashPredictionRequest(recorded)}.json`)
+    assert.deepEqual(JSON.parse(fs.readFileSync(filePath, 'utf8')), {
+      request: { model: recorded.model, messages: recorded.messages },
+      response: asJson(response),
+    })
+  })
+
+  it('replays the recorded response of the same request', async () => {
+    const recorded = request('Pinot Noir from Burgundy')
+    const response = await createRecordingProvider(
+      createFakeProvider(),
+      dir
+    ).complete(recorded)
+
+    const replay = createReplayProvider(dir)
+    assert.deepEqual(
+      await replay.complete(request('Pinot Noir from Burgundy')),
+      asJson(response)
+    )
+  })
+
+  it('fails on a request that was not recorded', async () => {
+    await assert.rejects(
+      createReplayProvider(dir).complete(request('Never recorded')),
+      /No recording found for gpt-4o request/
+    )
+  })
+
+  it('only keys sampling and logprobs settings when they are set', () => {
+    const plain = request('Merlot')
+    assert.equal(
+      hashPredictionRequest(plain),
+      hashPredictionRequest({
+        ...plain,
+        temperature: undefined,
+        store: true,
+        metadata: { purpose: 'distillation' },
+      })
+    )
+    assert.notEqual(
+      hashPredictionRequest(plain),
+      hashPredictionRequest({ ...plain, temperature: 0.7 })
+    )
+    assert.notEqual(
+      hashPredictionRequest(plain),
+      hashPredictionRequest({ ...plain, logprobs: true })
+    )
+  })
+})
@@ -0,0 +1,508 @@
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import { fileURLToPath } from 'url'
+import OpenAI from 'openai'
+import dotenv from 'dotenv'
+import { TokenUsage } from './pricing'
+import { estimateMessageTokens, estimateTokens } from './tokens'
+import {
+  classifyError,
+  createRateLimiter,
+  parseRateLimitHeaders,
+  RateLimiter,
+  RateLimitSnapshot,
+} from './rate_limiter'
+
+// Configure dotenv to read from .env file
+dotenv.config({
+  path: path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../.env'),
+})
+
+// A single structured-output request, independent of the backing API
+interface PredictionRequest {
+  model: string
+  messages: OpenAI.ChatCompletionMessageParam[]
+  responseFormat: any
+  store?: boolean
+  metadata?: Record<string, string>
+  temperature?: number // Sampling temperature; the API default when unset
+  n?: number // Completions to sample (self-consistency); 1 when unset
+  logprobs?: boolean // Return the log probability of every output token
+}
+
+// Log probability of one output token
+interface TokenLogprob {
+  token: string
+  logprob: number
+}
+
+// One sampled completion of a request
+interface PredictionChoice {
+  parsed: Record<string, unknown> | null
+  refusal: string | null
+  content?: string | null
+  logprobs?: TokenLogprob[] | null // Output tokens, when requested
+}
+
+// The parsed answer (or refusal) returned by a provider
+interface PredictionResponse {
+  parsed: Record<string, unknown> | null
+  refusal: string | null
+  content?: string | null // Raw message content, before parsing
+  logprobs?: TokenLogprob[] | null // Output tokens, when requested
+  choices?: PredictionChoice[] // Every sampled completion when n > 1; the first is repeated above
+  usage?: TokenUsage // Covers all sampled completions
+  fromCache?: boolean // Served from the local response cache (no API cost)
+  rateLimit?: RateLimitSnapshot // From the x-ratelimit-* response headers
+}
+
+// Everything getPrediction needs from a model backend
+interface ModelProvider {
+  name: string
+  complete(request: PredictionRequest): Promise<PredictionResponse>
+}
+
+type ModelProviderKind = 'openai' | 'fake' | 'record' | 'replay'
+
+// Default directory for record/replay fixtures
+const recordingsDir = './data/recordings'
+
+// Creates an OpenAI client from the environment
+// OPENAI_BASE_URL points it at any OpenAI-compatible server, such as the local stub
+function createOpenAIClient(options: { maxRetries?: number } = {}): OpenAI {
+  return new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY, // Will use environment variable if present, otherwise .env file
+    baseURL: process.env.OPENAI_BASE_URL || undefined,
+    ...options,
+  })
+}
+
+// Provider backed by the OpenAI structured outputs API
+// The client is created on first use so that importing the pipeline never requires an API key.
+// SDK retries are disabled: getPrediction retries through the rate limiter instead.
+function createOpenAIProvider(client?: OpenAI): ModelProvider {
+  let openai = client
+
+  return {
+    name: 'openai',
+    async complete({
+      model,
+      messages,
+      responseFormat,
+      store,
+      metadata,
+      temperature,
+      n,
+      logprobs,
+    }) {
+      openai ??= createOpenAIClient({ maxRetries: 0 })
+
+      const { data: completion, response } = await openai.beta.chat.completions
+        .parse({
+          model,
+          messages,
+          response_format: responseFormat,
+          store,
+          metadata,
+          temperature,
+          n,
+          logprobs,
+        })
+        .withResponse()
+      const choices = completion.choices.map((choice) => ({
+        parsed:
+          (choice.message.parsed as Record<string, unknown> | null) ?? null,
+        refusal: choice.message.refusal ?? null,
+        content: choice.message.content ?? null,
+        logprobs: logprobs
+          ? (choice.logprobs?.content?.map(({ token, logprob }) => ({
+              token,
+              logprob,
+            })) ?? null)
+          : undefined,
+      }))
+
+      return {
+        ...choices[0],
+        choices: n && n > 1 ? choices : undefined,
+        usage: completion.usage && {
+          promptTokens: completion.usage.prompt_tokens,
+          completionTokens: completion.usage.completion_tokens,
+          cachedTokens:
+            completion.usage.prompt_tokens_details?.cached_tokens ?? 0,
+        },
+        rateLimit: parseRateLimitHeaders((name) => response.headers.get(name)),
+      }
+    },
+  }
+}
+
+// Wraps a provider with one adaptive rate limiter per model
+// 429 responses shrink concurrency and pause the model's queue before the
+// error is rethrown, so callers can simply retry
+function withRateLimit(inner: ModelProvider): ModelProvider {
+  const limiters = new Map<string, RateLimiter>()
+  const getLimiter = (model: string) => {
+    if (!limiters.has(model)) limiters.set(model, createRateLimiter(model))
+    return limiters.get(model)!
+  }
+
+  return {
+    name: inner.name,
+    async complete(request) {
+      const limiter = getLimiter(request.model)
+      // Prompt plus a small allowance for the structured answer
+      const estimatedTokens =
+        estimateMessageTokens(request.messages) + 50 * (request.n ?? 1)
+
+      try {
+        const response = await limiter.run(estimatedTokens, () =>
+          inner.complete(request)
+        )
+        limiter.recordSuccess(response.rateLimit)
+        return response
+      } catch (error) {
+        const failure = classifyError(error)
+        if (failure.kind === 'rate_limit') {
+          limiter.recordRateLimited(failure.retryAfterMs)
+        }
+        throw error
+      }
+    },
+  }
+}
+
+// Finds the enum-constrained property of a zodResponseFormat schema
+// This is the label field the model is asked to fill in (e.g. `variety`)
+function getEnumProperty(
+  responseFormat: any
+): { key: string; values: string[] } | null {
+  const properties = responseFormat?.json_schema?.schema?.properties ?? {}
+
+  for (const [key, property] of Object.entries<any>(properties)) {
+    if (Array.isArray(property?.enum) && property.enum.length > 0) {
+      return { key, values: property.enum }
+    }
+  }
+  return null
+}
+
+function getUserContent(messages: OpenAI.ChatCompletionMessageParam[]) {
+  return messages
+    .filter((message) => message.role === 'user')
+    .map((message) =>
+      typeof message.content === 'string'
+        ? message.content
+        : JSON.stringify(message.content)
+    )
+    .join('\n')
+}
+
+function countOccurrences(text: string, fragment: string): number {
+  let count = 0
+  let index = text.indexOf(fragment)
+  while (index !== -1) {
+    count++
+    index = text.indexOf(fragment, index + fragment.length)
+  }
+  return count
+}
+
+// Fills every property of a response schema without an enum with a stable
+// value derived from the prompt: text for strings, 0-1 for numbers
+function synthesizeAnswer(
+  responseFormat: any,
+  prompt: string
+): Record<string, unknown> {
+  const properties = responseFormat?.json_schema?.schema?.properties
+  if (!properties) {
+    throw new Error('Fake provider requires a JSON schema response format')
+  }
+
+  const digest = crypto.createHash('sha256').update(prompt).digest()
+  return Object.fromEntries(
+    Object.entries<any>(properties).map(([key, property], i) => {
+      const seed = digest.readUInt16BE((i * 2) % (digest.length - 1))
+      if (property?.type === 'number' || property?.type === 'integer') {
+        return [key, Math.round((seed / 0xffff) * 10) / 10]
+      }
+      if (property?.type === 'boolean') return [key, seed % 2 === 0]
+      return [key, `fake ${key} ${digest.toString('hex').slice(0, 8)}`]
+    })
+  )
+}
+
+// Label of an extra sample (n > 1): the first answer, or at a rate growing
+// with the temperature a label picked by a stable hash of the prompt and
+// sample index, so self-consistency runs see some disagreement offline
+function sampleFakeLabel(
+  values: string[],
+  firstLabel: string,
+  prompt: string,
+  index: number,
+  temperature = 1
+): string {
+  const digest = crypto
+    .createHash('sha256')
+    .update(`${index}:${prompt}`)
+    .digest()
+  const deviates =
+    digest.readUInt16BE(0) / 0xffff < Math.min(1, temperature / 2)
+  return deviates ? values[digest.readUInt32BE(2) % values.length] : firstLabel
+}
+
+// Output tokens of a fake `{"key":"label"}` answer, about four characters
+// each. The label's first token carries the whole confidence; the JSON
+// around it is certain
+function fakeLogprobs(
+  key: string,
+  label: string,
+  confidence: number
+): TokenLogprob[] {
+  const value = JSON.stringify(label).slice(1, -1)
+  return [
+    { token: `{${JSON.stringify(key)}:"`, logprob: 0 },
+    ...(value.match(/.{1,4}/gsu) ?? []).map((token, i) => ({
+      token,
+      logprob: i === 0 ? Math.log(confidence) : 0,
+    })),
+    { token: '"}', logprob: 0 },
+  ]
+}
+
+// Deterministic offline provider for CI and local iteration
+// Fixtures map a prompt fragment (e.g. a winery name) to the label to answer.
+// Without a matching fixture it picks the allowed label mentioned most often in
+// the prompt outside the list of choices, falling back to a stable hash of the prompt.
+// Schemas without an enum (free-text answers, judge scores) get synthesized values.
+// Extra samples (n > 1) may deviate from that answer, see sampleFakeLabel.
+// With logprobs, the confidence follows how the label was found: high for
+// fixtures, growing with the mentions in the prompt, low for hashed guesses.
+function createFakeProvider(
+  fixtures: Record<string, string> = {}
+): ModelProvider {
+  return {
+    name: 'fake',
+    async complete({ messages, responseFormat, temperature, n = 1, logprobs }) {
+      const prompt = getUserContent(messages)
+      const enumProperty = getEnumProperty(responseFormat)
+      if (!enumProperty) {
+        const parsed = synthesizeAnswer(responseFormat, prompt)
+        return {
+          parsed,
+          refusal: null,
+          content: JSON.stringify(parsed),
+          usage: {
+            promptTokens: estimateMessageTokens(messages),
+            completionTokens: estimateTokens(JSON.stringify(parsed)),
+            cachedTokens: 0,
+          },
+        }
+      }
+
+      const { key, values } = enumProperty
+      // Spreads the confidence of similar answers
+      const jitter =
+        crypto.createHash('sha256').update(prompt).digest().readUInt16BE(4) /
+        0xffff
+
+      // Estimated usage so cost reporting can be exercised offline
+      const answer = (
+        label: string,
+        confidence: number
+      ): PredictionResponse => {
+        const choices = Array.from({ length: n }, (_, i) => {
+          const sampled =
+            i === 0
+              ? label
+              : sampleFakeLabel(values, label, prompt, i, temperature)
+          return {
+            parsed: { [key]: sampled },
+            refusal: null,
+            content: JSON.stringify({ [key]: sampled }),
+            logprobs: logprobs
+              ? fakeLogprobs(
+                  key,
+                  sampled,
+                  sampled === label ? confidence : 0.05 + 0.2 * jitter
+                )
+              : undefined,
+          }
+        })
+        return {
+          ...choices[0],
+          choices: n > 1 ? choices : undefined,
+          usage: {
+            promptTokens: estimateMessageTokens(messages),
+            completionTokens: choices.reduce(
+              (sum, { content }) => sum + estimateTokens(content),
+              0
+            ),
+            cachedTokens: 0,
+          },
+        }
+      }
+
+      const fixture = Object.entries(fixtures).find(([fragment]) =>
+        prompt.includes(fragment)
+      )
+      if (fixture) {
+        return answer(fixture[1], 0.9 + 0.09 * jitter)
+      }
+
+      const text = prompt.replace(values.join(', '), '').toLowerCase()
+      let bestLabel: string | null = null
+      let bestCount = 0
+      for (const label of values) {
+        const count = countOccurrences(text, label.toLowerCase())
+        if (
+          count > bestCount ||
+          (count > 0 &&
+            count === bestCount &&
+            bestLabel &&
+            label.length > bestLabel.length)
+        ) {
+          bestLabel = label
+          bestCount = count
+        }
+      }
+
+      if (!bestLabel) {
+        const digest = crypto.createHash('sha256').update(prompt).digest()
+        return answer(
+          values[digest.readUInt32BE(0) % values.length],
+          0.05 + 0.3 * jitter
+        )
+      }
+
+      return answer(
+        bestLabel,
+        Math.min(0.97, 0.4 + 0.15 * bestCount + 0.3 * jitter)
+      )
+    },
+  }
+}
+
+// Loads fake provider fixtures from a JSON file of { "prompt fragment": "label" }
+function loadFakeFixtures(filePath?: string): Record<string, string> {
+  if (!filePath) return {}
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Fake provider fixtures not found: ${filePath}`)
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'))
+}
+
+// Stable content hash of a request, used to name recorded fixtures
+// Sampling and logprobs settings only count when set, so older recordings still match
+function hashPredictionRequest({
+  model,
+  messages,
+  responseFormat,
+  temperature,
+  n,
+  logprobs,
+}: PredictionRequest): string {
+  return crypto
+    .createHash('sha256')
+    .update(
+      JSON.stringify({
+        model,
+        messages,
+        responseFormat,
+        temperature,
+        n,
+        logprobs,
+      })
+    )
+    .digest('hex')
+}
+
+// Wraps another provider and writes every request/response pair to disk
+function createRecordingProvider(
+  inner: ModelProvider,
+  dir: string = recordingsDir
+): ModelProvider {
+  return {
+    name: `record(${inner.name})`,
+    async complete(request) {
+      const response = await inner.complete(request)
+
+      await fs.promises.mkdir(dir, { recursive: true })
+      await fs.promises.writeFile(
+        path.join(dir, `${hashPredictionRequest(request)}.json`),
+        JSON.stringify(
+          {
+            request: { model: request.model, messages: request.messages },
+            response,
+          },
+          null,
+          2
+        )
+      )
+      return response
+    },
+  }
+}
+
+// Answers requests from fixtures written by the recording provider
+// Fails loudly on unknown requests so prompt changes are noticed
+function createReplayProvider(dir: string = recordingsDir): ModelProvider {
+  return {
+    name: 'replay',
+    async complete(request) {
+      const filePath = path.join(dir, `${hashPredictionRequest(request)}.json`)
+
+      if (!fs.existsSync(filePath)) {
+        throw new Error(
+          `No recording found for ${request.model} request (${filePath})`
+        )
+      }
+
+      const recording = JSON.parse(await fs.promises.readFile(filePath, 'utf8'))
+      return recording.response as PredictionResponse
+    },
+  }
+}
+
+// Builds the provider selected by the MODEL_PROVIDER environment variable
+// (openai, fake, record or replay). Recordings live in RECORDINGS_DIR and
+// fake provider fixtures are read from FAKE_PROVIDER_FIXTURES.
+function createModelProvider(
+  kind: string = process.env.MODEL_PROVIDER || 'openai'
+): ModelProvider {
+  const dir = process.env.RECORDINGS_DIR || recordingsDir
+
+  switch (kind as ModelProviderKind) {
+    case 'openai':
+      return withRateLimit(createOpenAIProvider())
+    case 'fake':
+      return createFakeProvider(
+        loadFakeFixtures(process.env.FAKE_PROVIDER_FIXTURES)
+      )
+    case 'record':
+      return createRecordingProvider(withRateLimit(createOpenAIProvider()), dir)
+    case 'replay':
+      return createReplayProvider(dir)
+    default:
+      throw new Error(
+        `Unknown model provider "${kind}" (expected openai, fake, record or replay)`
+      )
+  }
+}
+
+export {
+  createModelProvider,
+  createOpenAIClient,
+  createOpenAIProvider,
+  createFakeProvider,
+  withRateLimit,
+  createRecordingProvider,
+  createReplayProvider,
+  hashPredictionRequest,
+  ModelProvider,
+  PredictionRequest,
+  PredictionResponse,
+  PredictionChoice,
+  TokenLogprob,
+}
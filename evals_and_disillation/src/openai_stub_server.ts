@@ -0,0 +1,444 @@
+import http from 'http'
+import { pathToFileURL } from 'url'
+import { createFakeProvider } from './model_provider'
+import { estimateMessageTokens } from './tokens'
+
+// Minimal OpenAI-compatible server for running the pipeline offline
+// Supports chat completions (answered by the fake provider), file uploads,
+// and fine-tuning jobs and Batch API batches that move through their statuses
+// on each poll. A batch answers its requests when it completes.
+// Point the SDK at it with OPENAI_BASE_URL=http://localhost:<port>/v1
+// Set STUB_RATE_LIMIT_EVERY=n to answer every nth chat completion with a 429
+// (batched requests included).
+
+interface StoredFile {
+  id: string
+  filename: string
+  purpose: string
+  content: string
+  created_at: number
+}
+
+interface StubFineTuningJob {
+  id: string
+  object: 'fine_tuning.job'
+  model: string
+  training_file: string
+  validation_file: string | null
+  status: 'validating_files' | 'queued' | 'running' | 'succeeded' | 'failed'
+  fine_tuned_model: string | null
+  created_at: number
+  finished_at: number | null
+  error: null
+  hyperparameters: { n_epochs: 'auto' }
+  organization_id: string
+  result_files: string[]
+  seed: number
+  trained_tokens: number | null
+}
+
+interface StubBatch {
+  id: string
+  object: 'batch'
+  endpoint: string
+  input_file_id: string
+  completion_window: string
+  status: 'validating' | 'in_progress' | 'finalizing' | 'completed'
+  output_file_id: string | null
+  error_file_id: string | null
+  created_at: number
+  completed_at: number | null
+  errors: null
+  request_counts: { total: number; completed: number; failed: number }
+  metadata: Record<string, string> | null
+}
+
+// Order in which a stub fine-tuning job advances, one step per retrieve
+const jobStatuses: StubFineTuningJob['status'][] = [
+  'validating_files',
+  'queued',
+  'running',
+  'succeeded',
+]
+
+// Order in which a stub batch advances, one step per retrieve
+const batchStatuses: StubBatch['status'][] = [
+  'validating',
+  'in_progress',
+  'finalizing',
+  'completed',
+]
+
+const rateLimitError = {
+  error: {
+    message: 'Rate limit reached (stub)',
+    type: 'requests',
+    code: 'rate_limit_exceeded',
+  },
+}
+
+const fakeProvider = createFakeProvider()
+
+function now(): number {
+  return Math.floor(Date.now() / 1000)
+}
+
+function sendJson(
+  response: http.ServerResponse,
+  status: number,
+  body: any,
+  headers: Record<string, string> = {}
+) {
+  response.writeHead(status, { 'content-type': 'application/json', ...headers })
+  response.end(JSON.stringify(body))
+}
+
+function sendError(
+  response: http.ServerResponse,
+  status: number,
+  message: string
+) {
+  sendJson(response, status, {
+    error: { message, type: 'invalid_request_error', code: null },
+  })
+}
+
+async function readBody(request: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of request) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks)
+}
+
+// Extracts form fields and the uploaded file from a multipart body
+function parseMultipart(
+  body: Buffer,
+  contentType: string
+): { fields: Record<string, string>; filename: string; content: string } {
+  const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/)
+  if (!boundary) throw new Error('Missing multipart boundary')
+
+  const fields: Record<string, string> = {}
+  let filename = 'upload.jsonl'
+  let content = ''
+
+  const parts = body
+    .toString('utf8')
+    .split(`--${boundary[1] ?? boundary[2]}`)
+    .slice(1, -1)
+
+  for (const part of parts) {
+    const separator = part.indexOf('\r\n\r\n')
+    const headers = part.slice(0, separator)
+    const value = part.slice(separator + 4).replace(/\r\n$/, '')
+    const name = headers.match(/name="([^"]+)"/)?.[1]
+    const file = headers.match(/filename="([^"]*)"/)?.[1]
+
+    if (file !== undefined) {
+      filename = file
+      content = value
+    } else if (name) {
+      fields[name] = value
+    }
+  }
+  return { fields, filename, content }
+}
+
+// Creates the stub server (call listen() on the result)
+function createStubServer(): http.Server {
+  const files = new Map<string, StoredFile>()
+  const jobs = new Map<string, StubFineTuningJob>()
+  const batches = new Map<string, StubBatch>()
+  const rateLimitEvery = parseInt(process.env.STUB_RATE_LIMIT_EVERY ?? '') || 0
+  let chatRequests = 0
+  let counter = 0
+  const nextId = (prefix: string) => `${prefix}-stub-${++counter}`
+
+  // Counts a chat completion request and says whether it gets a 429
+  const isRateLimited = () => {
+    chatRequests++
+    return rateLimitEvery > 0 && chatRequests % rateLimitEvery === 0
+  }
+
+  const storeFile = (filename: string, purpose: string, content: string) => {
+    const file: StoredFile = {
+      id: nextId('file'),
+      filename,
+      purpose,
+      content,
+      created_at: now(),
+    }
+    files.set(file.id, file)
+    return file
+  }
+
+  // Answers a chat completion request body with the fake provider
+  const createChatCompletion = async (params: any) => {
+    const response = await fakeProvider.complete({
+      model: params.model,
+      messages: params.messages,
+      responseFormat: params.response_format,
+      temperature: params.temperature,
+      n: params.n,
+      logprobs: params.logprobs,
+    })
+    const choices = response.choices ?? [response]
+    const contents = choices.map(({ parsed }) => JSON.stringify(parsed))
+    const promptTokens = estimateMessageTokens(params.messages)
+    const completionTokens = contents.reduce(
+      (sum, content) => sum + Math.ceil(content.length / 4),
+      0
+    )
+
+    return {
+      id: nextId('chatcmpl'),
+      object: 'chat.completion',
+      created: now(),
+      model: params.model,
+      choices: contents.map((content, index) => ({
+        index,
+        message: { role: 'assistant', content, refusal: null },
+        logprobs: choices[index].logprobs
+          ? {
+              content: choices[index].logprobs!.map(({ token, logprob }) => ({
+                token,
+                logprob,
+                bytes: [...Buffer.from(token)],
+                top_logprobs: [],
+              })),
+              refusal: null,
+            }
+          : null,
+        finish_reason: 'stop',
+      })),
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    }
+  }
+
+  // Runs every request of a batch's input file and stores the output file
+  // (200 responses) and error file (everything else)
+  const completeBatch = async (batch: StubBatch) => {
+    const requests = files
+      .get(batch.input_file_id)!
+      .content.split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line))
+    const output: string[] = []
+    const errors: string[] = []
+
+    for (const { custom_id, body } of requests) {
+      const limited = isRateLimited()
+      const line = JSON.stringify({
+        id: nextId('batch_req'),
+        custom_id,
+        response: {
+          status_code: limited ? 429 : 200,
+          request_id: nextId('req'),
+          body: limited ? rateLimitError : await createChatCompletion(body),
+        },
+        error: null,
+      })
+      if (limited) errors.push(line)
+      else output.push(line)
+    }
+
+    const outputFile = storeFile(
+      `${batch.id}_output.jsonl`,
+      'batch_output',
+      output.map((line) => line + '\n').join('')
+    )
+    batch.output_file_id = outputFile.id
+    if (errors.length) {
+      batch.error_file_id = storeFile(
+        `${batch.id}_error.jsonl`,
+        'batch_output',
+        errors.map((line) => line + '\n').join('')
+      ).id
+    }
+    batch.request_counts = {
+      total: requests.length,
+      completed: output.length,
+      failed: errors.length,
+    }
+    batch.completed_at = now()
+  }
+
+  return http.createServer(async (request, response) => {
+    try {
+      const url = new URL(request.url ?? '/', 'http://localhost')
+      const route = `${request.method} ${url.pathname.replace(/^\/v1/, '')}`
+      const body = await readBody(request)
+
+      if (route === 'POST /chat/completions') {
+        if (isRateLimited()) {
+          return sendJson(response, 429, rateLimitError, {
+            'retry-after-ms': '500',
+          })
+        }
+
+        const completion = await createChatCompletion(
+          JSON.parse(body.toString('utf8'))
+        )
+        const promptTokens = completion.usage.prompt_tokens
+
+        return sendJson(response, 200, completion, {
+          'x-ratelimit-limit-requests': '10000',
+          'x-ratelimit-limit-tokens': '2000000',
+          'x-ratelimit-remaining-requests': '9999',
+          'x-ratelimit-remaining-tokens': String(2000000 - promptTokens),
+          'x-ratelimit-reset-requests': '6ms',
+          'x-ratelimit-reset-tokens': '0s',
+        })
+      }
+
+      if (route === 'POST /files') {
+        const { fields, filename, content } = parseMultipart(
+          body,
+          request.headers['content-type'] ?? ''
+        )
+        const file = storeFile(filename, fields.purpose ?? 'fine-tune', content)
+
+        return sendJson(response, 200, {
+          id: file.id,
+          object: 'file',
+          bytes: Buffer.byteLength(content),
+          created_at: file.created_at,
+          filename: file.filename,
+          purpose: file.purpose,
+          status: 'processed',
+        })
+      }
+
+      const fileContent = url.pathname.match(/^\/v1\/files\/([^/]+)\/content$/)
+      if (request.method === 'GET' && fileContent) {
+        const file = files.get(fileContent[1])
+        if (!file) return sendError(response, 404, 'File not found')
+        response.writeHead(200, { 'content-type': 'application/octet-stream' })
+        return response.end(file.content)
+      }
+
+      if (route === 'POST /fine_tuning/jobs') {
+        const params = JSON.parse(body.toString('utf8'))
+        if (!files.has(params.training_file)) {
+          return sendError(
+            response,
+            400,
+            `Invalid training_file: ${params.training_file}`
+          )
+        }
+
+        const job: StubFineTuningJob = {
+          id: nextId('ftjob'),
+          object: 'fine_tuning.job',
+          model: params.model,
+          training_file: params.training_file,
+          validation_file: params.validation_file ?? null,
+          status: 'validating_files',
+          fine_tuned_model: null,
+          created_at: now(),
+          finished_at: null,
+          error: null,
+          hyperparameters: { n_epochs: 'auto' },
+          organization_id: 'org-stub',
+          result_files: [],
+          seed: 0,
+          trained_tokens: null,
+        }
+        jobs.set(job.id, job)
+        return sendJson(response, 200, job)
+      }
+
+      const jobMatch = url.pathname.match(/^\/v1\/fine_tuning\/jobs\/([^/]+)$/)
+      if (request.method === 'GET' && jobMatch) {
+        const job = jobs.get(jobMatch[1])
+        if (!job) return sendError(response, 404, 'Job not found')
+
+        const next = jobStatuses[jobStatuses.indexOf(job.status) + 1]
+        if (next) {
+          job.status = next
+          if (next === 'succeeded') {
+            const suffix = job.id.replace('ftjob-', '')
+            job.fine_tuned_model = `ft:${job.model}:stub::${suffix}`
+            job.finished_at = now()
+            job.trained_tokens = 0
+          }
+        }
+        return sendJson(response, 200, job)
+      }
+
+      if (route === 'POST /batches') {
+        const params = JSON.parse(body.toString('utf8'))
+        if (!files.has(params.input_file_id)) {
+          return sendError(
+            response,
+            400,
+            `Invalid input_file_id: ${params.input_file_id}`
+          )
+        }
+
+        const batch: StubBatch = {
+          id: nextId('batch'),
+          object: 'batch',
+          endpoint: params.endpoint,
+          input_file_id: params.input_file_id,
+          completion_window: params.completion_window,
+          status: 'validating',
+          output_file_id: null,
+          error_file_id: null,
+          created_at: now(),
+          completed_at: null,
+          errors: null,
+          request_counts: { total: 0, completed: 0, failed: 0 },
+          metadata: params.metadata ?? null,
+        }
+        batches.set(batch.id, batch)
+        return sendJson(response, 200, batch)
+      }
+
+      const batchMatch = url.pathname.match(/^\/v1\/batches\/([^/]+)$/)
+      if (request.method === 'GET' && batchMatch) {
+        const batch = batches.get(batchMatch[1])
+        if (!batch) return sendError(response, 404, 'Batch not found')
+
+        const next = batchStatuses[batchStatuses.indexOf(batch.status) + 1]
+        if (next) {
+          if (next === 'completed') await completeBatch(batch)
+          batch.status = next
+        }
+        return sendJson(response, 200, batch)
+      }
+
+      sendError(response, 404, `Unknown route ${route}`)
+    } catch (error) {
+      sendError(
+        response,
+        500,
+        error instanceof Error ? error.message : String(error)
+      )
+    }
+  })
+}
+
+// Starts the stub server and resolves once it is listening
+async function startStubServer(port = 4010): Promise<http.Server> {
+  const server = createStubServer()
+  await new Promise<void>((resolve) => server.listen(port, resolve))
+  return server
+}
+
+// CLI handler
+// Usage: tsx src/openai_stub_server.ts [port]
+if (
+  process.argv[1] &&
+  import.meta.url === pathToFileURL(process.argv[1]).href
+) {
+  const port = parseInt(process.argv[2]) || 4010
+  startStubServer(port).then(() => {
+    console.log(`OpenAI stub server listening on http://localhost:${port}/v1`)
+  })
+}
+
+export { createStubServer, startStubServer }
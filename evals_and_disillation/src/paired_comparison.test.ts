@@ -0,0 +1,162 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  comparePairedPredictions,
+  mcNemarExactPValue,
+  pairPredictions,
+} from './paired_comparison'
+
+// Predictions of one model over records 0..n-1, right where `correct` says so
+function predictions(correct: boolean[]) {
+  return correct.map((isCorrect, recordId) => ({
+    recordId,
+    prediction: isCorrect ? 'Riesling' : 'Merlot',
+    actual_variety: 'Riesling',
+    winery: `Winery ${recordId}`,
+  }))
+}
+
+// The p-value is computed in log space, so it is exact up to rounding
+function assertClose(actual: number, expected: number) {
+  assert.ok(
+    Math.abs(actual - expected) < 1e-12,
+    `expected ${actual} to be close to ${expected}`
+  )
+}
+
+describe('mcNemarExactPValue', () => {
+  it('is 1 without discordant pairs', () => {
+    assert.equal(mcNemarExactPValue(0, 0), 1)
+  })
+
+  it('matches the exact binomial p-value', () => {
+    // 2 * P(X <= 1) for X ~ Binomial(10, 0.5) = 2 * 11 / 1024
+    assertClose(mcNemarExactPValue(1, 9), 22 / 1024)
+    assertClose(mcNemarExactPValue(9, 1), 22 / 1024)
+    // 2 * P(X = 0) for X ~ Binomial(6, 0.5)
+    assertClose(mcNemarExactPValue(0, 6), 2 / 64)
+  })
+
+  it('is capped at 1 for ties', () => {
+    assert.equal(mcNemarExactPValue(5, 5), 1)
+    assert.equal(mcNemarExactPValue(1, 1), 1)
+  })
+
+  it('stays finite for large runs', () => {
+    const pValue = mcNemarExactPValue(400, 600)
+    assert.ok(pValue > 0 && pValue < 1e-9)
+  })
+})
+
+describe('pairPredictions', () => {
+  it('keeps only records both models predicted', () => {
+    const base = predictions([true, false, true])
+    const comparison = predictions([true, true]).map((prediction) => ({
+      ...prediction,
+      recordId: String(prediction.recordId + 1),
+    }))
+
+    const { paired, baseOnlyRecords, comparisonOnlyRecords } = pairPredictions(
+      base,
+      comparison
+    )
+
+    assert.deepEqual(
+      paired.map(({ recordId }) => recordId),
+      ['1', '2']
+    )
+    assert.equal(baseOnlyRecords, 1)
+    assert.equal(comparisonOnlyRecords, 0)
+  })
+})
+
+describe('comparePairedPredictions', () => {
+  const base = predictions([
+    true,
+    false,
+    true,
+    false,
+    false,
+    true,
+    false,
+    true,
+    false,
+    false,
+    true,
+    false,
+    true,
+    true,
+    false,
+    false,
+    true,
+    false,
+    true,
+    false,
+  ])
+  const comparison = predictions([
+    true,
+    true,
+    true,
+    false,
+    true,
+    true,
+    true,
+    true,
+    false,
+    true,
+    true,
+    false,
+    true,
+    true,
+    true,
+    false,
+    true,
+    true,
+    false,
+    true,
+  ])
+
+  it('counts the contingency table and accuracies', () => {
+    const result = comparePairedPredictions(base, comparison)
+
+    assert.deepEqual(result.contingency, {
+      bothCorrect: 8,
+      baseOnlyCorrect: 1,
+      comparisonOnlyCorrect: 7,
+      bothWrong: 4,
+    })
+    assert.equal(result.baseAccuracy, 9 / 20)
+    assert.equal(result.comparisonAccuracy, 15 / 20)
+    assert.equal(result.mcNemarPValue, mcNemarExactPValue(1, 7))
+    assert.equal(result.disagreements.length, 8)
+  })
+
+  it('gives the same bootstrap interval for the same seed', () => {
+    const first = comparePairedPredictions(base, comparison, { seed: 7 })
+    const second = comparePairedPredictions(base, comparison, { seed: 7 })
+    assert.deepEqual(first.bootstrapInterval, second.bootstrapInterval)
+  })
+
+  it('puts the point estimate inside the bootstrap interval', () => {
+    for (const seed of [1, 42, 1234]) {
+      const { accuracyDifference, bootstrapInterval } =
+        comparePairedPredictions(base, comparison, {
+          seed,
+          confidence: 0.9,
+        })
+      assert.ok(bootstrapInterval.lower <= accuracyDifference)
+      assert.ok(accuracyDifference <= bootstrapInterval.upper)
+      assert.equal(bootstrapInterval.confidence, 0.9)
+    }
+  })
+
+  it('returns an empty interval when no record is shared', () => {
+    const result = comparePairedPredictions(base, [])
+    assert.equal(result.pairedCount, 0)
+    assert.deepEqual(result.bootstrapInterval, {
+      lower: 0,
+      upper: 0,
+      confidence: 0.95,
+    })
+  })
+})
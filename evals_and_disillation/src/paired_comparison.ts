@@ -0,0 +1,210 @@
+import { createSeededRandom } from './random'
+
+// Minimal shape needed to pair two models' predictions
+interface PairablePrediction {
+  recordId: number | string
+  prediction: string
+  actual_variety: string
+  winery: string
+}
+
+// One record predicted by both models
+interface PairedRecord {
+  recordId: string
+  winery: string
+  actual: string
+  basePrediction: string
+  comparisonPrediction: string
+  baseCorrect: boolean
+  comparisonCorrect: boolean
+}
+
+// 2x2 agreement table of correctness between the two models
+interface ContingencyTable {
+  bothCorrect: number
+  baseOnlyCorrect: number
+  comparisonOnlyCorrect: number
+  bothWrong: number
+}
+
+interface PairedComparisonResult {
+  pairedCount: number
+  baseOnlyRecords: number // Records predicted only by the base model
+  comparisonOnlyRecords: number // Records predicted only by the comparison model
+  baseAccuracy: number
+  comparisonAccuracy: number
+  accuracyDifference: number // comparison - base
+  contingency: ContingencyTable
+  mcNemarPValue: number
+  bootstrapInterval: { lower: number; upper: number; confidence: number }
+  disagreements: PairedRecord[] // Records where exactly one model is right
+}
+
+interface PairedComparisonOptions {
+  bootstrapSamples?: number
+  confidence?: number
+  seed?: number
+}
+
+// Joins both prediction sets on recordId, keeping only records present in both
+function pairPredictions(
+  basePredictions: PairablePrediction[],
+  comparisonPredictions: PairablePrediction[]
+): {
+  paired: PairedRecord[]
+  baseOnlyRecords: number
+  comparisonOnlyRecords: number
+} {
+  const comparisonById = new Map(
+    comparisonPredictions.map((prediction) => [
+      String(prediction.recordId),
+      prediction,
+    ])
+  )
+  const paired: PairedRecord[] = []
+
+  for (const base of basePredictions) {
+    const comparison = comparisonById.get(String(base.recordId))
+    if (!comparison) continue
+
+    paired.push({
+      recordId: String(base.recordId),
+      winery: base.winery,
+      actual: base.actual_variety,
+      basePrediction: base.prediction,
+      comparisonPrediction: comparison.prediction,
+      baseCorrect: base.prediction === base.actual_variety,
+      comparisonCorrect: comparison.prediction === comparison.actual_variety,
+    })
+  }
+
+  return {
+    paired,
+    baseOnlyRecords: basePredictions.length - paired.length,
+    comparisonOnlyRecords: comparisonPredictions.length - paired.length,
+  }
+}
+
+function buildContingencyTable(paired: PairedRecord[]): ContingencyTable {
+  const table: ContingencyTable = {
+    bothCorrect: 0,
+    baseOnlyCorrect: 0,
+    comparisonOnlyCorrect: 0,
+    bothWrong: 0,
+  }
+
+  for (const { baseCorrect, comparisonCorrect } of paired) {
+    if (baseCorrect && comparisonCorrect) table.bothCorrect++
+    else if (baseCorrect) table.baseOnlyCorrect++
+    else if (comparisonCorrect) table.comparisonOnlyCorrect++
+    else table.bothWrong++
+  }
+  return table
+}
+
+// Exact (binomial) two-sided McNemar test on the discordant pairs
+// Computed in log space so large runs do not underflow
+function mcNemarExactPValue(baseOnly: number, comparisonOnly: number): number {
+  const n = baseOnly + comparisonOnly
+  if (n === 0) return 1
+
+  const k = Math.min(baseOnly, comparisonOnly)
+  let logCombination = 0 // log C(n, 0)
+  let tail = 0
+
+  for (let i = 0; i <= k; i++) {
+    tail += Math.exp(logCombination - n * Math.LN2)
+    logCombination += Math.log(n - i) - Math.log(i + 1)
+  }
+  return Math.min(1, 2 * tail)
+}
+
+// Percentile bootstrap interval for the paired accuracy difference
+function bootstrapAccuracyDifference(
+  paired: PairedRecord[],
+  samples: number,
+  confidence: number,
+  seed: number
+): { lower: number; upper: number; confidence: number } {
+  if (paired.length === 0) return { lower: 0, upper: 0, confidence }
+
+  const random = createSeededRandom(seed)
+  const differences: number[] = []
+
+  for (let s = 0; s < samples; s++) {
+    let delta = 0
+    for (let i = 0; i < paired.length; i++) {
+      const record = paired[Math.floor(random() * paired.length)]
+      delta += Number(record.comparisonCorrect) - Number(record.baseCorrect)
+    }
+    differences.push(delta / paired.length)
+  }
+
+  differences.sort((a, b) => a - b)
+  const alpha = (1 - confidence) / 2
+  const at = (q: number) =>
+    differences[
+      Math.min(differences.length - 1, Math.max(0, Math.floor(q * samples)))
+    ]
+
+  return { lower: at(alpha), upper: at(1 - alpha), confidence }
+}
+
+// Paired comparison of two models on the records both of them predicted
+function comparePairedPredictions(
+  basePredictions: PairablePrediction[],
+  comparisonPredictions: PairablePrediction[],
+  {
+    bootstrapSamples = 2000,
+    confidence = 0.95,
+    seed = 42,
+  }: PairedComparisonOptions = {}
+): PairedComparisonResult {
+  const { paired, baseOnlyRecords, comparisonOnlyRecords } = pairPredictions(
+    basePredictions,
+    comparisonPredictions
+  )
+  const contingency = buildContingencyTable(paired)
+  const pairedCount = paired.length
+
+  const baseAccuracy = pairedCount
+    ? (contingency.bothCorrect + contingency.baseOnlyCorrect) / pairedCount
+    : 0
+  const comparisonAccuracy = pairedCount
+    ? (contingency.bothCorrect + contingency.comparisonOnlyCorrect) /
+      pairedCount
+    : 0
+
+  return {
+    pairedCount,
+    baseOnlyRecords,
+    comparisonOnlyRecords,
+    baseAccuracy,
+    comparisonAccuracy,
+    accuracyDifference: comparisonAccuracy - baseAccuracy,
+    contingency,
+    mcNemarPValue: mcNemarExactPValue(
+      contingency.baseOnlyCorrect,
+      contingency.comparisonOnlyCorrect
+    ),
+    bootstrapInterval: bootstrapAccuracyDifference(
+      paired,
+      bootstrapSamples,
+      confidence,
+      seed
+    ),
+    disagreements: paired.filter(
+      (record) => record.baseCorrect !== record.comparisonCorrect
+    ),
+  }
+}
+
+export {
+  comparePairedPredictions,
+  pairPredictions,
+  mcNemarExactPValue,
+  PairedComparisonResult,
+  PairedComparisonOptions,
+  PairedRecord,
+  ContingencyTable,
+}
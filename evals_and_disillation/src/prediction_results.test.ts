@@ -0,0 +1,301 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, describe, it } from 'node:test'
+import {
+  appendPredictionRecords,
+  loadPredictionsFile,
+  openPredictionsFile,
+  rewritePredictionsFile,
+  PredictionRecord,
+  PREDICTIONS_SCHEMA_VERSION,
+} from './prediction_results'
+
+let dir: string
+
+before(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prediction-results-'))
+})
+after(() => fs.rmSync(dir, { recursive: true, force: true }))
+
+// Writes a fixture file into the test directory and returns its path
+function fixture(name: string, content: string): string {
+  const filePath = path.join(dir, name)
+  fs.writeFileSync(filePath, content)
+  return filePath
+}
+
+function predictionRecord(
+  overrides: Partial<PredictionRecord> = {}
+): PredictionRecord {
+  return {
+    type: 'prediction',
+    recordId: 0,
+    model: 'gpt-4o',
+    promptId: 'default',
+    display: 'Domaine Gresser',
+    label: 'Riesling',
+    prediction: 'Riesling',
+    output: { variety: 'Riesling' },
+    rawResponse: '{"variety":"Riesling"}',
+    refusal: null,
+    error: null,
+    errorClass: null,
+    attempts: 1,
+    usage: { promptTokens: 400, completionTokens: 6, cachedTokens: 0 },
+    latencyMs: 800,
+    cacheHit: false,
+    batchId: null,
+    votes: null,
+    agreement: null,
+    confidence: null,
+    timestamp: '2026-01-15T09:30:00.000Z',
+    ...overrides,
+  }
+}
+
+const header = {
+  runId: '2026-01-15-09-30-00',
+  task: 'wine_variety',
+  dataset: 'validation',
+  model: 'gpt-4o',
+  promptId: 'default',
+  config: {},
+}
+
+describe('legacy CSV predictions', () => {
+  it('reads files with a header row by column name', async () => {
+    const filePath = fixture(
+      'with_header.csv',
+      [
+        'Record ID,Model,Prediction,Timestamp,Winery,Variety,Actual Label,Prompt Tokens,Completion Tokens,Cached Tokens,Latency (ms),Cache Hit',
+        '3,gpt-4o,Riesling,2025-01-01T10:00:00Z,Trimbach,Riesling,Riesling,410,5,0,900,true',
+        '7,gpt-4o,Merlot,2025-01-01T10:00:01Z,Lapostolle,Carmenère,Carmenère,,,,,false',
+      ].join('\n')
+    )
+
+    const { header, records } = await loadPredictionsFile(filePath)
+
+    assert.equal(header, null)
+    assert.equal(records.length, 2)
+    assert.deepEqual(
+      {
+        recordId: records[0].recordId,
+        display: records[0].display,
+        label: records[0].label,
+        prediction: records[0].prediction,
+        promptId: records[0].promptId,
+        usage: records[0].usage,
+        latencyMs: records[0].latencyMs,
+        cacheHit: records[0].cacheHit,
+      },
+      {
+        recordId: 3,
+        display: 'Trimbach',
+        label: 'Riesling',
+        prediction: 'Riesling',
+        promptId: 'default',
+        usage: { promptTokens: 410, completionTokens: 5, cachedTokens: 0 },
+        latencyMs: 900,
+        cacheHit: true,
+      }
+    )
+    // Rows written before usage was recorded have none
+    assert.equal(records[1].usage, null)
+    assert.equal(records[1].latencyMs, null)
+  })
+
+  it('reads the variety headers of the wine runs', async () => {
+    const filePath = fixture(
+      'variety_header.csv',
+      [
+        'Record ID,Model,Prediction,Timestamp,Winery,Original Variety,Actual Variety',
+        '4,gpt-4o,Syrah,2025-01-01T10:00:00Z,Qupé,Syrah,Syrah',
+        '9,gpt-4o,Merlot,2025-01-01T10:00:01Z,Lapostolle,Carmenère,Carmenère',
+      ].join('\n')
+    )
+
+    const { records } = await loadPredictionsFile(filePath)
+
+    assert.deepEqual(
+      records.map(({ recordId, display, label, prediction }) => ({
+        recordId,
+        display,
+        label,
+        prediction,
+      })),
+      [
+        { recordId: 4, display: 'Qupé', label: 'Syrah', prediction: 'Syrah' },
+        {
+          recordId: 9,
+          display: 'Lapostolle',
+          label: 'Carmenère',
+          prediction: 'Merlot',
+        },
+      ]
+    )
+  })
+
+  it('reads headerless files by the historical column order', async () => {
+    const filePath = fixture(
+      'headerless.csv',
+      [
+        '0,gpt-4o-mini,Pinot Noir,2025-01-01T10:00:00Z,Domaine Drouhin,Pinot Noir,Pinot Noir',
+        '1,gpt-4o-mini,Syrah,2025-01-01T10:00:01Z,Qupé,Syrah,Syrah,380,4,128,650,false,concise',
+      ].join('\n')
+    )
+
+    const { records } = await loadPredictionsFile(filePath)
+
+    assert.deepEqual(
+      records.map(({ recordId, model, display, label, promptId }) => ({
+        recordId,
+        model,
+        display,
+        label,
+        promptId,
+      })),
+      [
+        {
+          recordId: 0,
+          model: 'gpt-4o-mini',
+          display: 'Domaine Drouhin',
+          label: 'Pinot Noir',
+          promptId: 'default',
+        },
+        {
+          recordId: 1,
+          model: 'gpt-4o-mini',
+          display: 'Qupé',
+          label: 'Syrah',
+          promptId: 'concise',
+        },
+      ]
+    )
+    assert.equal(records[0].usage, null)
+    assert.deepEqual(records[1].usage, {
+      promptTokens: 380,
+      completionTokens: 4,
+      cachedTokens: 128,
+    })
+  })
+
+  it('rejects a header row without the prediction columns', async () => {
+    const filePath = fixture('no_prediction.csv', 'Record ID,Model\n0,gpt-4o')
+    await assert.rejects(
+      loadPredictionsFile(filePath),
+      /missing prediction columns prediction, label/
+    )
+  })
+
+  it('is read in place of a missing JSONL file of the same run', async () => {
+    fixture(
+      'predictions_gpt-4o_validation_run.csv',
+      '0,gpt-4o,Riesling,2025-01-01T10:00:00Z,Trimbach,Riesling,Riesling'
+    )
+
+    const { filePath, records } = await loadPredictionsFile(
+      path.join(dir, 'predictions_gpt-4o_validation_run.jsonl')
+    )
+
+    assert.match(filePath, /\.csv$/)
+    assert.equal(records.length, 1)
+  })
+})
+
+describe('JSONL predictions', () => {
+  it('rejects files written with a newer schema version', async () => {
+    // Only the version is checked, so a header of a future format still gets
+    // the version error rather than a schema error
+    const filePath = fixture(
+      'newer.jsonl',
+      JSON.stringify({
+        type: 'header',
+        schemaVersion: PREDICTIONS_SCHEMA_VERSION + 1,
+        somethingNew: true,
+      }) + '\n'
+    )
+
+    await assert.rejects(
+      loadPredictionsFile(filePath),
+      new RegExp(
+        `schema version ${PREDICTIONS_SCHEMA_VERSION + 1}; this version reads up to ${PREDICTIONS_SCHEMA_VERSION}`
+      )
+    )
+  })
+
+  it('fills in the fields older versions did not write', async () => {
+    const {
+      errorClass,
+      attempts,
+      batchId,
+      votes,
+      agreement,
+      confidence,
+      ...versionOne
+    } = predictionRecord({ recordId: 4 })
+    const filePath = fixture(
+      'version_one.jsonl',
+      [
+        { type: 'header', schemaVersion: 1, createdAt: '…', ...header },
+        versionOne,
+      ]
+        .map((line) => JSON.stringify(line))
+        .join('\n')
+    )
+
+    const { header: fileHeader, records } = await loadPredictionsFile(filePath)
+
+    assert.equal(fileHeader?.schemaVersion, 1)
+    assert.deepEqual(records, [predictionRecord({ recordId: 4 })])
+  })
+
+  it('names the line of a malformed record', async () => {
+    const filePath = fixture(
+      'malformed.jsonl',
+      [
+        JSON.stringify({
+          type: 'header',
+          schemaVersion: PREDICTIONS_SCHEMA_VERSION,
+          createdAt: '…',
+          ...header,
+        }),
+        '{"type":"prediction"',
+      ].join('\n')
+    )
+
+    await assert.rejects(
+      loadPredictionsFile(filePath),
+      /malformed\.jsonl:2: not valid JSON/
+    )
+  })
+
+  it('keeps the latest line of a record at the position of its first', async () => {
+    const filePath = path.join(dir, 'retried.jsonl')
+    await openPredictionsFile(filePath, header)
+    await appendPredictionRecords(filePath, [
+      predictionRecord({
+        recordId: 1,
+        prediction: null,
+        output: null,
+        error: 'Rate limit reached',
+        errorClass: 'rate_limit',
+        attempts: 5,
+      }),
+      predictionRecord({ recordId: 2 }),
+    ])
+    // retry-failed appends the new result of the failed record
+    const retried = predictionRecord({ recordId: 1, attempts: 2 })
+    await appendPredictionRecords(filePath, [retried])
+
+    const { records } = await loadPredictionsFile(filePath)
+    assert.deepEqual(records, [retried, predictionRecord({ recordId: 2 })])
+
+    // Rewriting keeps one line per record and the header
+    await rewritePredictionsFile(filePath, records)
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n')
+    assert.equal(lines.length, 3)
+    assert.deepEqual((await loadPredictionsFile(filePath)).records, records)
+  })
+})
@@ -0,0 +1,395 @@
+import fs from 'fs'
+import Papa from 'papaparse'
+import { z } from 'zod'
+
+// Version of the predictions file format; readers reject newer versions
+// 2: failed records carry errorClass and attempts
+// 3: records answered through the Batch API carry their batchId
+// 4: self-consistency runs record the vote distribution and agreement
+// 5: logprobs runs record the confidence of the predicted label
+const PREDICTIONS_SCHEMA_VERSION = 5
+
+// Why a record has no prediction
+const failureClasses = [
+  'refusal', // The model declined to answer
+  'parse_error', // The response did not match the answer schema
+  'rate_limit',
+  'timeout',
+  'bad_request', // Rejected by the API (4xx other than 429)
+  'server_error',
+  'connection',
+  'unknown',
+] as const
+
+type FailureClass = (typeof failureClasses)[number]
+
+const usageSchema = z.object({
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  cachedTokens: z.number(),
+})
+
+// First line of a predictions file: what produced the records below it
+const predictionsHeaderSchema = z.object({
+  type: z.literal('header'),
+  schemaVersion: z.number().int().positive(),
+  createdAt: z.string(),
+  runId: z.string(),
+  task: z.string(),
+  dataset: z.string(),
+  model: z.string(),
+  promptId: z.string(),
+  config: z.record(z.unknown()).default({}), // Configuration of the run
+})
+
+// One line per record: its answer, or why there is none
+const predictionRecordSchema = z.object({
+  type: z.literal('prediction'),
+  recordId: z.number().int().nonnegative(), // Index into the dataset's valid records
+  model: z.string(),
+  promptId: z.string(),
+  display: z.string(), // The task's display column
+  label: z.string(), // Ground truth
+  prediction: z.string().nullable(), // The answer field; null when there is no answer
+  output: z.record(z.unknown()).nullable(), // The whole parsed structured output
+  rawResponse: z.string().nullable(), // Message content as returned by the model
+  refusal: z.string().nullable(),
+  error: z.string().nullable(),
+  errorClass: z.enum(failureClasses).nullable().default(null), // Set on failed records
+  attempts: z.number().int().nonnegative().default(1), // Requests made for this record
+  usage: usageSchema.nullable(), // null in converted files written before usage was recorded
+  latencyMs: z.number().nullable(),
+  cacheHit: z.boolean(),
+  batchId: z.string().nullable().default(null), // Batch API batch that answered the record
+  votes: z.record(z.number()).nullable().default(null), // Samples per label (self-consistency runs)
+  agreement: z.number().nullable().default(null), // Share of the samples that voted for the prediction
+  confidence: z.number().nullable().default(null), // Probability of the prediction's tokens (logprobs runs)
+  timestamp: z.string(),
+})
+
+type PredictionsHeader = z.infer<typeof predictionsHeaderSchema>
+type PredictionRecord = z.infer<typeof predictionRecordSchema>
+
+interface PredictionsFile {
+  filePath: string // The file actually read (a legacy CSV if no JSONL exists)
+  header: PredictionsHeader | null // null for legacy CSV files
+  records: PredictionRecord[]
+}
+
+// Columns of the CSV files written before the JSONL format, in the order used
+// by headerless files (the last six columns were added over time)
+const legacyColumnOrder = [
+  'recordId',
+  'model',
+  'prediction',
+  'timestamp',
+  'display',
+  'originalLabel',
+  'label',
+  'promptTokens',
+  'completionTokens',
+  'cachedTokens',
+  'latencyMs',
+  'cacheHit',
+  'promptId',
+] as const
+
+type LegacyColumn = (typeof legacyColumnOrder)[number]
+
+// Header titles (and field names) of legacy CSV columns, lowercased
+const legacyColumnNames: Record<string, LegacyColumn> = {
+  'record id': 'recordId',
+  recordid: 'recordId',
+  model: 'model',
+  prediction: 'prediction',
+  timestamp: 'timestamp',
+  record: 'display',
+  winery: 'display',
+  'original label': 'originalLabel',
+  variety: 'originalLabel',
+  'original variety': 'originalLabel',
+  'actual label': 'label',
+  'actual variety': 'label',
+  actual_variety: 'label',
+  'prompt tokens': 'promptTokens',
+  prompttokens: 'promptTokens',
+  'completion tokens': 'completionTokens',
+  completiontokens: 'completionTokens',
+  'cached tokens': 'cachedTokens',
+  cachedtokens: 'cachedTokens',
+  'latency (ms)': 'latencyMs',
+  latencyms: 'latencyMs',
+  'cache hit': 'cacheHit',
+  cachehit: 'cacheHit',
+  'prompt id': 'promptId',
+  promptid: 'promptId',
+}
+
+// The CSV a predictions file replaces, for runs made before the JSONL format
+function getLegacyPredictionsPath(filePath: string): string {
+  return filePath.replace(/\.jsonl$/, '.csv')
+}
+
+// The predictions file to read for a path: the file itself, or the legacy
+// CSV of the same run; undefined when neither exists
+function findPredictionsFile(filePath: string): string | undefined {
+  return [filePath, getLegacyPredictionsPath(filePath)].find((file) =>
+    fs.existsSync(file)
+  )
+}
+
+// Prediction files a run left in data/, named
+// predictions_<model>_<dataset>_<runId>.jsonl (or .csv before the JSONL format)
+// Runs made before run manifests are only known by these files
+async function findRunPredictionFiles(
+  runId: string
+): Promise<{ model: string; dataset: string; filePath: string }[]> {
+  if (!fs.existsSync('./data')) return []
+  const files = await fs.promises.readdir('./data')
+  const runFiles = files.flatMap((file) => {
+    if (!file.startsWith('predictions_')) return []
+    const stem = file.replace(/\.(jsonl|csv)$/, '')
+    if (stem === file || !stem.endsWith(`_${runId}`)) return []
+    const match = stem
+      .slice('predictions_'.length, -(runId.length + 1))
+      .match(/^(.+)_(train|validation)$/)
+    return match
+      ? [
+          {
+            model: match[1],
+            dataset: match[2],
+            filePath: `./data/${stem}.jsonl`,
+          },
+        ]
+      : []
+  })
+  // A run with both files has carried its CSV over into the JSONL file
+  return runFiles
+    .filter(
+      (file, i) =>
+        runFiles.findIndex(({ filePath }) => filePath === file.filePath) === i
+    )
+    .map((file) => ({ ...file, filePath: findPredictionsFile(file.filePath)! }))
+}
+
+const optionalNumber = (value: string | undefined) =>
+  value === undefined || value.trim() === '' ? null : Number(value)
+
+// Reads a CSV written before the JSONL format. Files with a header row are
+// read by column name; headerless files by the historical column order
+async function readLegacyPredictionsCsv(
+  filePath: string
+): Promise<PredictionRecord[]> {
+  const { data } = Papa.parse<string[]>(
+    await fs.promises.readFile(filePath, 'utf8'),
+    {
+      header: false,
+      skipEmptyLines: true,
+      transform: (value) => value.trim(),
+    }
+  )
+
+  const hasHeader = data.length > 0 && !/^\d+$/.test(data[0][0])
+  const columns: (LegacyColumn | undefined)[] = hasHeader
+    ? data[0].map((name) => legacyColumnNames[name.toLowerCase()])
+    : [...legacyColumnOrder]
+  const required: LegacyColumn[] = ['recordId', 'model', 'prediction', 'label']
+  const missing = required.filter((column) => !columns.includes(column))
+  if (missing.length) {
+    throw new Error(
+      `${filePath}: missing prediction columns ${missing.join(', ')}`
+    )
+  }
+
+  return data.slice(hasHeader ? 1 : 0).map((row) => {
+    const value = (column: LegacyColumn) => {
+      const index = columns.indexOf(column)
+      return index === -1 ? undefined : row[index]
+    }
+    const promptTokens = optionalNumber(value('promptTokens'))
+
+    return {
+      type: 'prediction',
+      recordId: Number(value('recordId')),
+      model: value('model') ?? '',
+      promptId: value('promptId') || 'default',
+      display: value('display') ?? '',
+      label: value('label') ?? '',
+      prediction: value('prediction') ?? '',
+      output: null,
+      rawResponse: null,
+      refusal: null,
+      error: null,
+      errorClass: null,
+      attempts: 1,
+      usage:
+        promptTokens === null
+          ? null
+          : {
+              promptTokens,
+              completionTokens: optionalNumber(value('completionTokens')) ?? 0,
+              cachedTokens: optionalNumber(value('cachedTokens')) ?? 0,
+            },
+      latencyMs: optionalNumber(value('latencyMs')),
+      cacheHit: value('cacheHit') === 'true',
+      batchId: null,
+      votes: null,
+      agreement: null,
+      confidence: null,
+      timestamp: value('timestamp') ?? '',
+    }
+  })
+}
+
+async function readPredictionsJsonl(
+  filePath: string
+): Promise<Omit<PredictionsFile, 'filePath'>> {
+  const lines = (await fs.promises.readFile(filePath, 'utf8'))
+    .split('\n')
+    .map((line, index) => ({ line, number: index + 1 }))
+    .filter(({ line }) => line.trim())
+
+  const parseLine = <Schema extends z.ZodTypeAny>(
+    schema: Schema,
+    line: string,
+    number: number
+  ): z.infer<Schema> => {
+    let content: unknown
+    try {
+      content = JSON.parse(line)
+    } catch {
+      throw new Error(`${filePath}:${number}: not valid JSON`)
+    }
+    const parsed = schema.safeParse(content)
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ')
+      throw new Error(`${filePath}:${number}: ${issues}`)
+    }
+    return parsed.data
+  }
+
+  const [first, ...rest] = lines
+  if (!first) throw new Error(`${filePath}: empty predictions file`)
+  // The version is checked first: a newer header need not match this schema
+  const { schemaVersion } = parseLine(
+    z.object({ schemaVersion: z.number() }),
+    first.line,
+    first.number
+  )
+  if (schemaVersion > PREDICTIONS_SCHEMA_VERSION) {
+    throw new Error(
+      `${filePath} uses predictions schema version ${schemaVersion}; this version reads up to ${PREDICTIONS_SCHEMA_VERSION}`
+    )
+  }
+  const header = parseLine(predictionsHeaderSchema, first.line, first.number)
+
+  return {
+    header,
+    records: latestPerRecord(
+      rest.map(({ line, number }) =>
+        parseLine(predictionRecordSchema, line, number)
+      )
+    ),
+  }
+}
+
+// A record written again (by retry-failed) replaces the earlier line; records
+// keep the position of their first line
+function latestPerRecord(records: PredictionRecord[]): PredictionRecord[] {
+  const latest = new Map<number, PredictionRecord>()
+  for (const record of records) latest.set(record.recordId, record)
+  return [...latest.values()]
+}
+
+// Reads a predictions file in the current format, or the legacy CSV of the
+// same run when the JSONL file does not exist
+async function loadPredictionsFile(filePath: string): Promise<PredictionsFile> {
+  const resolved = findPredictionsFile(filePath)
+  if (!resolved) {
+    throw new Error(`File not found: ${filePath}`)
+  }
+
+  if (resolved.endsWith('.csv')) {
+    return {
+      filePath: resolved,
+      header: null,
+      records: await readLegacyPredictionsCsv(resolved),
+    }
+  }
+  return { filePath: resolved, ...(await readPredictionsJsonl(resolved)) }
+}
+
+// Creates a predictions file with its header unless it already exists.
+// Predictions of a legacy CSV for the same run are carried over, so a run
+// started before the JSONL format can be resumed
+async function openPredictionsFile(
+  filePath: string,
+  header: Omit<PredictionsHeader, 'type' | 'schemaVersion' | 'createdAt'>
+): Promise<void> {
+  if (fs.existsSync(filePath)) return
+
+  const legacyPath = getLegacyPredictionsPath(filePath)
+  const legacyRecords =
+    legacyPath !== filePath && fs.existsSync(legacyPath)
+      ? await readLegacyPredictionsCsv(legacyPath)
+      : []
+  const fullHeader: PredictionsHeader = {
+    type: 'header',
+    schemaVersion: PREDICTIONS_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    ...header,
+  }
+  await fs.promises.writeFile(
+    filePath,
+    [fullHeader, ...legacyRecords]
+      .map((line) => JSON.stringify(line) + '\n')
+      .join('')
+  )
+}
+
+// Replaces the records of an existing predictions file, keeping its header
+// The new content is written next to the file and renamed over it, so an
+// interruption never leaves a half-written file
+async function rewritePredictionsFile(
+  filePath: string,
+  records: PredictionRecord[]
+): Promise<void> {
+  const { header } = await readPredictionsJsonl(filePath)
+  const tempPath = `${filePath}.tmp`
+  await fs.promises.writeFile(
+    tempPath,
+    [{ ...header, schemaVersion: PREDICTIONS_SCHEMA_VERSION }, ...records]
+      .map((line) => JSON.stringify(line) + '\n')
+      .join('')
+  )
+  await fs.promises.rename(tempPath, filePath)
+}
+
+// Appends records to a file created with openPredictionsFile
+async function appendPredictionRecords(
+  filePath: string,
+  records: PredictionRecord[]
+): Promise<void> {
+  if (!records.length) return
+  await fs.promises.appendFile(
+    filePath,
+    records.map((record) => JSON.stringify(record) + '\n').join('')
+  )
+}
+
+export {
+  PREDICTIONS_SCHEMA_VERSION,
+  findPredictionsFile,
+  findRunPredictionFiles,
+  loadPredictionsFile,
+  openPredictionsFile,
+  appendPredictionRecords,
+  rewritePredictionsFile,
+  failureClasses,
+  FailureClass,
+  PredictionsHeader,
+  PredictionRecord,
+  PredictionsFile,
+}
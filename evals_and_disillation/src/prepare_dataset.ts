@@ -0,0 +1,281 @@
+import fs from 'fs'
+import path from 'path'
+import { createObjectCsvWriter } from 'csv-writer'
+import {
+  checkDatasetSplits,
+  findCrossDuplicates,
+  logDatasetCheck,
+  normalizeText,
+  DatasetCheckReport,
+} from './dataset_check'
+import { createSeededRandom, shuffle } from './random'
+import { allocateStrata } from './sampling'
+import {
+  inspectTaskRows,
+  loadTaskDefinition,
+  TaskDefinition,
+} from './task_definition'
+
+// Where prepared splits are written unless an output directory is given
+const preparedDir = './data/prepared'
+
+// Options for building train/validation splits from a raw dataset
+interface PrepareDatasetOptions {
+  input: string // Raw CSV, e.g. the Winemag winemag-data-130k-v2.csv
+  task?: string // Decides which rows are usable and which column is the label
+  topK?: number // Keep only the K most frequent labels
+  trainSize?: number // With validationSize, sample this many training rows
+  validationSize?: number
+  validationFraction?: number // Share of the rows held out when no sizes are given (default 0.2)
+  dedupeColumns?: string[] // Drop rows repeating an earlier row in any of these (default: the task's leakage columns)
+  seed?: number
+  outputDir?: string
+  name?: string // File name prefix (default: the task name)
+}
+
+interface PrepareSummary {
+  trainFile: string
+  validationFile: string
+  reportFile: string
+  rows: {
+    input: number
+    usable: number
+    train: number
+    validation: number
+  }
+  dropped: Record<string, number> // Reason -> rows
+  labels: number
+  check: DatasetCheckReport
+}
+
+type Row = Record<string, unknown>
+
+// Drops rows whose (normalized) value in any of the columns was already seen
+function dedupeRows(
+  rows: Row[],
+  columns: string[],
+  dropped: Record<string, number>
+): Row[] {
+  const seen = new Map(columns.map((column) => [column, new Set<string>()]))
+  return rows.filter((row) => {
+    const values = columns.map((column) => normalizeText(row[column]))
+    const duplicate = columns.find(
+      (column, i) => values[i] && seen.get(column)!.has(values[i])
+    )
+    if (duplicate) {
+      dropped[`duplicate ${duplicate}`] =
+        (dropped[`duplicate ${duplicate}`] ?? 0) + 1
+      return false
+    }
+    columns.forEach((column, i) => {
+      if (values[i]) seen.get(column)!.add(values[i])
+    })
+    return true
+  })
+}
+
+// Keeps the rows of the K most frequent labels (ties go to the label seen first)
+function keepTopLabels(
+  rows: Row[],
+  labelColumn: string,
+  topK: number,
+  dropped: Record<string, number>
+): Row[] {
+  const counts = new Map<string, number>()
+  for (const row of rows) {
+    const label = String(row[labelColumn])
+    counts.set(label, (counts.get(label) ?? 0) + 1)
+  }
+  const kept = new Set(
+    [...counts.entries()]
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, topK)
+      .map(([label]) => label)
+  )
+  const reason = `label outside top ${topK}`
+  return rows.filter((row) => {
+    if (kept.has(String(row[labelColumn]))) return true
+    dropped[reason] = (dropped[reason] ?? 0) + 1
+    return false
+  })
+}
+
+// Splits the rows so both splits follow the label distribution; with a target
+// size, only that many rows are drawn (proportionally) from each label
+function splitStratified(
+  rows: Row[],
+  labelColumn: string,
+  totalSize: number,
+  validationSize: number,
+  seed: number
+): { train: Row[]; validation: Row[] } {
+  const random = createSeededRandom(seed)
+  const groups = new Map<string, number[]>()
+  rows.forEach((row, index) => {
+    const label = String(row[labelColumn])
+    const group = groups.get(label) ?? []
+    group.push(index)
+    groups.set(label, group)
+  })
+
+  const indexes = [...groups.values()].map((group) => shuffle(group, random))
+  const quotas = allocateStrata(
+    indexes.map((group) => group.length),
+    totalSize
+  )
+  const validationQuotas = allocateStrata(quotas, validationSize)
+
+  const train: number[] = []
+  const validation: number[] = []
+  indexes.forEach((group, i) => {
+    validation.push(...group.slice(0, validationQuotas[i]))
+    train.push(...group.slice(validationQuotas[i], quotas[i]))
+  })
+
+  // Splits keep the order of the input file
+  const byIndex = (a: number, b: number) => a - b
+  return {
+    train: train.sort(byIndex).map((index) => rows[index]),
+    validation: validation.sort(byIndex).map((index) => rows[index]),
+  }
+}
+
+async function writeCsv(filePath: string, columns: string[], rows: Row[]) {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+  await createObjectCsvWriter({
+    path: filePath,
+    header: columns.map((column) => ({ id: column, title: column })),
+  }).writeRecords(rows)
+}
+
+function resolveSizes(
+  task: TaskDefinition,
+  usableRows: number,
+  { trainSize, validationSize, validationFraction = 0.2 }: PrepareDatasetOptions
+) {
+  if ((trainSize === undefined) !== (validationSize === undefined)) {
+    throw new Error('Give both trainSize and validationSize, or neither')
+  }
+  if (trainSize !== undefined && validationSize !== undefined) {
+    if (trainSize + validationSize > usableRows) {
+      throw new Error(
+        `${task.name}: only ${usableRows} usable rows for ${trainSize} train and ${validationSize} validation rows`
+      )
+    }
+    return { total: trainSize + validationSize, validation: validationSize }
+  }
+  if (validationFraction <= 0 || validationFraction >= 1) {
+    throw new Error('validationFraction must be between 0 and 1')
+  }
+  return {
+    total: usableRows,
+    validation: Math.round(usableRows * validationFraction),
+  }
+}
+
+// Builds train and validation CSVs from a raw dataset: skips unusable rows,
+// removes duplicates, keeps the top-K labels and splits stratified by label.
+// The splits are then checked for leakage like any other dataset pair
+async function prepareDataset(
+  options: PrepareDatasetOptions
+): Promise<PrepareSummary> {
+  const task = await loadTaskDefinition(options.task)
+  const {
+    input,
+    topK,
+    dedupeColumns = task.leakageColumns ?? task.inputColumns,
+    seed = 42,
+    outputDir = preparedDir,
+    name = task.name,
+  } = options
+  if (!fs.existsSync(input)) {
+    throw new Error(`Input file not found: ${input}`)
+  }
+
+  const { totalRows, rows, dropped } = await inspectTaskRows(task, input)
+  const columns = Object.keys(rows[0] ?? {})
+  const missingColumns = dedupeColumns.filter(
+    (column) => !columns.includes(column)
+  )
+  if (missingColumns.length) {
+    throw new Error(
+      `${input} has no column ${missingColumns.join(', ')} to dedupe on`
+    )
+  }
+
+  let usable = dedupeRows(rows, dedupeColumns, dropped)
+  if (topK !== undefined) {
+    usable = keepTopLabels(usable, task.labelColumn, topK, dropped)
+  }
+
+  const sizes = resolveSizes(task, usable.length, options)
+  const { train, validation } = splitStratified(
+    usable,
+    task.labelColumn,
+    sizes.total,
+    sizes.validation,
+    seed
+  )
+
+  // Exact dedupe misses reworded copies (the same wine reviewed for another
+  // vintage, say), so validation rows close to a training row are dropped too
+  const leakedRows = new Set(
+    dedupeColumns.flatMap((column) =>
+      findCrossDuplicates(
+        train.map((row) => row[column]),
+        validation.map((row) => row[column])
+      ).map(({ validationRow }) => validationRow)
+    )
+  )
+  if (leakedRows.size) {
+    dropped['near-duplicate of a train row'] = leakedRows.size
+  }
+  const cleanValidation = validation.filter((_, row) => !leakedRows.has(row))
+
+  const trainFile = path.join(outputDir, `${name}_train.csv`)
+  const validationFile = path.join(outputDir, `${name}_validation.csv`)
+  await writeCsv(trainFile, columns, train)
+  await writeCsv(validationFile, columns, cleanValidation)
+
+  const check = await checkDatasetSplits(task, { trainFile, validationFile })
+  const summary: PrepareSummary = {
+    trainFile,
+    validationFile,
+    reportFile: path.join(outputDir, `${name}_report.json`),
+    rows: {
+      input: totalRows,
+      usable: usable.length,
+      train: train.length,
+      validation: cleanValidation.length,
+    },
+    dropped,
+    labels: new Set(usable.map((row) => String(row[task.labelColumn]))).size,
+    check,
+  }
+
+  await fs.promises.writeFile(
+    summary.reportFile,
+    JSON.stringify({ options: { ...options, seed }, ...summary }, null, 2)
+  )
+  return summary
+}
+
+function logPrepareSummary(summary: PrepareSummary) {
+  console.log(
+    `Input: ${summary.rows.input} rows, ${summary.rows.usable} usable (${summary.labels} labels)`
+  )
+  for (const [reason, count] of Object.entries(summary.dropped)) {
+    console.log(`  dropped, ${reason}: ${count}`)
+  }
+  console.log(
+    `✓ ${summary.rows.train} train rows → ${summary.trainFile}\n✓ ${summary.rows.validation} validation rows → ${summary.validationFile}\nReport saved to ${summary.reportFile}\n`
+  )
+  logDatasetCheck(summary.check)
+}
+
+export {
+  prepareDataset,
+  logPrepareSummary,
+  PrepareDatasetOptions,
+  PrepareSummary,
+}
@@ -0,0 +1,110 @@
+import fs from 'fs'
+
+// Token counts reported for one or more requests
+interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+  cachedTokens: number // Prompt tokens served from OpenAI's prompt cache
+}
+
+// USD per 1M tokens
+interface ModelPrice {
+  input: number
+  cachedInput: number
+  output: number
+}
+
+// Default prices; override or extend them in data/pricing.json (or PRICING_FILE)
+// Keys are matched exactly, then as `ft:<base model>` for fine-tuned models,
+// then by the longest key the model name starts with.
+const defaultPrices: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, cachedInput: 1.25, output: 10 },
+  'gpt-4o-mini': { input: 0.15, cachedInput: 0.075, output: 0.6 },
+  'ft:gpt-4o': { input: 3.75, cachedInput: 1.875, output: 15 },
+  'ft:gpt-4o-mini': { input: 0.3, cachedInput: 0.15, output: 1.2 },
+}
+
+const pricingPath = './data/pricing.json'
+
+let priceTable: Record<string, ModelPrice> | null = null
+
+// Loads the price table, merging the optional pricing file over the defaults
+function getPriceTable(): Record<string, ModelPrice> {
+  if (priceTable) return priceTable
+
+  const filePath = process.env.PRICING_FILE || pricingPath
+  const overrides = fs.existsSync(filePath)
+    ? JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    : {}
+
+  const table: Record<string, ModelPrice> = { ...defaultPrices, ...overrides }
+  priceTable = table
+  return table
+}
+
+function findLongestPrefix(
+  table: Record<string, ModelPrice>,
+  name: string
+): ModelPrice | null {
+  const key = Object.keys(table)
+    .filter((candidate) => name.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0]
+  return key ? table[key] : null
+}
+
+// Resolves the price of a model, or null when it is not in the table
+function getModelPrice(model: string): ModelPrice | null {
+  const table = getPriceTable()
+  if (table[model]) return table[model]
+
+  // Fine-tuned models look like ft:<base model>:<org>::<id>
+  if (model.startsWith('ft:')) {
+    const baseModel = model.split(':')[1]
+    return findLongestPrefix(table, `ft:${baseModel}`)
+  }
+  return findLongestPrefix(table, model)
+}
+
+// Batch API requests are billed at half the synchronous price
+const BATCH_DISCOUNT = 0.5
+
+// Cost in USD of the given usage, or null when the model has no known price
+function calculateCost(
+  model: string,
+  usage: TokenUsage,
+  batch: boolean = false
+): number | null {
+  const price = getModelPrice(model)
+  if (!price) return null
+
+  const uncachedPrompt = usage.promptTokens - usage.cachedTokens
+  const cost =
+    (uncachedPrompt * price.input +
+      usage.cachedTokens * price.cachedInput +
+      usage.completionTokens * price.output) /
+    1_000_000
+  return batch ? cost * BATCH_DISCOUNT : cost
+}
+
+function addUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    cachedTokens: total.cachedTokens + usage.cachedTokens,
+  }
+}
+
+const emptyUsage: TokenUsage = {
+  promptTokens: 0,
+  completionTokens: 0,
+  cachedTokens: 0,
+}
+
+export {
+  calculateCost,
+  getModelPrice,
+  addUsage,
+  emptyUsage,
+  TokenUsage,
+  ModelPrice,
+}
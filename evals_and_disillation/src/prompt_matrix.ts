@@ -0,0 +1,152 @@
+import { createObjectCsvWriter } from 'csv-writer'
+import { readPredictionsFile } from './step3_analyze_results'
+
+// Predictions of one model with one prompt variant
+interface PromptMatrixEntry {
+  promptId: string
+  model: string
+  file: string
+}
+
+interface PromptMatrixCell {
+  promptId: string
+  model: string
+  correct: number
+  total: number
+  accuracy: number
+}
+
+// Accuracy of every prompt × model combination
+// Cells are scored on the records every combination predicted, so a prompt
+// is never ranked on a different subset than the others
+interface PromptMatrix {
+  prompts: string[]
+  models: string[]
+  commonRecords: number
+  cells: PromptMatrixCell[]
+}
+
+async function buildPromptMatrix(
+  entries: PromptMatrixEntry[]
+): Promise<PromptMatrix> {
+  const predictions = await Promise.all(
+    entries.map(({ file }) => readPredictionsFile(file))
+  )
+
+  const [first, ...rest] = predictions.map(
+    (records) => new Set(records.map(({ recordId }) => recordId))
+  )
+  const common = new Set(
+    [...(first ?? [])].filter((recordId) =>
+      rest.every((recordIds) => recordIds.has(recordId))
+    )
+  )
+
+  const cells = entries.map(({ promptId, model }, i) => {
+    const scored = predictions[i].filter(({ recordId }) => common.has(recordId))
+    const correct = scored.filter(
+      ({ prediction, actual_variety }) => prediction === actual_variety
+    ).length
+    return {
+      promptId,
+      model,
+      correct,
+      total: scored.length,
+      accuracy: scored.length ? correct / scored.length : 0,
+    }
+  })
+
+  return {
+    prompts: [...new Set(entries.map(({ promptId }) => promptId))],
+    models: [...new Set(entries.map(({ model }) => model))],
+    commonRecords: common.size,
+    cells,
+  }
+}
+
+function getCell(
+  matrix: PromptMatrix,
+  promptId: string,
+  model: string
+): PromptMatrixCell | undefined {
+  return matrix.cells.find(
+    (cell) => cell.promptId === promptId && cell.model === model
+  )
+}
+
+function logPromptMatrix(matrix: PromptMatrix) {
+  console.log(
+    `\n=== Prompt × Model Accuracy (${matrix.commonRecords} common records) ===\n`
+  )
+
+  const promptWidth = Math.max(6, ...matrix.prompts.map((id) => id.length))
+  const columnWidths = matrix.models.map((model) => Math.max(8, model.length))
+
+  console.log(
+    [
+      'Prompt'.padEnd(promptWidth),
+      ...matrix.models.map((model, i) => model.padStart(columnWidths[i])),
+    ].join('  ')
+  )
+  for (const promptId of matrix.prompts) {
+    console.log(
+      [
+        promptId.padEnd(promptWidth),
+        ...matrix.models.map((model, i) => {
+          const cell = getCell(matrix, promptId, model)
+          const value = cell ? `${(cell.accuracy * 100).toFixed(2)}%` : '-'
+          return value.padStart(columnWidths[i])
+        }),
+      ].join('  ')
+    )
+  }
+
+  const best = matrix.cells.reduce((top, cell) =>
+    cell.accuracy > top.accuracy ? cell : top
+  )
+  console.log(
+    `\n🏆 Best combination: ${best.promptId} × ${best.model} (${(
+      best.accuracy * 100
+    ).toFixed(2)}%)`
+  )
+}
+
+// Writes the grid with one row per prompt and one accuracy column per model
+async function savePromptMatrix(
+  matrix: PromptMatrix,
+  datasetType: string,
+  timestamp: string
+): Promise<string> {
+  const filePath = `./data/prompt_matrix_${datasetType}_${timestamp}.csv`
+  const writer = createObjectCsvWriter({
+    path: filePath,
+    header: [
+      { id: 'promptId', title: 'Prompt' },
+      ...matrix.models.map((model, i) => ({ id: `m${i}`, title: model })),
+      { id: 'records', title: 'Common Records' },
+    ],
+  })
+
+  await writer.writeRecords(
+    matrix.prompts.map((promptId) => ({
+      promptId,
+      ...Object.fromEntries(
+        matrix.models.map((model, i) => [
+          `m${i}`,
+          getCell(matrix, promptId, model)?.accuracy ?? '',
+        ])
+      ),
+      records: matrix.commonRecords,
+    }))
+  )
+  return filePath
+}
+
+export {
+  buildPromptMatrix,
+  logPromptMatrix,
+  savePromptMatrix,
+  PromptMatrix,
+  PromptMatrixCell,
+  PromptMatrixEntry,
+}
@@ -0,0 +1,295 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it, mock } from 'node:test'
+import { setImmediate } from 'node:timers/promises'
+import OpenAI from 'openai'
+import {
+  classifyError,
+  createRateLimiter,
+  parseRateLimitHeaders,
+  parseRetryAfter,
+  Clock,
+  RateLimitConfig,
+} from './rate_limiter'
+
+// Clock that only moves when a test advances it
+function createFakeClock() {
+  let time = 0
+  let sleepers: { until: number; resolve: () => void }[] = []
+
+  // Lets the limiter's promise chains run up to their next sleep
+  const settle = async () => {
+    for (let i = 0; i < 10; i++) await setImmediate()
+  }
+
+  const clock: Clock & { advance(ms: number): Promise<void> } = {
+    now: () => time,
+    sleep: (ms) =>
+      new Promise<void>((resolve) =>
+        sleepers.push({ until: time + ms, resolve })
+      ),
+    async advance(ms) {
+      await settle()
+      time += ms
+      const due = sleepers.filter(({ until }) => until <= time)
+      sleepers = sleepers.filter(({ until }) => until > time)
+      due.forEach(({ resolve }) => resolve())
+      await settle()
+    },
+  }
+  return clock
+}
+
+const config: RateLimitConfig = {
+  requestsPerMinute: 600,
+  tokensPerMinute: 6000,
+  initialConcurrency: 2,
+  maxConcurrency: 4,
+}
+
+describe('parseRateLimitHeaders', () => {
+  it('reads limits, remaining budget and reset durations', () => {
+    const headers: Record<string, string> = {
+      'x-ratelimit-limit-requests': '5000',
+      'x-ratelimit-limit-tokens': '800000',
+      'x-ratelimit-remaining-requests': '4999',
+      'x-ratelimit-remaining-tokens': '799500',
+      'x-ratelimit-reset-requests': '12ms',
+      'x-ratelimit-reset-tokens': '6m0.5s',
+    }
+
+    assert.deepEqual(
+      parseRateLimitHeaders((name) => headers[name]),
+      {
+        limitRequests: 5000,
+        limitTokens: 800000,
+        remainingRequests: 4999,
+        remainingTokens: 799500,
+        resetRequestsMs: 12,
+        resetTokensMs: 360500,
+      }
+    )
+  })
+
+  it('leaves missing and malformed headers undefined', () => {
+    const headers: Record<string, string> = {
+      'x-ratelimit-limit-requests': 'many',
+      'x-ratelimit-remaining-tokens': '',
+      'x-ratelimit-reset-requests': 'soon',
+    }
+
+    assert.deepEqual(
+      parseRateLimitHeaders((name) => headers[name]),
+      {
+        limitRequests: undefined,
+        limitTokens: undefined,
+        remainingRequests: undefined,
+        remainingTokens: undefined,
+        resetRequestsMs: undefined,
+        resetTokensMs: undefined,
+      }
+    )
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('prefers retry-after-ms over retry-after', () => {
+    assert.equal(
+      parseRetryAfter({ 'retry-after-ms': '250', 'retry-after': '3' }),
+      250
+    )
+  })
+
+  it('reads retry-after in seconds', () => {
+    assert.equal(parseRetryAfter({ 'retry-after': '1.5' }), 1500)
+  })
+
+  it('reads retry-after as an HTTP date', () => {
+    mock.method(Date, 'now', () => Date.parse('2026-01-15T09:30:00Z'))
+    try {
+      assert.equal(
+        parseRetryAfter({ 'retry-after': 'Thu, 15 Jan 2026 09:30:10 GMT' }),
+        10000
+      )
+      assert.equal(
+        parseRetryAfter({ 'retry-after': 'Thu, 15 Jan 2026 09:29:00 GMT' }),
+        0
+      )
+    } finally {
+      mock.restoreAll()
+    }
+  })
+
+  it('is undefined without usable headers', () => {
+    assert.equal(parseRetryAfter(undefined), undefined)
+    assert.equal(parseRetryAfter({ 'retry-after': 'later' }), undefined)
+  })
+})
+
+describe('classifyError', () => {
+  const apiError = (status: number, headers = {}) =>
+    new OpenAI.APIError(status, undefined, 'Request failed', headers)
+
+  it('retries rate limits after the retry-after time', () => {
+    assert.deepEqual(classifyError(apiError(429, { 'retry-after': '2' })), {
+      kind: 'rate_limit',
+      retryable: true,
+      retryAfterMs: 2000,
+    })
+  })
+
+  it('retries server errors and timeouts but not bad requests', () => {
+    assert.deepEqual(classifyError(apiError(503)), {
+      kind: 'server',
+      retryable: true,
+    })
+    assert.deepEqual(classifyError(apiError(408)), {
+      kind: 'timeout',
+      retryable: true,
+    })
+    assert.deepEqual(classifyError(apiError(400)), {
+      kind: 'client',
+      retryable: false,
+    })
+  })
+})
+
+describe('createRateLimiter', () => {
+  let clock: ReturnType<typeof createFakeClock>
+
+  beforeEach(() => {
+    clock = createFakeClock()
+    mock.method(console, 'warn', () => {})
+  })
+  afterEach(() => mock.restoreAll())
+
+  // Starts a request and tracks whether the limiter let it through
+  const start = (
+    limiter: ReturnType<typeof createRateLimiter>,
+    estimatedTokens = 1
+  ) => {
+    const request = { started: false, done: Promise.resolve() }
+    request.done = limiter.run(estimatedTokens, async () => {
+      request.started = true
+    })
+    return request
+  }
+
+  it('adds a slot after each full round of successes, up to the maximum', () => {
+    const limiter = createRateLimiter('gpt-4o', config, clock)
+    assert.equal(limiter.concurrency, 2)
+
+    limiter.recordSuccess()
+    assert.equal(limiter.concurrency, 2)
+    limiter.recordSuccess()
+    assert.equal(limiter.concurrency, 3)
+
+    for (let i = 0; i < 3; i++) limiter.recordSuccess()
+    assert.equal(limiter.concurrency, 4)
+    for (let i = 0; i < 10; i++) limiter.recordSuccess()
+    assert.equal(limiter.concurrency, 4)
+  })
+
+  it('halves concurrency on a 429, down to one slot', () => {
+    const limiter = createRateLimiter(
+      'gpt-4o',
+      { ...config, initialConcurrency: 4, maxConcurrency: 8 },
+      clock
+    )
+
+    limiter.recordRateLimited(0)
+    assert.equal(limiter.concurrency, 2)
+    limiter.recordRateLimited(0)
+    assert.equal(limiter.concurrency, 1)
+    limiter.recordRateLimited(0)
+    assert.equal(limiter.concurrency, 1)
+
+    // Recovering needs a full round of successes again
+    limiter.recordSuccess()
+    assert.equal(limiter.concurrency, 2)
+    limiter.recordSuccess()
+    assert.equal(limiter.concurrency, 2)
+    limiter.recordSuccess()
+    assert.equal(limiter.concurrency, 3)
+  })
+
+  it('pauses requests for the retry-after time of a 429', async () => {
+    const limiter = createRateLimiter('gpt-4o', config, clock)
+    limiter.recordRateLimited(1000)
+
+    const request = start(limiter)
+    await clock.advance(999)
+    assert.equal(request.started, false)
+
+    await clock.advance(1)
+    assert.equal(request.started, true)
+    await request.done
+  })
+
+  it('pauses for five seconds on a 429 without retry-after', async () => {
+    const limiter = createRateLimiter('gpt-4o', config, clock)
+    limiter.recordRateLimited()
+
+    const request = start(limiter)
+    await clock.advance(4999)
+    assert.equal(request.started, false)
+
+    await clock.advance(1)
+    assert.equal(request.started, true)
+    await request.done
+  })
+
+  it('waits for the token bucket to refill', async () => {
+    const limiter = createRateLimiter('gpt-4o', config, clock)
+
+    const first = start(limiter, 6000)
+    await clock.advance(0)
+    assert.equal(first.started, true)
+
+    // 3000 tokens refill in 30s at 6000 tokens per minute
+    const second = start(limiter, 3000)
+    await clock.advance(29999)
+    assert.equal(second.started, false)
+
+    await clock.advance(1)
+    assert.equal(second.started, true)
+    await Promise.all([first.done, second.done])
+  })
+
+  it('pauses until the reset time when the headers report no budget left', async () => {
+    const limiter = createRateLimiter('gpt-4o', config, clock)
+    limiter.recordSuccess(
+      parseRateLimitHeaders(
+        (name) =>
+          ({
+            'x-ratelimit-remaining-requests': '0',
+            'x-ratelimit-reset-requests': '2s',
+          })[name]
+      )
+    )
+
+    const request = start(limiter)
+    await clock.advance(1999)
+    assert.equal(request.started, false)
+
+    // The bucket was drained to the reported 0 and refills at 10 per second
+    await clock.advance(1)
+    assert.equal(request.started, true)
+    await request.done
+  })
+
+  it('takes the request limit from the headers', async () => {
+    const limiter = createRateLimiter('gpt-4o', config, clock)
+    limiter.recordSuccess({ limitRequests: 60, remainingRequests: 1 })
+
+    const first = start(limiter)
+    const second = start(limiter)
+    await clock.advance(0)
+    assert.equal(first.started, true)
+    assert.equal(second.started, false)
+
+    // One request per second at 60 requests per minute
+    await clock.advance(1000)
+    assert.equal(second.started, true)
+    await Promise.all([first.done, second.done])
+  })
+})
@@ -0,0 +1,314 @@
+import fs from 'fs'
+import pLimit, { LimitFunction } from 'p-limit'
+import { setTimeout } from 'timers/promises'
+import OpenAI from 'openai'
+
+// Rate-limit state reported by the API in x-ratelimit-* response headers
+interface RateLimitSnapshot {
+  limitRequests?: number
+  limitTokens?: number
+  remainingRequests?: number
+  remainingTokens?: number
+  resetRequestsMs?: number
+  resetTokensMs?: number
+}
+
+interface RateLimitConfig {
+  requestsPerMinute: number
+  tokensPerMinute: number
+  initialConcurrency: number
+  maxConcurrency: number
+}
+
+// How a failed request should be handled
+interface ErrorClassification {
+  kind:
+    | 'rate_limit'
+    | 'server'
+    | 'timeout'
+    | 'connection'
+    | 'client'
+    | 'unknown'
+  retryable: boolean
+  retryAfterMs?: number
+}
+
+interface RateLimiter {
+  model: string
+  // Runs a request once a concurrency slot and enough request/token budget are free
+  run<T>(estimatedTokens: number, task: () => Promise<T>): Promise<T>
+  recordSuccess(snapshot?: RateLimitSnapshot): void
+  recordRateLimited(retryAfterMs?: number): void
+  readonly concurrency: number
+}
+
+// Time source of a limiter; tests substitute a fake one
+interface Clock {
+  now(): number
+  sleep(ms: number): Promise<unknown>
+}
+
+const systemClock: Clock = { now: () => Date.now(), sleep: setTimeout }
+
+// Conservative defaults (usage tier 1); limits reported in response headers
+// take over as soon as the first request completes. Override or extend them
+// in data/rate_limits.json (or RATE_LIMITS_FILE). Models are matched by the
+// longest key their name starts with; fine-tuned models use `ft:<base>`.
+const defaultRateLimits: Record<string, RateLimitConfig> = {
+  default: {
+    requestsPerMinute: 500,
+    tokensPerMinute: 30000,
+    initialConcurrency: 3,
+    maxConcurrency: 16,
+  },
+  'gpt-4o': {
+    requestsPerMinute: 500,
+    tokensPerMinute: 30000,
+    initialConcurrency: 3,
+    maxConcurrency: 16,
+  },
+  'gpt-4o-mini': {
+    requestsPerMinute: 500,
+    tokensPerMinute: 200000,
+    initialConcurrency: 4,
+    maxConcurrency: 32,
+  },
+}
+
+const rateLimitsPath = './data/rate_limits.json'
+
+// Pause applied after a 429 without a retry-after header
+const DEFAULT_RATE_LIMIT_PAUSE_MS = 5000
+
+function getRateLimitConfig(model: string): RateLimitConfig {
+  const filePath = process.env.RATE_LIMITS_FILE || rateLimitsPath
+  const overrides = fs.existsSync(filePath)
+    ? JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    : {}
+  const table: Record<string, Partial<RateLimitConfig>> = {
+    ...defaultRateLimits,
+    ...overrides,
+  }
+
+  const findKey = (name: string) =>
+    Object.keys(table)
+      .filter((candidate) => name.startsWith(candidate))
+      .sort((a, b) => b.length - a.length)[0]
+  const baseModel = model.startsWith('ft:') ? model.split(':')[1] : model
+  const key =
+    (model.startsWith('ft:') && findKey(`ft:${baseModel}`)) ||
+    findKey(baseModel) ||
+    'default'
+
+  return {
+    ...defaultRateLimits.default,
+    ...table[key],
+  } as RateLimitConfig
+}
+
+// Parses durations like "1s", "6m0s", "20ms" or "0.5s" into milliseconds
+function parseResetDuration(
+  value: string | null | undefined
+): number | undefined {
+  if (!value) return undefined
+
+  let total = 0
+  let matched = false
+  for (const [, amount, unit] of value.matchAll(/([\d.]+)(ms|h|m|s)/g)) {
+    matched = true
+    const multiplier = { ms: 1, s: 1000, m: 60000, h: 3600000 }[unit]!
+    total += parseFloat(amount) * multiplier
+  }
+  return matched ? total : undefined
+}
+
+function parseNumber(value: string | null | undefined): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+// Reads the x-ratelimit-* headers of a response
+function parseRateLimitHeaders(
+  getHeader: (name: string) => string | null | undefined
+): RateLimitSnapshot {
+  return {
+    limitRequests: parseNumber(getHeader('x-ratelimit-limit-requests')),
+    limitTokens: parseNumber(getHeader('x-ratelimit-limit-tokens')),
+    remainingRequests: parseNumber(getHeader('x-ratelimit-remaining-requests')),
+    remainingTokens: parseNumber(getHeader('x-ratelimit-remaining-tokens')),
+    resetRequestsMs: parseResetDuration(
+      getHeader('x-ratelimit-reset-requests')
+    ),
+    resetTokensMs: parseResetDuration(getHeader('x-ratelimit-reset-tokens')),
+  }
+}
+
+// Reads retry-after-ms / retry-after (seconds or HTTP date) from error headers
+function parseRetryAfter(
+  headers: Record<string, string | null | undefined> | undefined
+): number | undefined {
+  if (!headers) return undefined
+
+  const retryAfterMs = parseNumber(headers['retry-after-ms'])
+  if (retryAfterMs !== undefined) return retryAfterMs
+
+  const retryAfter = headers['retry-after']
+  const seconds = parseNumber(retryAfter)
+  if (seconds !== undefined) return seconds * 1000
+
+  const date = retryAfter ? Date.parse(retryAfter) : NaN
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+// Separates errors worth retrying (429, 5xx, timeouts, dropped connections)
+// from requests that will never succeed as sent (other 4xx)
+function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return { kind: 'timeout', retryable: true }
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    return { kind: 'connection', retryable: true }
+  }
+  if (error instanceof OpenAI.APIError && error.status !== undefined) {
+    if (error.status === 429) {
+      return {
+        kind: 'rate_limit',
+        retryable: true,
+        retryAfterMs: parseRetryAfter(error.headers),
+      }
+    }
+    if (error.status === 408) return { kind: 'timeout', retryable: true }
+    if (error.status >= 500) return { kind: 'server', retryable: true }
+    return { kind: 'client', retryable: false }
+  }
+  return { kind: 'unknown', retryable: true }
+}
+
+// Continuously refilling bucket holding up to one minute of budget
+function createBucket(perMinute: number, now: number) {
+  return { capacity: perMinute, level: perMinute, updatedAt: now }
+}
+
+type Bucket = ReturnType<typeof createBucket>
+
+function refill(bucket: Bucket, now: number) {
+  bucket.level = Math.min(
+    bucket.capacity,
+    bucket.level + ((now - bucket.updatedAt) * bucket.capacity) / 60000
+  )
+  bucket.updatedAt = now
+}
+
+// Milliseconds until the bucket holds `amount`
+function waitTime(bucket: Bucket, amount: number): number {
+  const missing = Math.min(amount, bucket.capacity) - bucket.level
+  return missing <= 0 ? 0 : Math.ceil((missing * 60000) / bucket.capacity)
+}
+
+// Token-bucket limiter on requests and tokens per minute, with additive
+// increase / multiplicative decrease of concurrency: one more slot after a
+// full round of successes, half the slots after a 429.
+function createRateLimiter(
+  model: string,
+  config: RateLimitConfig = getRateLimitConfig(model),
+  clock: Clock = systemClock
+): RateLimiter {
+  const requests = createBucket(config.requestsPerMinute, clock.now())
+  const tokens = createBucket(config.tokensPerMinute, clock.now())
+  const limit: LimitFunction = pLimit(config.initialConcurrency)
+  let pausedUntil = 0
+  let successStreak = 0
+
+  async function acquire(estimatedTokens: number) {
+    while (true) {
+      const now = clock.now()
+      if (pausedUntil > now) {
+        await clock.sleep(pausedUntil - now)
+        continue
+      }
+
+      refill(requests, now)
+      refill(tokens, now)
+      const wait = Math.max(
+        waitTime(requests, 1),
+        waitTime(tokens, estimatedTokens)
+      )
+      if (wait === 0) {
+        requests.level -= 1
+        tokens.level -= Math.min(estimatedTokens, tokens.capacity)
+        return
+      }
+      await clock.sleep(wait)
+    }
+  }
+
+  return {
+    model,
+    get concurrency() {
+      return limit.concurrency
+    },
+    run(estimatedTokens, task) {
+      return limit(async () => {
+        await acquire(estimatedTokens)
+        return task()
+      })
+    },
+    recordSuccess(snapshot) {
+      if (snapshot) {
+        const now = clock.now()
+        if (snapshot.limitRequests) {
+          requests.capacity = snapshot.limitRequests
+        }
+        if (snapshot.limitTokens) tokens.capacity = snapshot.limitTokens
+        if (snapshot.remainingRequests !== undefined) {
+          refill(requests, now)
+          requests.level = Math.min(requests.level, snapshot.remainingRequests)
+        }
+        if (snapshot.remainingTokens !== undefined) {
+          refill(tokens, now)
+          tokens.level = Math.min(tokens.level, snapshot.remainingTokens)
+        }
+        if (snapshot.remainingRequests === 0 && snapshot.resetRequestsMs) {
+          pausedUntil = Math.max(pausedUntil, now + snapshot.resetRequestsMs)
+        }
+        if (snapshot.remainingTokens === 0 && snapshot.resetTokensMs) {
+          pausedUntil = Math.max(pausedUntil, now + snapshot.resetTokensMs)
+        }
+      }
+
+      successStreak++
+      if (
+        successStreak >= limit.concurrency &&
+        limit.concurrency < config.maxConcurrency
+      ) {
+        limit.concurrency += 1
+        successStreak = 0
+      }
+    },
+    recordRateLimited(retryAfterMs = DEFAULT_RATE_LIMIT_PAUSE_MS) {
+      const previous = limit.concurrency
+      limit.concurrency = Math.max(1, Math.floor(previous / 2))
+      successStreak = 0
+      pausedUntil = Math.max(pausedUntil, clock.now() + retryAfterMs)
+      console.warn(
+        `⚠️  Rate limited on ${model}: concurrency ${previous} → ${
+          limit.concurrency
+        }, pausing ${(retryAfterMs / 1000).toFixed(1)}s`
+      )
+    },
+  }
+}
+
+export {
+  createRateLimiter,
+  getRateLimitConfig,
+  classifyError,
+  parseRateLimitHeaders,
+  parseRetryAfter,
+  RateLimiter,
+  RateLimitConfig,
+  RateLimitSnapshot,
+  ErrorClassification,
+  Clock,
+}
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, describe, it } from 'node:test'
+import { zodResponseFormat } from 'openai/helpers/zod'
+import { z } from 'zod'
+import { ModelProvider, PredictionRequest } from './model_provider'
+import { withResponseCache } from './response_cache'
+
+const request: PredictionRequest = {
+  model: 'gpt-4o',
+  messages: [{ role: 'user', content: 'Trimbach, petrol and lime' }],
+  responseFormat: zodResponseFormat(
+    z.object({ variety: z.enum(['Riesling', 'Merlot']) }),
+    'wine_variety'
+  ),
+}
+
+// Provider answering a fixed label and counting its calls
+function createCountingProvider(name: string, variety: string) {
+  const provider: ModelProvider & { calls: number } = {
+    name,
+    calls: 0,
+    async complete() {
+      provider.calls++
+      return { parsed: { variety }, refusal: null }
+    },
+  }
+  return provider
+}
+
+describe('withResponseCache', () => {
+  let dir: string
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'response-cache-'))
+  })
+  after(() => fs.rmSync(dir, { recursive: true, force: true }))
+
+  it('answers a repeated request from the cache', async () => {
+    const inner = createCountingProvider('openai', 'Riesling')
+    const cached = withResponseCache(inner, { dir, mode: 'use' })
+
+    await cached.complete(request)
+    const response = await cached.complete(request)
+
+    assert.equal(inner.calls, 1)
+    assert.equal(response.fromCache, true)
+    assert.deepEqual(cached.cacheStats, { hits: 1, misses: 1, writes: 1 })
+  })
+
+  it('keeps the answers of different providers apart', async () => {
+    const fake = withResponseCache(createCountingProvider('fake', 'Merlot'), {
+      dir,
+      mode: 'use',
+    })
+    await fake.complete({ ...request, model: 'gpt-4o-mini' })
+
+    const openai = createCountingProvider('openai', 'Riesling')
+    const response = await withResponseCache(openai, {
+      dir,
+      mode: 'use',
+    }).complete({ ...request, model: 'gpt-4o-mini' })
+
+    assert.equal(openai.calls, 1)
+    assert.deepEqual(response.parsed, { variety: 'Riesling' })
+  })
+
+  it('sends stored completions to the model every time', async () => {
+    const inner = createCountingProvider('openai', 'Riesling')
+    const cached = withResponseCache(inner, { dir, mode: 'use' })
+    const stored = {
+      ...request,
+      model: 'gpt-4o-2024-08-06',
+      store: true,
+      metadata: { purpose: 'wine_variety' },
+    }
+
+    await cached.complete(stored)
+    await cached.complete(stored)
+
+    assert.equal(inner.calls, 2)
+    assert.deepEqual(cached.cacheStats, { hits: 0, misses: 0, writes: 0 })
+  })
+})
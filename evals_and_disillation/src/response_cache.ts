@@ -0,0 +1,166 @@
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import {
+  ModelProvider,
+  PredictionRequest,
+  PredictionResponse,
+} from './model_provider'
+
+// Default directory for cached responses
+const cacheDir = './data/cache'
+
+// use: read and write the cache, bypass: ignore it entirely,
+// refresh: always call the model and overwrite existing entries
+type CacheMode = 'use' | 'bypass' | 'refresh'
+
+interface CacheStats {
+  hits: number
+  misses: number
+  writes: number
+}
+
+interface CachedModelProvider extends ModelProvider {
+  cacheStats: CacheStats
+}
+
+interface ResponseCacheOptions {
+  dir?: string
+  mode?: CacheMode
+}
+
+// Hash of the JSON schema sent as response_format
+// Changing the label list or field descriptions therefore changes the cache key
+function hashResponseSchema(responseFormat: any): string {
+  return crypto
+    .createHash('sha256')
+    .update(
+      JSON.stringify(responseFormat?.json_schema ?? responseFormat ?? null)
+    )
+    .digest('hex')
+}
+
+// Content-addressed key: provider, model name, full message list and schema
+// hash, plus the sampling and logprobs settings when set. The provider keeps
+// fake or replayed answers from being served to real runs
+function getCacheKey(
+  provider: string,
+  {
+    model,
+    messages,
+    responseFormat,
+    temperature,
+    n,
+    logprobs,
+  }: PredictionRequest
+): string {
+  return crypto
+    .createHash('sha256')
+    .update(
+      JSON.stringify({
+        provider,
+        model,
+        messages,
+        schema: hashResponseSchema(responseFormat),
+        temperature,
+        n,
+        logprobs,
+      })
+    )
+    .digest('hex')
+}
+
+function getCachePath(dir: string, key: string): string {
+  return path.join(dir, key.slice(0, 2), `${key}.json`)
+}
+
+function isCacheMode(value: string): value is CacheMode {
+  return ['use', 'bypass', 'refresh'].includes(value)
+}
+
+// Wraps a provider with an on-disk response cache
+// Only parsed answers are cached; refusals and errors always reach the model again.
+// Stored completions (store/metadata set, e.g. teacher answers for
+// distillation) always go to the model so they are stored on OpenAI's side
+function withResponseCache(
+  inner: ModelProvider,
+  {
+    dir = process.env.RESPONSE_CACHE_DIR || cacheDir,
+    mode = (process.env.RESPONSE_CACHE as CacheMode) || 'use',
+  }: ResponseCacheOptions = {}
+): CachedModelProvider {
+  if (!isCacheMode(mode)) {
+    throw new Error(
+      `Unknown response cache mode "${mode}" (expected use, bypass or refresh)`
+    )
+  }
+
+  const cacheStats: CacheStats = { hits: 0, misses: 0, writes: 0 }
+
+  return {
+    name: mode === 'bypass' ? inner.name : `cached(${inner.name})`,
+    cacheStats,
+    async complete(request) {
+      if (mode === 'bypass' || request.store || request.metadata) {
+        return inner.complete(request)
+      }
+
+      const filePath = getCachePath(dir, getCacheKey(inner.name, request))
+
+      if (mode === 'use' && fs.existsSync(filePath)) {
+        cacheStats.hits++
+        const entry = JSON.parse(await fs.promises.readFile(filePath, 'utf8'))
+        return { ...(entry.response as PredictionResponse), fromCache: true }
+      }
+
+      cacheStats.misses++
+      const response = await inner.complete(request)
+
+      if (response.parsed) {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.promises.writeFile(
+          filePath,
+          JSON.stringify({
+            model: request.model,
+            createdAt: new Date().toISOString(),
+            response,
+          })
+        )
+        cacheStats.writes++
+      }
+      return response
+    },
+  }
+}
+
+function isCachedProvider(
+  provider: ModelProvider
+): provider is CachedModelProvider {
+  return 'cacheStats' in provider
+}
+
+// Formats cache statistics for the run log
+function formatCacheStats({ hits, misses, writes }: CacheStats): string {
+  const total = hits + misses
+  const hitRate = total ? ((hits / total) * 100).toFixed(1) : '0.0'
+  return `${hits} hits, ${misses} misses (${hitRate}% hit rate), ${writes} entries written`
+}
+
+// Deletes every cached response
+async function clearResponseCache(
+  dir: string = process.env.RESPONSE_CACHE_DIR || cacheDir
+): Promise<void> {
+  await fs.promises.rm(dir, { recursive: true, force: true })
+}
+
+export {
+  withResponseCache,
+  isCacheMode,
+  isCachedProvider,
+  formatCacheStats,
+  clearResponseCache,
+  hashResponseSchema,
+  CacheMode,
+  CacheStats,
+  CachedModelProvider,
+}
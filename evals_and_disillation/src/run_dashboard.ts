@@ -0,0 +1,222 @@
+import { FailureClass } from './prediction_results'
+import { LoggedRunEvent, RunEventListener } from './run_events'
+
+// Progress of one model and prompt on one dataset, built from run events
+interface SectionProgress {
+  dataset: string
+  model: string
+  promptId: string
+  execution: 'sync' | 'batch'
+  total: number
+  completed: number
+  completedAtStart: number // Predicted by an earlier process
+  startedAt: number
+  finished: boolean
+  failures: Partial<Record<FailureClass, number>>
+  retries: number
+  correct: number
+  scored: number // Answers checked against the label
+  batchStatus?: string // Latest Batch API status (batch execution only)
+}
+
+interface RunDashboard {
+  listener: RunEventListener
+  stop(): void // Erases the view and stops redrawing
+}
+
+// Shortest time between two redraws
+const RENDER_INTERVAL_MS = 250
+
+const BAR_WIDTH = 20
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60)
+    return `${minutes}m${String(seconds % 60).padStart(2, '0')}s`
+  return `${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, '0')}m`
+}
+
+const sectionName = (section: SectionProgress) =>
+  `${section.model}${section.promptId === 'default' ? '' : `@${section.promptId}`}`
+
+function formatSection(
+  section: SectionProgress,
+  nameWidth: number,
+  now: number
+): string {
+  const share = section.total ? section.completed / section.total : 1
+  const filled = Math.round(share * BAR_WIDTH)
+  const parts = [
+    `${section.finished ? '✓' : '›'} ${sectionName(section).padEnd(nameWidth)}`,
+    `${'█'.repeat(filled)}${'░'.repeat(BAR_WIDTH - filled)}`,
+    `${section.completed}/${section.total}`.padStart(
+      String(section.total).length * 2 + 1
+    ),
+    `${(share * 100).toFixed(1).padStart(5)}%`,
+  ]
+
+  const done = section.completed - section.completedAtStart
+  const elapsed = now - section.startedAt
+  if (section.execution === 'batch' && !section.finished) {
+    parts.push(`batch ${section.batchStatus ?? 'submitting'}`)
+  } else if (done > 0 && elapsed > 0) {
+    const rate = done / (elapsed / 1000)
+    parts.push(`${rate.toFixed(1)} req/s`)
+    if (!section.finished) {
+      parts.push(
+        `ETA ${formatDuration(((section.total - section.completed) / rate) * 1000)}`
+      )
+    }
+  }
+
+  const failures = Object.entries(section.failures)
+  const failed = failures.reduce((sum, [, count]) => sum + count!, 0)
+  parts.push(
+    `errors ${failed}${
+      failed
+        ? ` (${failures.map(([name, count]) => `${name} ${count}`).join(', ')})`
+        : ''
+    }`
+  )
+  if (section.retries) parts.push(`retries ${section.retries}`)
+  if (section.scored) {
+    parts.push(`acc ${((section.correct / section.scored) * 100).toFixed(1)}%`)
+  }
+  return parts.join('  ')
+}
+
+// Live view of the predictions in progress: per-model progress, ETA, request
+// rate, error counts and running (exact match) accuracy. It is redrawn below
+// the regular output: writes to stdout and stderr erase the view first and
+// schedule a redraw, so log lines never get mixed into it
+function createRunDashboard(
+  stream: NodeJS.WriteStream = process.stderr
+): RunDashboard {
+  const sections = new Map<string, SectionProgress>()
+  const outputs = [process.stdout, process.stderr]
+  const originalWrites = outputs.map((output) => output.write)
+  const write = stream.write.bind(stream)
+  let runId = ''
+  let runStartedAt = Date.now()
+  let currentDataset: string | undefined
+  let renderedLines = 0
+  let timer: NodeJS.Timeout | undefined
+  let stopped = false
+
+  const erase = () => {
+    if (renderedLines) write(`\x1b[${renderedLines}A\x1b[0J`)
+    renderedLines = 0
+  }
+
+  const render = () => {
+    timer = undefined
+    const now = Date.now()
+    const visible = [...sections.values()].filter(
+      ({ dataset }) => dataset === currentDataset
+    )
+    erase()
+    if (stopped || !visible.some(({ finished }) => !finished)) return
+
+    const width = stream.columns || 120
+    const lines = [
+      `── Run ${runId} · ${currentDataset} · ${formatDuration(
+        now - runStartedAt
+      )} elapsed`,
+      ...visible.map((section) =>
+        formatSection(
+          section,
+          Math.max(...visible.map((other) => sectionName(other).length)),
+          now
+        )
+      ),
+    ].map((line) => (line.length > width - 1 ? line.slice(0, width - 1) : line))
+    write(lines.join('\n') + '\n')
+    renderedLines = lines.length
+  }
+
+  const scheduleRender = () => {
+    if (!stopped && !timer) {
+      timer = setTimeout(render, RENDER_INTERVAL_MS)
+      timer.unref()
+    }
+  }
+
+  // Other output goes above the view
+  outputs.forEach((output, i) => {
+    output.write = ((...args: Parameters<typeof output.write>) => {
+      erase()
+      const result = originalWrites[i].apply(output, args)
+      scheduleRender()
+      return result
+    }) as typeof output.write
+  })
+
+  // Keeps elapsed time and ETA moving between events
+  const ticker = setInterval(scheduleRender, 1000)
+  ticker.unref()
+
+  const listener: RunEventListener = (event: LoggedRunEvent) => {
+    if (event.type === 'run_start') {
+      runId = event.runId
+      runStartedAt = Date.now() - event.elapsedMs
+    }
+    if (!('model' in event)) return
+    const key = `${event.dataset}/${event.model}/${event.promptId}`
+
+    if (event.type === 'predictions_start') {
+      currentDataset = event.dataset
+      sections.set(key, {
+        dataset: event.dataset,
+        model: event.model,
+        promptId: event.promptId,
+        execution: event.execution,
+        total: event.total,
+        completed: event.completed,
+        completedAtStart: event.completed,
+        startedAt: Date.now(),
+        finished: false,
+        failures: {},
+        retries: 0,
+        correct: 0,
+        scored: 0,
+      })
+    }
+    const section = sections.get(key)
+    if (!section) return
+
+    if (event.type === 'request') {
+      section.completed++
+      if (event.correct !== null) {
+        section.scored++
+        if (event.correct) section.correct++
+      }
+    } else if (event.type === 'failure') {
+      section.failures[event.errorClass] =
+        (section.failures[event.errorClass] ?? 0) + 1
+    } else if (event.type === 'retry') {
+      section.retries++
+    } else if (event.type === 'batch_status') {
+      section.batchStatus = event.status
+    } else if (event.type === 'predictions_end') {
+      section.finished = true
+    }
+    scheduleRender()
+  }
+
+  return {
+    listener,
+    stop() {
+      stopped = true
+      clearInterval(ticker)
+      if (timer) clearTimeout(timer)
+      erase()
+      outputs.forEach((output, i) => {
+        output.write = originalWrites[i]
+      })
+    },
+  }
+}
+
+export { createRunDashboard, RunDashboard }
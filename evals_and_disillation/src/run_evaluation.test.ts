@@ -0,0 +1,156 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, describe, it, mock } from 'node:test'
+import { createFakeProvider, ModelProvider } from './model_provider'
+import { loadPredictionsFile } from './prediction_results'
+import { retryFailedRecords, runEvaluation } from './run_evaluation'
+import { getPredictionsFilePath } from './step2_get_output'
+
+const startDir = process.cwd()
+let dir: string
+
+// A four-record task in a temporary directory; runs go to its data/
+before(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'evaluation-'))
+  fs.mkdirSync(path.join(dir, 'data'))
+  fs.writeFileSync(
+    path.join(dir, 'wines.csv'),
+    [
+      'winery,description,variety',
+      'Trimbach,Petrol and lime like a Riesling,Riesling',
+      'Drouhin,Cherry and forest floor like a Pinot Noir,Pinot Noir',
+      'Petrus,Plum and cedar like a Merlot,Merlot',
+      'Egon Müller,Slate and peach like a Riesling,Riesling',
+    ].join('\n')
+  )
+  fs.writeFileSync(
+    path.join(dir, 'task.json'),
+    JSON.stringify({
+      name: 'wine_test',
+      datasets: { train: 'wines.csv', validation: 'wines.csv' },
+      inputColumns: ['winery', 'description'],
+      labelColumn: 'variety',
+      labels: ['Riesling', 'Pinot Noir', 'Merlot'],
+      systemPrompt: 'You are a sommelier.',
+      promptTemplate: '{{winery}}: {{description}}. Choose from {{labels}}.',
+      answerField: 'variety',
+      displayColumn: 'winery',
+    })
+  )
+  process.chdir(dir)
+  mock.method(console, 'log', () => {})
+  mock.method(console, 'warn', () => {})
+})
+after(() => {
+  process.chdir(startDir)
+  mock.restoreAll()
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+// Fake provider that records the wineries it was asked about and refuses
+// the ones listed
+function createTrackingProvider(refused: string[] = []) {
+  const fake = createFakeProvider()
+  const asked: string[] = []
+  const provider: ModelProvider = {
+    name: 'fake',
+    async complete(request) {
+      const prompt = String(request.messages.at(-1)?.content)
+      const winery = prompt.slice(0, prompt.indexOf(':'))
+      asked.push(winery)
+      return refused.includes(winery)
+        ? { parsed: null, refusal: 'I cannot tell', content: null }
+        : fake.complete(request)
+    },
+  }
+  return { provider, asked }
+}
+
+// Runs gpt-4o on every validation record, refusing the wineries listed
+async function runWithRefusals(refused: string[]) {
+  const { runId } = await runEvaluation({
+    task: path.join(dir, 'task.json'),
+    models: ['gpt-4o'],
+    datasets: ['validation'],
+    numSamples: -1,
+    sampling: { strategy: 'first' },
+    provider: createTrackingProvider(refused).provider,
+    skipAnalysis: true,
+  })
+  return {
+    runId,
+    filePath: getPredictionsFilePath('gpt-4o', 'validation', runId),
+  }
+}
+
+describe('retryFailedRecords', () => {
+  it('replaces failed lines with the latest successful answer', async () => {
+    const { runId, filePath } = await runWithRefusals(['Drouhin', 'Petrus'])
+
+    const retry = createTrackingProvider()
+    const stillFailed = await retryFailedRecords(runId, {
+      provider: retry.provider,
+      skipAnalysis: true,
+    })
+
+    assert.equal(stillFailed, 0)
+    assert.deepEqual(retry.asked.sort(), ['Drouhin', 'Petrus'])
+    const { records } = await loadPredictionsFile(filePath)
+    assert.deepEqual(
+      records.map(({ recordId, prediction, errorClass }) => ({
+        recordId,
+        prediction,
+        errorClass,
+      })),
+      [
+        { recordId: 0, prediction: 'Riesling', errorClass: null },
+        { recordId: 1, prediction: 'Pinot Noir', errorClass: null },
+        { recordId: 2, prediction: 'Merlot', errorClass: null },
+        { recordId: 3, prediction: 'Riesling', errorClass: null },
+      ]
+    )
+    // The file was rewritten to one header and one line per record
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n')
+    assert.equal(lines.length, 5)
+  })
+
+  it('keeps records that fail again and counts them', async () => {
+    const { runId, filePath } = await runWithRefusals(['Drouhin', 'Petrus'])
+
+    const retry = createTrackingProvider(['Petrus'])
+    const stillFailed = await retryFailedRecords(runId, {
+      provider: retry.provider,
+      skipAnalysis: true,
+    })
+
+    assert.equal(stillFailed, 1)
+    const { records } = await loadPredictionsFile(filePath)
+    assert.deepEqual(
+      records.map(({ recordId, errorClass }) => [recordId, errorClass]),
+      [
+        [0, null],
+        [1, null],
+        [2, 'refusal'],
+        [3, null],
+      ]
+    )
+    assert.equal(fs.readFileSync(filePath, 'utf8').trim().split('\n').length, 5)
+
+    // Nothing left to retry once every record is answered
+    await retryFailedRecords(runId, {
+      provider: createTrackingProvider().provider,
+      skipAnalysis: true,
+    })
+    const again = createTrackingProvider()
+    assert.equal(
+      await retryFailedRecords(runId, {
+        provider: again.provider,
+        skipAnalysis: true,
+      }),
+      0
+    )
+    assert.deepEqual(again.asked, [])
+  })
+})
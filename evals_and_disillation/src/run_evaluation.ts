@@ -1,98 +1,888 @@
+import path from 'path'
 import {
   runPredictions,
-  trainDataPath,
-  validationDataPath,
+  planPredictions,
+  getPredictionsFilePath,
+  PlannedRequests,
+  PredictionExecution,
 } from './step2_get_output'
 import { analyzePredictions, AnalysisFiles } from './step3_analyze_results'
+import {
+  findPredictionsFile,
+  findRunPredictionFiles,
+  loadPredictionsFile,
+  rewritePredictionsFile,
+} from './prediction_results'
+import { createModelProvider, ModelProvider } from './model_provider'
+import { withResponseCache } from './response_cache'
+import { createRunDashboard } from './run_dashboard'
+import { createRunEventLog, RunEvent } from './run_events'
+import {
+  createRunManifest,
+  hasRunManifest,
+  loadRunManifest,
+  updateModelProgress,
+  saveSelectedRecordIds,
+  RunManifest,
+} from './run_manifest'
+import {
+  defaultTaskPath,
+  getDatasetPath,
+  inspectTaskRows,
+  loadTaskDefinition,
+  loadTaskMatcher,
+  loadTaskRecords,
+  TaskDefinition,
+} from './task_definition'
+import { LabelMatcher } from './label_matcher'
+import { createScorers, Scorer } from './scorers'
+import { SelfConsistencyConfig } from './self_consistency'
+import {
+  createRunId,
+  finishRun,
+  recordRunMetrics,
+  registerRun,
+  RunRegistryEntry,
+} from './run_registry'
+import {
+  buildPromptMatrix,
+  logPromptMatrix,
+  savePromptMatrix,
+} from './prompt_matrix'
+import {
+  countStrata,
+  describeSampling,
+  legacySampling,
+  resolveSamplingConfig,
+  selectRecordIds,
+  SamplingConfig,
+  SamplingOptions,
+} from './sampling'
 
 // Configuration interface for the evaluation process
 interface EvaluationConfig {
-  comparisonModel: string // Model to compare against base model
+  models?: string[] // Models to evaluate; the reference model is added if missing
+  referenceModel?: string // Model the others are compared against (defaults to the first model, or gpt-4o)
+  comparisonModel?: string // Shorthand for models: [referenceModel, comparisonModel]
+  task?: string // Path to the task definition file
+  prompts?: string[] // Prompt variants to evaluate with every model (defaults to the task's default prompt)
   numSamples?: number // Number of samples to process (-1 for all)
+  sampling?: SamplingOptions // How the samples are picked (defaults to stratified by label, seed 42)
+  sampleFrom?: string // Run whose record selection (and sample settings) is reused
   datasets?: ('train' | 'validation')[] // Which datasets to evaluate
+  provider?: ModelProvider // Model backend (defaults to MODEL_PROVIDER env var, cached per RESPONSE_CACHE)
+  execution?: PredictionExecution // Send requests one by one (sync, the default) or through the Batch API
+  selfConsistency?: SelfConsistencyConfig // Majority vote over k sampled answers per record
+  logprobs?: boolean // Record each answer's confidence from token logprobs, for calibration analysis
+  resumeRunId?: string // Continue an interrupted run instead of starting a new one
+  compareTo?: string // Previous run ID to diff against in the HTML report
+  skipAnalysis?: boolean // Only generate predictions; analyze later with analyzeRun
+  dashboard?: boolean // Show the live progress view (the event log is always written)
+}
+
+// Settings shared by the analysis of every dataset of a run
+interface AnalysisContext {
+  runId: string
+  task: TaskDefinition
+  taskPath: string
+  models: string[]
+  referenceModel: string
+  prompts: string[]
+  numSamples: number
+  sampling: SamplingConfig
+  providerName: string
+  matcher: LabelMatcher
+  scorers: Scorer[]
+  compareTo?: string
+  reportOnly?: boolean
+  registryEntry: RunRegistryEntry
+}
+
+// The reference model always comes first and is never evaluated twice
+function resolveModels(
+  requestedModels: string[] | undefined,
+  referenceModel: string,
+  comparisonModel: string
+): string[] {
+  return [
+    referenceModel,
+    ...(requestedModels ?? [comparisonModel]).filter(
+      (model) => model !== referenceModel
+    ),
+  ]
+}
+
+// Analyzes one dataset of a run, once per prompt variant, and records the
+// metrics and output files in the run registry
+async function analyzeDataset(
+  context: AnalysisContext,
+  dataset: 'train' | 'validation'
+) {
+  const {
+    runId,
+    task,
+    taskPath,
+    models,
+    referenceModel,
+    prompts,
+    compareTo,
+    registryEntry,
+  } = context
+  const datasetName = dataset === 'train' ? 'Training' : 'Validation'
+
+  const sourceRecords = await loadTaskRecords(
+    task,
+    getDatasetPath(task, dataset)
+  )
+  for (const promptId of prompts) {
+    const baselineFiles = compareTo
+      ? models
+          .map((model) =>
+            getPredictionsFilePath(model, dataset, compareTo, promptId)
+          )
+          .filter((file) => findPredictionsFile(file))
+      : undefined
+    if (compareTo && !baselineFiles?.length) {
+      console.warn(
+        `Warning: run ${compareTo} has no ${dataset} predictions for these models${
+          promptId === 'default' ? '' : ` with prompt ${promptId}`
+        }`
+      )
+    }
+
+    // Every output of this analysis is named after its dataset, prompt and run
+    const outputName = `${dataset}${
+      promptId === 'default' ? '' : `_${promptId}`
+    }_${runId}`
+    const files: AnalysisFiles = {
+      modelFiles: models.map((model) =>
+        getPredictionsFilePath(model, dataset, runId, promptId)
+      ),
+      referenceModelFile: getPredictionsFilePath(
+        referenceModel,
+        dataset,
+        runId,
+        promptId
+      ),
+      matcher: context.matcher,
+      scorers: context.scorers,
+      sourceRecords,
+      reportOnly: context.reportOnly,
+      outputName,
+      report: {
+        filePath: `./data/report_${outputName}.html`,
+        title: `${task.name} evaluation: ${datasetName} set, run ${runId}`,
+        config: {
+          Task: `${task.name} (${taskPath})`,
+          Dataset: dataset,
+          Prompt: promptId,
+          'Reference model': referenceModel,
+          Models: models.join(', '),
+          'Number of samples': context.numSamples,
+          Sampling: describeSampling(context.sampling),
+          'Model provider': context.providerName,
+          'Run ID': runId,
+          ...(compareTo ? { 'Compared to': compareTo } : {}),
+        },
+        baselineRunId: compareTo,
+        baselineFiles,
+      },
+    }
+
+    console.log(
+      `\nAnalyzing ${datasetName} results${
+        prompts.length > 1 ? ` (prompt: ${promptId})` : ''
+      }...`
+    )
+    const { results, files: outputFiles } = await analyzePredictions(files)
+    await recordRunMetrics(registryEntry, dataset, promptId, results, [
+      ...files.modelFiles,
+      ...outputFiles,
+    ])
+  }
+
+  // Prompt matrix runs also get a prompt-by-model accuracy grid
+  if (prompts.length > 1 && !context.reportOnly) {
+    const matrix = await buildPromptMatrix(
+      prompts.flatMap((promptId) =>
+        models.map((model) => ({
+          promptId,
+          model,
+          file: getPredictionsFilePath(model, dataset, runId, promptId),
+        }))
+      )
+    )
+    logPromptMatrix(matrix)
+    const matrixFile = await savePromptMatrix(matrix, dataset, runId)
+    console.log(`Prompt matrix saved to ${matrixFile}`)
+    if (!registryEntry.files.includes(matrixFile)) {
+      registryEntry.files.push(matrixFile)
+    }
+  }
+}
+
+// Records a dataset is evaluated on: the selection saved with the run (or with
+// the run it was copied from), otherwise a new sample with the run's strategy
+async function selectDatasetRecords(
+  task: TaskDefinition,
+  dataset: 'train' | 'validation',
+  numSamples: number,
+  sampling: SamplingConfig,
+  savedRecordIds?: number[]
+): Promise<number[]> {
+  const { rows } = await inspectTaskRows(task, getDatasetPath(task, dataset))
+  const recordIds =
+    savedRecordIds ?? selectRecordIds(task, rows, numSamples, sampling)
+
+  const column = sampling.stratifyBy ?? task.labelColumn
+  const coverage =
+    sampling.strategy === 'stratified'
+      ? `, ${countStrata(
+          task,
+          recordIds.map((recordId) => rows[recordId]).filter(Boolean),
+          column
+        )} of ${countStrata(task, rows, column)} ${column} values`
+      : ''
+  console.log(
+    `🎯 Sample: ${recordIds.length} of ${rows.length} records, ${describeSampling(
+      sampling
+    )}${coverage}${savedRecordIds ? ' (saved selection)' : ''}`
+  )
+  if (numSamples !== -1 && recordIds.length > numSamples) {
+    console.log(
+      `   Per-class minimums added ${recordIds.length - numSamples} records`
+    )
+  }
+  return recordIds
+}
+
+// Opens the event log of a run, with the live dashboard listening when asked
+// for, and logs the start event. finish() logs the outcome and closes both
+function openRunEvents(
+  runId: string,
+  dashboard: boolean,
+  start: Extract<RunEvent, { type: 'run_start' }>
+) {
+  const view = dashboard ? createRunDashboard() : undefined
+  const events = createRunEventLog(runId, view ? [view.listener] : [])
+  events.emit(start)
+
+  const finish = async (error?: unknown) => {
+    events.emit({
+      type: 'run_complete',
+      status: error ? 'failed' : 'completed',
+      ...(error
+        ? { error: error instanceof Error ? error.message : String(error) }
+        : {}),
+    })
+    view?.stop()
+    await events.close()
+  }
+  return { events, finish }
 }
 
 // Main evaluation function that coordinates the entire evaluation pipeline
 // Handles both prediction generation and result analysis for multiple datasets
 async function runEvaluation({
-  comparisonModel,
-  numSamples = 3,
+  models: requestedModels,
+  referenceModel = requestedModels?.[0] ?? 'gpt-4o',
+  comparisonModel = 'gpt-4o-mini',
+  task: taskPath = defaultTaskPath,
+  prompts = ['default'],
+  numSamples: requestedSamples = 3,
+  sampling: samplingOptions,
+  sampleFrom,
   datasets = ['train', 'validation'],
+  provider = withResponseCache(createModelProvider()),
+  execution: requestedExecution = 'sync',
+  selfConsistency: requestedSelfConsistency,
+  logprobs: requestedLogprobs = false,
+  resumeRunId,
+  compareTo,
+  skipAnalysis = false,
+  dashboard = false,
 }: EvaluationConfig) {
+  // A resumed run reuses the file names, progress and records of the original
+  // run; a run with sampleFrom reuses the records of that run
+  const manifest = resumeRunId ? await loadRunManifest(resumeRunId) : null
+  const task = await loadTaskDefinition(taskPath)
+  const { numSamples, sampling, savedRecordIds } = resolveRunSample(
+    task,
+    manifest ?? (await loadSampleSource(sampleFrom, taskPath)),
+    requestedSamples,
+    samplingOptions
+  )
+  const matcher = await loadTaskMatcher(task)
+  // LLM judges go through the same provider (and response cache) as predictions
+  const scorers = await createScorers(task.scorers, provider, task.inputColumns)
+  const models = resolveModels(requestedModels, referenceModel, comparisonModel)
+
   // Determine if we should store completions (only for training with mini model)
-  const storeCompletions =
-    comparisonModel === 'gpt-4o-mini' && datasets.includes('train')
-  const timestamp = getRunTimestamp()
+  const storeCompletions = manifest
+    ? manifest.config.storeCompletions
+    : models.includes('gpt-4o-mini') && datasets.includes('train')
+  const execution = manifest
+    ? (manifest.config.execution ?? 'sync')
+    : requestedExecution
+  const selfConsistency = manifest
+    ? manifest.config.selfConsistency
+    : requestedSelfConsistency
+  const logprobs = manifest
+    ? Boolean(manifest.config.logprobs)
+    : requestedLogprobs
+  const timestamp = manifest ? manifest.runId : await createRunId()
+
+  const runManifest =
+    manifest ??
+    (await createRunManifest(
+      timestamp,
+      {
+        models,
+        referenceModel,
+        task: taskPath,
+        prompts,
+        numSamples,
+        sampling,
+        sampleFrom,
+        datasets,
+        storeCompletions,
+        provider: provider.name,
+        execution,
+        selfConsistency,
+        logprobs,
+        compareTo,
+      },
+      models
+    ))
+  const registryEntry = await registerRun(
+    timestamp,
+    runManifest.config,
+    Object.fromEntries(
+      datasets.map((dataset) => [dataset, getDatasetPath(task, dataset)])
+    )
+  )
 
   // Log configuration for transparency
   console.log(`Starting evaluation with following configuration:`)
-  console.log(`- Comparison model: ${comparisonModel}`)
+  console.log(`- Task: ${task.name} (${taskPath})`)
+  console.log(`- Reference model: ${referenceModel}`)
+  console.log(`- Models: ${models.join(', ')}`)
+  console.log(`- Prompts: ${prompts.join(', ')}`)
   console.log(`- Storing completions: ${storeCompletions}`)
   console.log(`- Number of samples: ${numSamples}`)
+  console.log(
+    `- Sampling: ${describeSampling(sampling)}${
+      sampleFrom ? ` (records of run ${sampleFrom})` : ''
+    }`
+  )
   console.log(`- Datasets: ${datasets.join(', ')}`)
-  console.log(`- Timestamp: ${timestamp}\n`)
+  console.log(`- Model provider: ${provider.name}`)
+  console.log(`- Execution: ${execution}`)
+  console.log(
+    `- Self-consistency: ${
+      selfConsistency
+        ? `${selfConsistency.samples} samples at temperature ${selfConsistency.temperature}`
+        : 'off'
+    }`
+  )
+  console.log(`- Logprob confidence: ${logprobs ? 'yes' : 'no'}`)
+  console.log(`- Run ID: ${timestamp}`)
+  console.log(`- Resuming: ${manifest ? 'yes' : 'no'}`)
+  console.log(`- Compare to: ${compareTo ?? 'none'}\n`)
+
+  const context: AnalysisContext = {
+    runId: timestamp,
+    task,
+    taskPath,
+    models,
+    referenceModel,
+    prompts,
+    numSamples,
+    sampling,
+    providerName: provider.name,
+    matcher,
+    scorers,
+    compareTo,
+    registryEntry,
+  }
+
+  const { events, finish } = openRunEvents(timestamp, dashboard, {
+    type: 'run_start',
+    command: manifest ? 'resume' : 'run',
+    config: runManifest.config,
+  })
+  console.log(`Logging run events to ${events.filePath}`)
 
   // Process each dataset (training and/or validation)
-  for (const dataset of datasets) {
-    const datasetPath = dataset === 'train' ? trainDataPath : validationDataPath
-    const datasetName = dataset === 'train' ? 'Training' : 'Validation'
+  // A failure is recorded in the run registry before it is rethrown
+  try {
+    for (const dataset of datasets) {
+      const datasetName = dataset === 'train' ? 'Training' : 'Validation'
 
-    console.log(`\n=== Processing ${datasetName} Dataset ===`)
+      console.log(`\n=== Processing ${datasetName} Dataset ===`)
 
-    // Step 2: Generate model predictions
-    await runPredictions(
-      datasetPath,
-      comparisonModel,
-      storeCompletions,
-      numSamples,
-      timestamp
+      // The selection is saved before any prediction so every model (and a
+      // resumed run) evaluates exactly the same records
+      const recordIds = await selectDatasetRecords(
+        task,
+        dataset,
+        numSamples,
+        sampling,
+        runManifest.sampleSelection.recordIds?.[dataset] ??
+          savedRecordIds[dataset]
+      )
+      await saveSelectedRecordIds(runManifest, dataset, recordIds)
+
+      // Step 2: Generate model predictions
+      await runPredictions({
+        task,
+        dataset,
+        models,
+        referenceModel,
+        storeCompletions,
+        numSamples,
+        recordIds,
+        timestamp,
+        prompts,
+        provider,
+        resume: Boolean(manifest),
+        execution,
+        selfConsistency,
+        logprobs,
+        events,
+        runConfig: runManifest.config,
+        onProgress: (model, promptId, completed, total) =>
+          updateModelProgress(
+            runManifest,
+            dataset,
+            promptId === 'default' ? model : `${model}@${promptId}`,
+            {
+              predictionsFile: getPredictionsFilePath(
+                model,
+                dataset,
+                timestamp,
+                promptId
+              ),
+              completed,
+              total,
+            }
+          ),
+      })
+
+      // Step 3: Compare and analyze results, once per prompt variant
+      if (!skipAnalysis) await analyzeDataset(context, dataset)
+    }
+  } catch (error) {
+    await finish(error)
+    await finishRun(registryEntry, 'failed', error)
+    throw error
+  }
+
+  await finish()
+  await finishRun(registryEntry, 'completed')
+  console.log(`\nRun ${timestamp} recorded in the run registry`)
+  return { runId: timestamp }
+}
+
+// Loads the run whose record selection a new run reuses
+async function loadSampleSource(
+  sampleFrom: string | undefined,
+  taskPath: string
+): Promise<RunManifest | null> {
+  if (!sampleFrom) return null
+  const source = await loadRunManifest(sampleFrom)
+  const sourceTask = source.config.task ?? defaultTaskPath
+  if (path.resolve(sourceTask) !== path.resolve(taskPath)) {
+    throw new Error(
+      `Run ${sampleFrom} evaluated ${sourceTask}; its records cannot be reused for ${taskPath}`
     )
+  }
+  return source
+}
 
-    // Step 3: Compare and analyze results
-    const files: AnalysisFiles = {
-      baseModelFile: `./data/predictions_gpt-4o_${dataset}_${timestamp}.csv`,
-      comparisonModelFile: `./data/predictions_${comparisonModel}_${dataset}_${timestamp}.csv`,
+// Sample size, strategy and saved record selections of a run: those of the
+// run it resumes or copies the records of, otherwise the requested ones
+function resolveRunSample(
+  task: TaskDefinition,
+  source: RunManifest | null,
+  numSamples: number,
+  samplingOptions?: SamplingOptions
+) {
+  if (source) {
+    return {
+      numSamples: source.config.numSamples,
+      sampling: source.config.sampling ?? legacySampling,
+      savedRecordIds: source.sampleSelection.recordIds ?? {},
     }
+  }
+  return {
+    numSamples,
+    sampling: resolveSamplingConfig(task, samplingOptions),
+    savedRecordIds: {} as Record<string, number[]>,
+  }
+}
 
-    console.log(`\nAnalyzing ${datasetName} results...`)
-    await analyzePredictions(files)
+// Continues an interrupted run with the configuration stored in its manifest
+// Records already present in the prediction files are skipped
+async function resumeEvaluation(
+  runId: string,
+  provider?: ModelProvider,
+  skipAnalysis?: boolean,
+  dashboard?: boolean
+) {
+  const manifest = await loadRunManifest(runId)
+  return runEvaluation({
+    ...manifest.config,
+    provider,
+    resumeRunId: runId,
+    skipAnalysis,
+    dashboard,
+  })
+}
+
+// Models, task and prompts of an existing run, with the defaults of manifests
+// written before model lists, task definitions and prompt variants
+function getRunSettings(config: RunManifest['config']) {
+  const referenceModel = config.referenceModel ?? 'gpt-4o'
+  return {
+    taskPath: config.task ?? defaultTaskPath,
+    referenceModel,
+    models: resolveModels(
+      config.models,
+      referenceModel,
+      config.comparisonModel ?? 'gpt-4o-mini'
+    ),
+    prompts: config.prompts ?? ['default'],
   }
 }
 
-// Generates a consistent timestamp format for file naming
-// Format: MM-DD-HH-mm (month-day-hour-minute)
-function getRunTimestamp(): string {
-  const now = new Date()
-  return `${String(now.getMonth() + 1).padStart(2, '0')}-${String(
-    now.getDate()
-  ).padStart(2, '0')}-${String(now.getHours()).padStart(2, '0')}-${String(
-    now.getMinutes()
-  ).padStart(2, '0')}`
+// Analyzes the predictions of an existing run (e.g. one made with
+// skipAnalysis); with reportOnly it only rewrites the HTML reports
+async function analyzeRun(
+  runId: string,
+  {
+    datasets,
+    compareTo,
+    reportOnly = false,
+    provider = withResponseCache(createModelProvider()),
+  }: {
+    datasets?: ('train' | 'validation')[]
+    compareTo?: string
+    reportOnly?: boolean
+    provider?: ModelProvider
+  } = {}
+) {
+  if (!hasRunManifest(runId)) {
+    return analyzeLegacyRun(runId, {
+      datasets,
+      compareTo,
+      reportOnly,
+      provider,
+    })
+  }
+
+  const { config } = await loadRunManifest(runId)
+  const { taskPath, referenceModel, models, prompts } = getRunSettings(config)
+  const task = await loadTaskDefinition(taskPath)
+  const registryEntry = await registerRun(
+    runId,
+    config,
+    Object.fromEntries(
+      config.datasets.map((dataset) => [dataset, getDatasetPath(task, dataset)])
+    )
+  )
+
+  const context: AnalysisContext = {
+    runId,
+    task,
+    taskPath,
+    models,
+    referenceModel,
+    prompts,
+    numSamples: config.numSamples,
+    sampling: config.sampling ?? legacySampling,
+    providerName: config.provider,
+    matcher: await loadTaskMatcher(task),
+    // Scores are not part of the report, so report-only runs skip the judges
+    scorers: reportOnly
+      ? []
+      : await createScorers(task.scorers, provider, task.inputColumns),
+    compareTo: compareTo ?? config.compareTo,
+    reportOnly,
+    registryEntry,
+  }
+
+  try {
+    for (const dataset of datasets ?? config.datasets) {
+      if (!config.datasets.includes(dataset)) {
+        throw new Error(`Run ${runId} has no ${dataset} predictions`)
+      }
+      await analyzeDataset(context, dataset)
+    }
+  } catch (error) {
+    await finishRun(registryEntry, 'failed', error)
+    throw error
+  }
+  await finishRun(registryEntry, 'completed')
 }
 
-// CLI handler for running evaluations from command line
-// Usage: ts-node run_evaluation.ts <model> <datasets> <numSamples>
-// Example: ts-node run_evaluation.ts gpt-4o-mini train,validation -1
-if (import.meta.url === new URL(import.meta.url).href) {
-  const model = process.argv[2] || 'gpt-4o-mini'
-  const datasetsArg = process.argv[3] || 'train,validation'
-  const numSamples = parseInt(process.argv[4]) || 3
+// Analyzes the prediction files of a run made before run manifests, one
+// dataset at a time; such runs compared gpt-4o against the other models
+async function analyzeLegacyRun(
+  runId: string,
+  {
+    datasets,
+    compareTo,
+    reportOnly,
+    provider,
+  }: {
+    datasets?: ('train' | 'validation')[]
+    compareTo?: string
+    reportOnly: boolean
+    provider: ModelProvider
+  }
+) {
+  const runFiles = await findRunPredictionFiles(runId)
+  if (!runFiles.length) {
+    throw new Error(
+      `Run ${runId} has no run manifest and no prediction files in ./data`
+    )
+  }
+  if (compareTo) {
+    throw new Error(
+      `Run ${runId} has no run manifest, so it cannot be compared to another run`
+    )
+  }
 
-  if (!model) {
-    console.error('Please provide a comparison model name')
-    process.exit(1)
+  const runDatasets = [...new Set(runFiles.map(({ dataset }) => dataset))]
+  for (const dataset of datasets ?? runDatasets) {
+    const files = runFiles
+      .filter((file) => file.dataset === dataset)
+      .sort(
+        (a, b) => Number(b.model === 'gpt-4o') - Number(a.model === 'gpt-4o')
+      )
+    if (!files.length) {
+      throw new Error(`Run ${runId} has no ${dataset} predictions`)
+    }
+    await analyzePredictionFiles(
+      files.map(({ filePath }) => filePath),
+      {
+        dataset: dataset as 'train' | 'validation',
+        outputName: `${dataset}_${runId}`,
+        reportOnly,
+        provider,
+      }
+    )
   }
+}
 
-  const datasets = datasetsArg.split(',') as ('train' | 'validation')[]
+// Analyzes any prediction files, outside of the run registry; the first file
+// is the reference model. `dataset` is the source dataset of the predictions,
+// which the scorers and the report look records up in
+async function analyzePredictionFiles(
+  modelFiles: string[],
+  {
+    task: taskPath = defaultTaskPath,
+    dataset,
+    outputName,
+    reportOnly = false,
+    provider = withResponseCache(createModelProvider()),
+  }: {
+    task?: string
+    dataset?: 'train' | 'validation'
+    outputName?: string
+    reportOnly?: boolean
+    provider?: ModelProvider
+  } = {}
+) {
+  const task = await loadTaskDefinition(taskPath)
+  const name = outputName ?? `${dataset ?? 'files'}_${await createRunId()}`
+  const fileNames = modelFiles.map((file) => path.basename(file))
 
-  runEvaluation({
-    comparisonModel: model,
+  console.log(`\nAnalyzing ${fileNames.join(', ')}...`)
+  await analyzePredictions({
+    modelFiles,
+    matcher: await loadTaskMatcher(task),
+    scorers: reportOnly
+      ? []
+      : await createScorers(task.scorers, provider, task.inputColumns),
+    sourceRecords: dataset
+      ? await loadTaskRecords(task, getDatasetPath(task, dataset))
+      : undefined,
+    reportOnly,
+    outputName: name,
+    report: {
+      filePath: `./data/report_${name}.html`,
+      title: `${task.name} evaluation: ${fileNames.join(', ')}`,
+      config: {
+        Task: `${task.name} (${taskPath})`,
+        ...(dataset ? { Dataset: dataset } : {}),
+        'Reference file': fileNames[0],
+        Files: fileNames.join(', '),
+      },
+    },
+  })
+}
+
+// Predicts the failed records of a run again and writes the new results over
+// the failures in each predictions file, then analyzes the run again
+// Returns the number of records that still failed
+async function retryFailedRecords(
+  runId: string,
+  {
     datasets,
-    numSamples,
-  }).catch((error) => {
-    console.error('Error during evaluation:', error)
-    process.exit(1)
+    provider = withResponseCache(createModelProvider()),
+    skipAnalysis = false,
+    dashboard = false,
+  }: {
+    datasets?: ('train' | 'validation')[]
+    provider?: ModelProvider
+    skipAnalysis?: boolean
+    dashboard?: boolean
+  } = {}
+): Promise<number> {
+  const { config } = await loadRunManifest(runId)
+  const { taskPath, referenceModel, models, prompts } = getRunSettings(config)
+  const task = await loadTaskDefinition(taskPath)
+  const selectedDatasets = datasets ?? config.datasets
+  let retried = 0
+  let stillFailed = 0
+  const { events, finish } = openRunEvents(runId, dashboard, {
+    type: 'run_start',
+    command: 'retry-failed',
+    config,
   })
+
+  try {
+    for (const dataset of selectedDatasets) {
+      if (!config.datasets.includes(dataset)) {
+        throw new Error(`Run ${runId} has no ${dataset} predictions`)
+      }
+      for (const promptId of prompts) {
+        for (const model of models) {
+          const filePath = getPredictionsFilePath(
+            model,
+            dataset,
+            runId,
+            promptId
+          )
+          if (!findPredictionsFile(filePath)) continue
+          const failedIds = (await loadPredictionsFile(filePath)).records
+            .filter(({ errorClass }) => errorClass)
+            .map(({ recordId }) => recordId)
+          if (!failedIds.length) continue
+
+          console.log(
+            `\n🔁 Retrying ${failedIds.length} failed ${dataset} records of ${model}${
+              promptId === 'default' ? '' : ` (prompt: ${promptId})`
+            }`
+          )
+          await runPredictions({
+            task,
+            dataset,
+            models: [model],
+            referenceModel,
+            storeCompletions: config.storeCompletions,
+            recordIds: failedIds,
+            timestamp: runId,
+            prompts: [promptId],
+            provider,
+            execution: config.execution,
+            selfConsistency: config.selfConsistency,
+            logprobs: config.logprobs,
+            events,
+            runConfig: config,
+          })
+
+          // The new results were appended; keep only the latest per record
+          const { records } = await loadPredictionsFile(filePath)
+          await rewritePredictionsFile(filePath, records)
+          retried += failedIds.length
+          stillFailed += records.filter(({ errorClass }) => errorClass).length
+        }
+      }
+    }
+  } catch (error) {
+    await finish(error)
+    throw error
+  }
+  await finish()
+
+  if (!retried) {
+    console.log(`No failed records in run ${runId}`)
+    return 0
+  }
+  console.log(
+    `\n✓ Retried ${retried} records: ${retried - stillFailed} answered, ${stillFailed} still failed`
+  )
+  if (!skipAnalysis) {
+    await analyzeRun(runId, { datasets: selectedDatasets, provider })
+  }
+  return stillFailed
+}
+
+// Works out every request an evaluation would send, with estimated tokens and
+// cost, without calling any model
+async function planEvaluation({
+  models: requestedModels,
+  referenceModel = requestedModels?.[0] ?? 'gpt-4o',
+  comparisonModel = 'gpt-4o-mini',
+  task: taskPath = defaultTaskPath,
+  prompts = ['default'],
+  numSamples: requestedSamples = 3,
+  sampling: samplingOptions,
+  sampleFrom,
+  datasets = ['train', 'validation'],
+  execution = 'sync',
+  selfConsistency,
+  resumeRunId,
+}: EvaluationConfig): Promise<PlannedRequests[]> {
+  const manifest = resumeRunId ? await loadRunManifest(resumeRunId) : null
+  const task = await loadTaskDefinition(taskPath)
+  const { numSamples, sampling, savedRecordIds } = resolveRunSample(
+    task,
+    manifest ?? (await loadSampleSource(sampleFrom, taskPath)),
+    requestedSamples,
+    samplingOptions
+  )
+  const models = resolveModels(requestedModels, referenceModel, comparisonModel)
+
+  const plans: PlannedRequests[] = []
+  for (const dataset of datasets) {
+    const recordIds = await selectDatasetRecords(
+      task,
+      dataset,
+      numSamples,
+      sampling,
+      savedRecordIds[dataset]
+    )
+    plans.push(
+      ...(await planPredictions({
+        task,
+        dataset,
+        models,
+        numSamples,
+        recordIds,
+        timestamp: manifest?.runId ?? '',
+        prompts,
+        resume: Boolean(manifest),
+        execution: manifest ? (manifest.config.execution ?? 'sync') : execution,
+        selfConsistency: manifest
+          ? manifest.config.selfConsistency
+          : selfConsistency,
+      }))
+    )
+  }
+  return plans
 }
 
-export { runEvaluation }
+export {
+  runEvaluation,
+  resumeEvaluation,
+  analyzeRun,
+  analyzePredictionFiles,
+  retryFailedRecords,
+  planEvaluation,
+  getRunSettings,
+  EvaluationConfig,
+}
@@ -0,0 +1,142 @@
+import fs from 'fs'
+import path from 'path'
+import { FailureClass } from './prediction_results'
+import { TokenUsage } from './pricing'
+
+// Event logs are written next to the run manifests
+const runsDir = './data/runs'
+
+// The dataset, model and prompt a prediction event belongs to
+interface PredictionContext {
+  dataset: string
+  model: string
+  promptId: string
+}
+
+type RunEvent =
+  | {
+      type: 'run_start'
+      command: 'run' | 'resume' | 'retry-failed'
+      config: Record<string, unknown>
+    }
+  | { type: 'run_complete'; status: 'completed' | 'failed'; error?: string }
+  // One model and prompt on one dataset
+  | (PredictionContext & {
+      type: 'predictions_start'
+      execution: 'sync' | 'batch'
+      total: number // Records sampled for the run
+      completed: number // Already predicted before this process started
+    })
+  | (PredictionContext & {
+      type: 'predictions_end'
+      completed: number
+      failed: number
+      durationMs: number
+    })
+  // batch is "3/10" for sync batches and the Batch API id for batch execution
+  | (PredictionContext & {
+      type: 'batch_start'
+      batch: string
+      records: number
+      resumed?: boolean // A Batch API batch submitted by an earlier process
+    })
+  | (PredictionContext & {
+      type: 'batch_status'
+      batch: string
+      status: string
+      counts?: { completed: number; failed: number; total: number }
+    })
+  | (PredictionContext & {
+      type: 'batch_end'
+      batch: string
+      records: number
+      failed: number
+      durationMs: number
+    })
+  // A record got its final result (an answer or a failure)
+  | (PredictionContext & {
+      type: 'request'
+      recordId: number
+      status: 'ok' | 'failed'
+      correct: boolean | null // Exact match with the label; null for failures and free-text tasks
+      attempts: number
+      latencyMs: number | null
+      cacheHit: boolean
+      usage: TokenUsage | null
+      batchId: string | null
+    })
+  | (PredictionContext & {
+      type: 'retry'
+      recordId: number
+      attempt: number // The attempt that failed
+      errorClass: FailureClass
+      error: string
+      delayMs: number
+    })
+  | (PredictionContext & {
+      type: 'failure'
+      recordId: number
+      errorClass: FailureClass
+      error: string
+      attempts: number
+    })
+
+// An event as written to the log
+type LoggedRunEvent = RunEvent & {
+  timestamp: string
+  runId: string
+  elapsedMs: number // Since the event log was opened
+}
+
+type RunEventListener = (event: LoggedRunEvent) => void
+
+interface RunEventLog {
+  runId: string
+  filePath: string
+  emit(event: RunEvent): void
+  close(): Promise<void>
+}
+
+function getEventLogPath(runId: string): string {
+  return path.join(runsDir, `${runId}.events.jsonl`)
+}
+
+// Opens the JSON-lines event log of a run (appending, so resumed runs and
+// retries continue the same file) and passes every event to the listeners
+function createRunEventLog(
+  runId: string,
+  listeners: RunEventListener[] = []
+): RunEventLog {
+  const filePath = getEventLogPath(runId)
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  const stream = fs.createWriteStream(filePath, { flags: 'a' })
+  const openedAt = Date.now()
+
+  return {
+    runId,
+    filePath,
+    emit(event) {
+      const logged: LoggedRunEvent = {
+        timestamp: new Date().toISOString(),
+        runId,
+        elapsedMs: Date.now() - openedAt,
+        ...event,
+      }
+      stream.write(JSON.stringify(logged) + '\n')
+      listeners.forEach((listener) => listener(logged))
+    },
+    close() {
+      return new Promise((resolve) => stream.end(resolve))
+    },
+  }
+}
+
+export {
+  createRunEventLog,
+  getEventLogPath,
+  RunEvent,
+  LoggedRunEvent,
+  RunEventListener,
+  RunEventLog,
+  PredictionContext,
+}
@@ -0,0 +1,133 @@
+import fs from 'fs'
+import path from 'path'
+import { legacySampling, SamplingConfig } from './sampling'
+import { SelfConsistencyConfig } from './self_consistency'
+import { PredictionExecution } from './step2_get_output'
+
+// Directory holding one manifest per evaluation run
+const runsDir = './data/runs'
+
+// Progress of a single model on a single dataset
+interface ModelProgress {
+  predictionsFile: string
+  completed: number
+  total: number
+}
+
+// Everything needed to restart an interrupted evaluation run
+interface RunManifest {
+  runId: string
+  createdAt: string
+  updatedAt: string
+  config: {
+    models?: string[]
+    referenceModel?: string
+    comparisonModel?: string // Manifests written before model lists
+    task?: string // Task definition file; absent in manifests of wine-only runs
+    prompts?: string[] // Prompt variant ids; absent means the default prompt only
+    numSamples: number
+    sampling?: SamplingConfig // Absent in manifests written before sampling strategies
+    sampleFrom?: string // Run whose record selection is reused
+    datasets: ('train' | 'validation')[]
+    storeCompletions: boolean
+    provider: string
+    execution?: PredictionExecution // Absent in manifests written before batch execution
+    selfConsistency?: SelfConsistencyConfig // Absent when each record got a single answer
+    logprobs?: boolean // Absent in manifests written before logprob confidence
+    compareTo?: string // Previous run diffed against in the HTML report
+  }
+  models: string[]
+  sampleSelection: SamplingConfig & {
+    numSamples: number
+    recordIds?: Record<string, number[]> // dataset -> selected recordIds, saved before predicting
+  }
+  progress: Record<string, Record<string, ModelProgress>> // dataset -> model (or model@prompt) -> progress
+}
+
+function getManifestPath(runId: string): string {
+  return path.join(runsDir, `${runId}.json`)
+}
+
+// Creates the manifest for a new run and writes it to disk
+async function createRunManifest(
+  runId: string,
+  config: RunManifest['config'],
+  models: string[]
+): Promise<RunManifest> {
+  const now = new Date().toISOString()
+  const manifest: RunManifest = {
+    runId,
+    createdAt: now,
+    updatedAt: now,
+    config,
+    models,
+    sampleSelection: {
+      ...(config.sampling ?? legacySampling),
+      numSamples: config.numSamples,
+      recordIds: {},
+    },
+    progress: {},
+  }
+
+  await saveRunManifest(manifest)
+  return manifest
+}
+
+// Loads the manifest of an existing run
+// Runs made before run manifests have none
+function hasRunManifest(runId: string): boolean {
+  return fs.existsSync(getManifestPath(runId))
+}
+
+async function loadRunManifest(runId: string): Promise<RunManifest> {
+  const manifestPath = getManifestPath(runId)
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`No run manifest found for run ${runId} (${manifestPath})`)
+  }
+
+  return JSON.parse(await fs.promises.readFile(manifestPath, 'utf8'))
+}
+
+async function saveRunManifest(manifest: RunManifest): Promise<void> {
+  manifest.updatedAt = new Date().toISOString()
+  await fs.promises.mkdir(runsDir, { recursive: true })
+  await fs.promises.writeFile(
+    getManifestPath(manifest.runId),
+    JSON.stringify(manifest, null, 2)
+  )
+}
+
+// Saves the records selected from a dataset so that resuming the run, or
+// another run reusing its selection, evaluates exactly the same records
+async function saveSelectedRecordIds(
+  manifest: RunManifest,
+  dataset: string,
+  recordIds: number[]
+): Promise<void> {
+  manifest.sampleSelection.recordIds ??= {}
+  manifest.sampleSelection.recordIds[dataset] = recordIds
+  await saveRunManifest(manifest)
+}
+
+// Records how many records a model has finished on a dataset
+async function updateModelProgress(
+  manifest: RunManifest,
+  dataset: string,
+  model: string,
+  progress: ModelProgress
+): Promise<void> {
+  manifest.progress[dataset] ??= {}
+  manifest.progress[dataset][model] = progress
+  await saveRunManifest(manifest)
+}
+
+export {
+  createRunManifest,
+  hasRunManifest,
+  loadRunManifest,
+  saveRunManifest,
+  saveSelectedRecordIds,
+  updateModelProgress,
+  RunManifest,
+  ModelProgress,
+}
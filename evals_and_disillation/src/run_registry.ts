@@ -0,0 +1,548 @@
+import fs from 'fs'
+import crypto from 'crypto'
+import { execFileSync } from 'child_process'
+import { parseArgs } from 'util'
+import { pathToFileURL } from 'url'
+import { RunManifest } from './run_manifest'
+import { describeSampling, legacySampling } from './sampling'
+import { WineAnalysisResult } from './step3_analyze_results'
+
+// Local index of every evaluation run: config, provenance, metrics and outputs
+const registryPath = './data/run_registry.json'
+
+// Headline metrics of one model on one dataset with one prompt
+interface RunMetrics {
+  dataset: string
+  promptId: string
+  model: string
+  totalPredictions: number
+  accuracy: number
+  lenientAccuracy: number
+  macroF1: number
+  totalCost: number | null
+}
+
+// Files one analysis (a dataset and prompt of the run) wrote
+interface AnalysisOutputs {
+  dataset: string
+  promptId: string
+  files: string[]
+}
+
+interface RunRegistryEntry {
+  runId: string
+  status: 'running' | 'completed' | 'failed'
+  createdAt: string
+  updatedAt: string
+  config: RunManifest['config']
+  gitCommit: string | null // null outside a git checkout
+  gitDirty: boolean // Uncommitted changes when the run started
+  datasetHashes: Record<string, string> // dataset -> sha256 of its CSV file
+  models: string[]
+  metrics: RunMetrics[]
+  analyses: AnalysisOutputs[] // Predictions and outputs per dataset and prompt
+  files: string[] // Outputs spanning several prompts (prompt matrices)
+  error?: string
+}
+
+interface RunRegistry {
+  baselineRunId: string | null // Pinned run that `check` compares against
+  runs: RunRegistryEntry[]
+}
+
+// Metric change of one model between two runs on the same dataset and prompt
+interface MetricComparison {
+  dataset: string
+  promptId: string
+  model: string
+  baseline: RunMetrics | null
+  current: RunMetrics | null
+  accuracyChange: number | null
+}
+
+async function loadRunRegistry(): Promise<RunRegistry> {
+  if (!fs.existsSync(registryPath)) return { baselineRunId: null, runs: [] }
+  return JSON.parse(await fs.promises.readFile(registryPath, 'utf8'))
+}
+
+async function saveRunRegistry(registry: RunRegistry): Promise<void> {
+  await fs.promises.mkdir('./data', { recursive: true })
+  await fs.promises.writeFile(registryPath, JSON.stringify(registry, null, 2))
+}
+
+// Inserts or updates the registry entry of a run
+async function saveRunEntry(entry: RunRegistryEntry): Promise<void> {
+  const registry = await loadRunRegistry()
+  const index = registry.runs.findIndex(({ runId }) => runId === entry.runId)
+  entry.updatedAt = new Date().toISOString()
+
+  if (index === -1) registry.runs.push(entry)
+  else registry.runs[index] = entry
+
+  await saveRunRegistry(registry)
+}
+
+// Finds a run by ID; `latest` is the most recently created run
+async function getRunEntry(runId: string): Promise<RunRegistryEntry> {
+  const { runs } = await loadRunRegistry()
+  const entry =
+    runId === 'latest'
+      ? runs.reduce<RunRegistryEntry | undefined>(
+          (latest, run) =>
+            !latest || run.createdAt > latest.createdAt ? run : latest,
+          undefined
+        )
+      : runs.find((run) => run.runId === runId)
+
+  if (!entry) {
+    throw new Error(`Run ${runId} is not in the run registry (${registryPath})`)
+  }
+  return entry
+}
+
+// Creates a run ID that sorts chronologically: YYYY-MM-DD-HH-mm-ss
+// A numeric suffix keeps runs started in the same second apart
+async function createRunId(now: Date = new Date()): Promise<string> {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  const base = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(
+    now.getDate()
+  )}-${pad(now.getHours())}-${pad(now.getMinutes())}-${pad(now.getSeconds())}`
+
+  const { runs } = await loadRunRegistry()
+  const taken = new Set(runs.map(({ runId }) => runId))
+  const isTaken = (runId: string) =>
+    taken.has(runId) || fs.existsSync(`./data/runs/${runId}.json`)
+
+  let runId = base
+  for (let suffix = 2; isTaken(runId); suffix++) {
+    runId = `${base}-${suffix}`
+  }
+  return runId
+}
+
+// Commit of the working tree and whether it has uncommitted changes
+function getGitState(): { gitCommit: string | null; gitDirty: boolean } {
+  try {
+    const git = (...args: string[]) =>
+      execFileSync('git', args, {
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'ignore'],
+      }).trim()
+    return {
+      gitCommit: git('rev-parse', 'HEAD'),
+      gitDirty: git('status', '--porcelain', '--untracked-files=no') !== '',
+    }
+  } catch {
+    return { gitCommit: null, gitDirty: false }
+  }
+}
+
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256')
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')))
+  })
+}
+
+// Registers a run before any prediction is made
+// A resumed run keeps its entry, metrics and provenance and is marked running again
+async function registerRun(
+  runId: string,
+  config: RunManifest['config'],
+  datasetPaths: Record<string, string>
+): Promise<RunRegistryEntry> {
+  const { runs } = await loadRunRegistry()
+  const existing = runs.find((run) => run.runId === runId)
+  if (existing) {
+    existing.status = 'running'
+    existing.analyses ??= [] // Entries written before per-analysis files
+    delete existing.error
+    await saveRunEntry(existing)
+    return existing
+  }
+
+  const now = new Date().toISOString()
+  const entry: RunRegistryEntry = {
+    runId,
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+    config,
+    ...getGitState(),
+    datasetHashes: Object.fromEntries(
+      await Promise.all(
+        Object.entries(datasetPaths).map(async ([dataset, filePath]) => [
+          dataset,
+          await hashFile(filePath),
+        ])
+      )
+    ),
+    models: config.models ?? [],
+    metrics: [],
+    analyses: [],
+    files: [],
+  }
+  await saveRunEntry(entry)
+  return entry
+}
+
+// Adds (or replaces) the metrics of one analysis and the files it wrote
+async function recordRunMetrics(
+  entry: RunRegistryEntry,
+  dataset: string,
+  promptId: string,
+  results: WineAnalysisResult[],
+  files: string[]
+): Promise<void> {
+  entry.metrics = [
+    ...entry.metrics.filter(
+      (metrics) =>
+        metrics.dataset !== dataset ||
+        metrics.promptId !== promptId ||
+        !results.some(({ model }) => model === metrics.model)
+    ),
+    ...results.map((result) => ({
+      dataset,
+      promptId,
+      model: result.model,
+      totalPredictions: result.totalPredictions,
+      accuracy: result.accuracy,
+      lenientAccuracy: result.lenientAccuracy,
+      macroF1: result.metrics.macro.f1,
+      totalCost: result.usageSummary.totalCost,
+    })),
+  ]
+  entry.analyses = [
+    ...entry.analyses.filter(
+      (analysis) =>
+        analysis.dataset !== dataset || analysis.promptId !== promptId
+    ),
+    { dataset, promptId, files },
+  ]
+  await saveRunEntry(entry)
+}
+
+async function finishRun(
+  entry: RunRegistryEntry,
+  status: 'completed' | 'failed',
+  error?: unknown
+): Promise<void> {
+  entry.status = status
+  if (error) {
+    entry.error = error instanceof Error ? error.message : String(error)
+  } else {
+    delete entry.error
+  }
+  await saveRunEntry(entry)
+}
+
+async function pinBaseline(runId: string): Promise<void> {
+  const entry = await getRunEntry(runId)
+  const registry = await loadRunRegistry()
+  registry.baselineRunId = entry.runId
+  await saveRunRegistry(registry)
+}
+
+// Lines up the metrics of two runs by dataset, prompt and model
+function compareRuns(
+  baseline: RunRegistryEntry,
+  current: RunRegistryEntry
+): MetricComparison[] {
+  const key = ({ dataset, promptId, model }: RunMetrics) =>
+    `${dataset}\u0000${promptId}\u0000${model}`
+  const baselineMetrics = new Map(baseline.metrics.map((m) => [key(m), m]))
+  const currentMetrics = new Map(current.metrics.map((m) => [key(m), m]))
+
+  return [...new Set([...baselineMetrics.keys(), ...currentMetrics.keys()])]
+    .map((id) => {
+      const before = baselineMetrics.get(id) ?? null
+      const after = currentMetrics.get(id) ?? null
+      const { dataset, promptId, model } = (after ?? before)!
+      return {
+        dataset,
+        promptId,
+        model,
+        baseline: before,
+        current: after,
+        accuracyChange:
+          before && after ? after.accuracy - before.accuracy : null,
+      }
+    })
+    .sort(
+      (a, b) =>
+        a.dataset.localeCompare(b.dataset) ||
+        a.promptId.localeCompare(b.promptId) ||
+        a.model.localeCompare(b.model)
+    )
+}
+
+// Models whose accuracy dropped by more than `threshold` (a fraction, 0.02 = 2 points)
+function findRegressions(
+  baseline: RunRegistryEntry,
+  current: RunRegistryEntry,
+  threshold: number
+): MetricComparison[] {
+  return compareRuns(baseline, current).filter(
+    ({ accuracyChange }) =>
+      accuracyChange !== null && accuracyChange < -threshold
+  )
+}
+
+// Differences that make two runs' metrics not directly comparable
+function describeProvenanceChanges(
+  baseline: RunRegistryEntry,
+  current: RunRegistryEntry
+): string[] {
+  const changes: string[] = []
+  for (const [dataset, hash] of Object.entries(current.datasetHashes)) {
+    const baselineHash = baseline.datasetHashes[dataset]
+    if (baselineHash && baselineHash !== hash) {
+      changes.push(`${dataset} dataset changed`)
+    }
+  }
+  if ((baseline.config.task ?? '') !== (current.config.task ?? '')) {
+    changes.push(
+      `task ${baseline.config.task ?? 'default'} → ${
+        current.config.task ?? 'default'
+      }`
+    )
+  }
+  if (baseline.config.numSamples !== current.config.numSamples) {
+    changes.push(
+      `samples ${baseline.config.numSamples} → ${current.config.numSamples}`
+    )
+  }
+  const baselineSampling = describeSampling(
+    baseline.config.sampling ?? legacySampling
+  )
+  const currentSampling = describeSampling(
+    current.config.sampling ?? legacySampling
+  )
+  if (baselineSampling !== currentSampling) {
+    changes.push(`sampling ${baselineSampling} → ${currentSampling}`)
+  }
+  return changes
+}
+
+const pct = (value: number | undefined) =>
+  value === undefined ? '-' : `${(value * 100).toFixed(2)}%`
+
+function logRunList({ baselineRunId, runs }: RunRegistry) {
+  if (!runs.length) {
+    console.log('No runs recorded yet')
+    return
+  }
+
+  for (const run of runs) {
+    const reference = run.config.referenceModel ?? run.models[0]
+    const accuracy = run.metrics
+      .filter(({ model }) => model === reference)
+      .map(({ dataset, promptId, accuracy }) => {
+        const label =
+          promptId === 'default' ? dataset : `${dataset}@${promptId}`
+        return `${label} ${pct(accuracy)}`
+      })
+      .join(', ')
+    console.log(
+      `${run.runId === baselineRunId ? '📌' : '  '} ${run.runId}  ${run.status.padEnd(
+        9
+      )}  ${run.config.task ?? 'wine'}  ${run.models.join(', ')}  ${
+        accuracy ? `(${reference}: ${accuracy})` : ''
+      }`
+    )
+  }
+}
+
+function logRunDetails(entry: RunRegistryEntry, isBaseline: boolean) {
+  console.log(`Run ${entry.runId}${isBaseline ? ' (pinned baseline)' : ''}`)
+  console.log(
+    `- Status: ${entry.status}${entry.error ? ` (${entry.error})` : ''}`
+  )
+  console.log(`- Created: ${entry.createdAt}`)
+  console.log(
+    `- Git commit: ${entry.gitCommit ?? 'unknown'}${
+      entry.gitDirty ? ' (uncommitted changes)' : ''
+    }`
+  )
+  for (const [dataset, hash] of Object.entries(entry.datasetHashes)) {
+    console.log(`- ${dataset} dataset sha256: ${hash}`)
+  }
+  console.log(`- Config: ${JSON.stringify(entry.config)}`)
+
+  console.log('\nMetrics:')
+  for (const metrics of entry.metrics) {
+    console.log(
+      `  ${metrics.dataset}/${metrics.promptId}  ${metrics.model}: ${pct(
+        metrics.accuracy
+      )} strict, ${pct(metrics.lenientAccuracy)} lenient, macro F1 ${metrics.macroF1.toFixed(
+        3
+      )} (${metrics.totalPredictions} predictions)`
+    )
+  }
+
+  console.log('\nFiles:')
+  for (const { dataset, promptId, files } of entry.analyses ?? []) {
+    console.log(`  ${dataset}/${promptId}`)
+    files.forEach((file) => console.log(`    ${file}`))
+  }
+  entry.files.forEach((file) => console.log(`  ${file}`))
+}
+
+function logComparison(
+  baseline: RunRegistryEntry,
+  current: RunRegistryEntry,
+  comparisons: MetricComparison[]
+) {
+  console.log(`Comparing ${current.runId} against ${baseline.runId}\n`)
+  for (const change of describeProvenanceChanges(baseline, current)) {
+    console.warn(`⚠️  ${change}`)
+  }
+
+  for (const {
+    dataset,
+    promptId,
+    model,
+    baseline: before,
+    current: after,
+    accuracyChange,
+  } of comparisons) {
+    const delta =
+      accuracyChange === null
+        ? ''
+        : ` (${accuracyChange >= 0 ? '+' : ''}${(accuracyChange * 100).toFixed(
+            2
+          )} pp)`
+    console.log(
+      `  ${dataset}/${promptId}  ${model}: ${pct(before?.accuracy)} → ${pct(
+        after?.accuracy
+      )}${delta}`
+    )
+  }
+}
+
+// Runs one registry command: list, show, compare, pin or check
+// `check` sets exit code 1 when any model's accuracy dropped by more than the
+// threshold (a fraction of 1) against the baseline, by default the pinned run
+async function runRegistryCommand(
+  command: string | undefined,
+  runIds: string[],
+  {
+    baseline: baselineFlag,
+    threshold: thresholdFlag = '0.02',
+  }: {
+    baseline?: string
+    threshold?: string
+  } = {}
+): Promise<void> {
+  const registry = await loadRunRegistry()
+
+  switch (command) {
+    case 'list':
+      logRunList(registry)
+      return
+    case 'show': {
+      if (!runIds[0]) throw new Error('Please provide a run ID')
+      const entry = await getRunEntry(runIds[0])
+      logRunDetails(entry, entry.runId === registry.baselineRunId)
+      return
+    }
+    case 'compare': {
+      if (runIds.length !== 2) {
+        throw new Error('Please provide the baseline and the run to compare')
+      }
+      const baseline = await getRunEntry(runIds[0])
+      const current = await getRunEntry(runIds[1])
+      logComparison(baseline, current, compareRuns(baseline, current))
+      return
+    }
+    case 'pin':
+      if (!runIds[0]) throw new Error('Please provide a run ID')
+      await pinBaseline(runIds[0])
+      console.log(
+        `📌 Pinned ${(await loadRunRegistry()).baselineRunId} as baseline`
+      )
+      return
+    case 'check': {
+      if (!runIds[0]) throw new Error('Please provide a run ID')
+      const baselineRunId = baselineFlag ?? registry.baselineRunId
+      if (!baselineRunId) {
+        throw new Error('No baseline: pin a run or pass --baseline <runId>')
+      }
+      const threshold = parseFloat(thresholdFlag)
+      if (Number.isNaN(threshold) || threshold < 0) {
+        throw new Error(`Invalid threshold: ${thresholdFlag}`)
+      }
+
+      const baseline = await getRunEntry(baselineRunId)
+      const current = await getRunEntry(runIds[0])
+      const comparisons = compareRuns(baseline, current)
+      logComparison(baseline, current, comparisons)
+      if (!comparisons.some(({ accuracyChange }) => accuracyChange !== null)) {
+        throw new Error(
+          `Runs ${baseline.runId} and ${current.runId} share no dataset, prompt and model`
+        )
+      }
+
+      const regressions = findRegressions(baseline, current, threshold)
+      if (regressions.length) {
+        console.error(
+          `\n❌ ${regressions.length} regression(s) beyond ${(
+            threshold * 100
+          ).toFixed(2)} pp`
+        )
+        process.exitCode = 1
+        return
+      }
+      console.log(
+        `\n✅ No regression beyond ${(threshold * 100).toFixed(2)} pp`
+      )
+      return
+    }
+    default:
+      throw new Error(
+        `Unknown registry command "${command ?? ''}"; use list, show, compare, pin or check`
+      )
+  }
+}
+
+// Kept for scripts calling the module directly; `tsx src/cli.ts runs ...` is
+// the same command
+// Usage: tsx src/run_registry.ts <list|show|compare|pin|check> [runIds] [--baseline runId] [--threshold 0.02]
+if (
+  process.argv[1] &&
+  import.meta.url === pathToFileURL(process.argv[1]).href
+) {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      baseline: { type: 'string' },
+      threshold: { type: 'string' },
+    },
+  })
+  const [command, ...runIds] = positionals
+
+  runRegistryCommand(command, runIds, values).catch((error) => {
+    console.error('Error:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  })
+}
+
+export {
+  createRunId,
+  registerRun,
+  recordRunMetrics,
+  finishRun,
+  getRunEntry,
+  loadRunRegistry,
+  pinBaseline,
+  compareRuns,
+  findRegressions,
+  runRegistryCommand,
+  RunRegistry,
+  RunRegistryEntry,
+  RunMetrics,
+  MetricComparison,
+}
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { allocateStrata, countStrata, selectRecordIds } from './sampling'
+import { TaskDefinition } from './task_definition'
+
+const task = {
+  labelColumn: 'variety',
+  inputColumns: ['winery', 'description'],
+} as TaskDefinition
+
+// 60 Pinot Noir, 30 Riesling and 10 Syrah rows; the country column is not
+// part of the prompt
+const rows = Array.from({ length: 100 }, (_, i) => ({
+  winery: `Winery ${i}`,
+  description: `Description ${i}`,
+  variety: i % 10 < 6 ? 'Pinot Noir' : i % 10 < 9 ? 'Riesling' : 'Syrah',
+  country: i % 4 === 0 ? 'France' : 'US',
+}))
+
+const countBy = (recordIds: number[], column: keyof (typeof rows)[number]) =>
+  recordIds.reduce<Record<string, number>>((counts, recordId) => {
+    const value = rows[recordId][column]
+    counts[value] = (counts[value] ?? 0) + 1
+    return counts
+  }, {})
+
+describe('selectRecordIds', () => {
+  it('picks the same records for the same seed', () => {
+    for (const strategy of ['random', 'stratified'] as const) {
+      const sample = selectRecordIds(task, rows, 20, { strategy, seed: 7 })
+      assert.deepEqual(
+        selectRecordIds(task, rows, 20, { strategy, seed: 7 }),
+        sample
+      )
+      assert.notDeepEqual(
+        selectRecordIds(task, rows, 20, { strategy, seed: 8 }),
+        sample
+      )
+      assert.deepEqual(
+        sample,
+        [...sample].sort((a, b) => a - b)
+      )
+    }
+  })
+
+  it('keeps the proportions of the label strata', () => {
+    const sample = selectRecordIds(task, rows, 20, {
+      strategy: 'stratified',
+      seed: 42,
+    })
+
+    assert.equal(sample.length, 20)
+    assert.deepEqual(countBy(sample, 'variety'), {
+      'Pinot Noir': 12,
+      Riesling: 6,
+      Syrah: 2,
+    })
+  })
+
+  it('stratifies by columns outside of the prompt', () => {
+    const sample = selectRecordIds(task, rows, 20, {
+      strategy: 'stratified',
+      seed: 42,
+      stratifyBy: 'country',
+    })
+
+    assert.deepEqual(countBy(sample, 'country'), { France: 5, US: 15 })
+    assert.equal(countStrata(task, rows, 'country'), 2)
+    assert.throws(
+      () =>
+        selectRecordIds(task, rows, 20, {
+          strategy: 'stratified',
+          stratifyBy: 'region',
+        }),
+      /Cannot stratify by "region": the dataset has no such column/
+    )
+  })
+
+  it('applies per-class minimums and maximums', () => {
+    const sample = selectRecordIds(task, rows, 10, {
+      strategy: 'stratified',
+      seed: 42,
+      minPerClass: 3,
+      maxPerClass: 4,
+    })
+
+    assert.deepEqual(countBy(sample, 'variety'), {
+      'Pinot Noir': 4,
+      Riesling: 3,
+      Syrah: 3,
+    })
+  })
+
+  it('takes the first records without a seed', () => {
+    assert.deepEqual(
+      selectRecordIds(task, rows, 3, { strategy: 'first' }),
+      [0, 1, 2]
+    )
+    assert.equal(
+      selectRecordIds(task, rows, -1, { strategy: 'random', seed: 1 }).length,
+      100
+    )
+  })
+})
+
+describe('allocateStrata', () => {
+  it('gives the remainder to the strata furthest below their share', () => {
+    assert.deepEqual(allocateStrata([5, 3, 2], 5), [3, 1, 1])
+    assert.deepEqual(allocateStrata([5, 3, 2], 20), [5, 3, 2])
+    assert.deepEqual(allocateStrata([50, 1], 4, 2), [3, 1])
+  })
+})
@@ -0,0 +1,199 @@
+import { z } from 'zod'
+import { createSeededRandom, shuffle } from './random'
+import { TaskDefinition } from './task_definition'
+
+const samplingStrategies = ['first', 'random', 'stratified'] as const
+
+// How the records of a run are picked from each dataset; every field is
+// optional here so config files and flags can be merged before defaults apply
+const samplingOptionsSchema = z
+  .object({
+    strategy: z.enum(samplingStrategies).optional(),
+    seed: z.number().int().optional(),
+    stratifyBy: z.string().min(1).optional(), // Defaults to the task's label column
+    minPerClass: z.number().int().nonnegative().optional(),
+    maxPerClass: z.number().int().positive().optional(),
+  })
+  .strict()
+  .refine(
+    ({ strategy = 'stratified', stratifyBy, minPerClass, maxPerClass }) =>
+      strategy === 'stratified' ||
+      (stratifyBy === undefined &&
+        minPerClass === undefined &&
+        maxPerClass === undefined),
+    {
+      message:
+        'stratifyBy, minPerClass and maxPerClass only apply to the stratified strategy',
+      path: ['strategy'],
+    }
+  )
+  .refine(
+    ({ minPerClass, maxPerClass }) =>
+      minPerClass === undefined ||
+      maxPerClass === undefined ||
+      minPerClass <= maxPerClass,
+    { message: 'minPerClass cannot exceed maxPerClass', path: ['minPerClass'] }
+  )
+
+type SamplingOptions = z.infer<typeof samplingOptionsSchema>
+
+// Sampling options with defaults applied, as stored with a run
+interface SamplingConfig {
+  strategy: (typeof samplingStrategies)[number]
+  seed?: number // Unused by the first strategy
+  stratifyBy?: string
+  minPerClass?: number
+  maxPerClass?: number
+}
+
+// Runs without a sampling config predate sampling strategies and took the
+// first records of each dataset
+const legacySampling: SamplingConfig = { strategy: 'first' }
+
+// Stratified sampling with a fixed seed, so runs are representative of the
+// class distribution and comparable with each other by default
+function resolveSamplingConfig(
+  task: TaskDefinition,
+  options: SamplingOptions = {}
+): SamplingConfig {
+  const {
+    strategy = 'stratified',
+    seed = 42,
+    stratifyBy = task.labelColumn,
+    minPerClass,
+    maxPerClass,
+  } = options
+  if (strategy === 'first') return { strategy }
+  if (strategy === 'random') return { strategy, seed }
+  return { strategy, seed, stratifyBy, minPerClass, maxPerClass }
+}
+
+function describeSampling(config: SamplingConfig): string {
+  if (config.strategy === 'first') return 'first records'
+  if (config.strategy === 'random') return `random (seed ${config.seed})`
+
+  const limits = [
+    config.minPerClass !== undefined && `min ${config.minPerClass}`,
+    config.maxPerClass !== undefined && `max ${config.maxPerClass}`,
+  ].filter(Boolean)
+  return `stratified by ${config.stratifyBy} (seed ${config.seed}${
+    limits.length ? `, ${limits.join(', ')} per class` : ''
+  })`
+}
+
+// Reads the stratification column from the raw dataset row of a record, so
+// any column of the dataset works, not only the ones the prompt uses
+function getStratumReader(
+  rows: Record<string, unknown>[],
+  column: string
+): (row: Record<string, unknown>) => string {
+  if (rows.length && !rows.some((row) => column in row)) {
+    throw new Error(
+      `Cannot stratify by "${column}": the dataset has no such column (${Object.keys(
+        rows[0]
+      ).join(', ')})`
+    )
+  }
+  return (row) => String(row[column] ?? '')
+}
+
+// Splits the target across strata in proportion to their size (largest
+// remainder first), after giving each stratum its minimum; no stratum gets
+// more records than it has or than the maximum allows
+function allocateStrata(
+  sizes: number[],
+  target: number,
+  minPerClass = 0,
+  maxPerClass = Infinity
+): number[] {
+  const total = sizes.reduce((sum, size) => sum + size, 0)
+  const caps = sizes.map((size) => Math.min(size, maxPerClass))
+  const quotas = caps.map((cap) => Math.min(cap, minPerClass))
+  let remaining = target - quotas.reduce((sum, quota) => sum + quota, 0)
+
+  while (remaining > 0) {
+    let next = -1
+    let largestGap = -Infinity
+    sizes.forEach((size, i) => {
+      const gap = (target * size) / total - quotas[i]
+      if (quotas[i] < caps[i] && gap > largestGap) {
+        next = i
+        largestGap = gap
+      }
+    })
+    if (next === -1) break
+    quotas[next]++
+    remaining--
+  }
+  return quotas
+}
+
+// Picks the records a run evaluates and returns their recordIds (indexes into
+// the dataset's valid records) in file order. `rows` are the raw dataset rows
+// of those records (DatasetRows.rows). numSamples -1 selects every record,
+// minus those over a stratum's maximum. Per-class minimums take precedence
+// over numSamples
+function selectRecordIds(
+  task: TaskDefinition,
+  rows: Record<string, unknown>[],
+  numSamples: number,
+  config: SamplingConfig
+): number[] {
+  const recordIds = rows.map((_, recordId) => recordId)
+  const target =
+    numSamples === -1 ? rows.length : Math.min(numSamples, rows.length)
+
+  if (config.strategy === 'first') return recordIds.slice(0, target)
+
+  const random = createSeededRandom(config.seed ?? 42)
+  if (config.strategy === 'random') {
+    return shuffle(recordIds, random)
+      .slice(0, target)
+      .sort((a, b) => a - b)
+  }
+
+  const readStratum = getStratumReader(
+    rows,
+    config.stratifyBy ?? task.labelColumn
+  )
+  const strata = new Map<string, number[]>()
+  for (const recordId of recordIds) {
+    const stratum = readStratum(rows[recordId])
+    const group = strata.get(stratum) ?? []
+    group.push(recordId)
+    strata.set(stratum, group)
+  }
+
+  const groups = [...strata.values()]
+  const quotas = allocateStrata(
+    groups.map((group) => group.length),
+    target,
+    config.minPerClass,
+    config.maxPerClass
+  )
+  return groups
+    .flatMap((group, i) => shuffle(group, random).slice(0, quotas[i]))
+    .sort((a, b) => a - b)
+}
+
+// Number of distinct values of the stratification column among the raw rows
+function countStrata(
+  task: TaskDefinition,
+  rows: Record<string, unknown>[],
+  column: string = task.labelColumn
+): number {
+  const readStratum = getStratumReader(rows, column)
+  return new Set(rows.map(readStratum)).size
+}
+
+export {
+  samplingOptionsSchema,
+  legacySampling,
+  resolveSamplingConfig,
+  describeSampling,
+  selectRecordIds,
+  allocateStrata,
+  countStrata,
+  SamplingOptions,
+  SamplingConfig,
+}
@@ -0,0 +1,229 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { createFakeProvider, ModelProvider } from './model_provider'
+import { createScorers, runScorers, ScorerConfig } from './scorers'
+import { WinePredictionRecord } from './step3_analyze_results'
+import { TaskRecord } from './task_definition'
+
+const inputColumns = ['winery', 'description']
+
+function prediction(
+  recordId: number,
+  answer: string,
+  label: string,
+  overrides: Partial<WinePredictionRecord> = {}
+): WinePredictionRecord {
+  return {
+    recordId,
+    model: 'gpt-4o',
+    prediction: answer,
+    timestamp: '2026-01-15T09:30:00.000Z',
+    winery: `Winery ${recordId}`,
+    variety: label,
+    actual_variety: label,
+    ...overrides,
+  }
+}
+
+const sources: TaskRecord[] = [
+  {
+    inputs: { winery: 'Trimbach', description: 'Petrol and lime' },
+    label: 'Riesling',
+    display: 'Trimbach',
+  },
+  {
+    inputs: { winery: 'Château (Petrus)', description: 'Plum' },
+    label: 'Merlot',
+    display: 'Château (Petrus)',
+  },
+]
+
+// Scorers of the configs, built with the fake provider for LLM judges
+const build = (configs: Partial<ScorerConfig>[], provider?: ModelProvider) =>
+  createScorers(
+    configs as ScorerConfig[],
+    provider ?? createFakeProvider(),
+    inputColumns
+  )
+
+describe('createScorers', () => {
+  it('rejects unknown placeholders in patterns and rubrics', async () => {
+    await assert.rejects(
+      build([{ type: 'regex', pattern: '{{grape}}', flags: '' }]),
+      /Scorer "regex" uses unknown placeholder \{\{grape\}\}/
+    )
+    await assert.rejects(
+      build([
+        {
+          type: 'llm_judge',
+          model: 'gpt-4o',
+          rubric: 'Is {{prediction}} right for {{region}}?',
+          passThreshold: 0.5,
+        },
+      ]),
+      /Scorer "llm_judge" uses unknown placeholder \{\{region\}\}/
+    )
+  })
+
+  it('rejects invalid patterns', async () => {
+    await assert.rejects(
+      build([{ type: 'regex', pattern: '({{label}}', flags: '' }]),
+      /Scorer "regex" has an invalid pattern/
+    )
+    await assert.rejects(
+      build([{ type: 'regex', pattern: '{{label}}', flags: 'q' }]),
+      /invalid pattern/
+    )
+  })
+
+  it('needs unique names and a judge rubric', async () => {
+    await assert.rejects(
+      build([
+        { type: 'exact', caseSensitive: true },
+        { type: 'exact', caseSensitive: false },
+      ]),
+      /Duplicate scorer name "exact"/
+    )
+    await assert.rejects(
+      build([{ type: 'llm_judge', model: 'gpt-4o', passThreshold: 0.5 }]),
+      /needs a rubric or rubricFile/
+    )
+  })
+})
+
+describe('runScorers', () => {
+  it('scores exact, contains and numeric answers', async () => {
+    const scorers = await build([
+      { type: 'exact', caseSensitive: false },
+      { type: 'contains', caseSensitive: false },
+      { type: 'numeric', tolerance: 0.1, relative: true },
+    ])
+
+    const { scored } = await runScorers(scorers, [
+      prediction(0, 'riesling', 'Riesling'),
+      prediction(1, 'Surely a Merlot blend', 'Merlot'),
+      prediction(2, '95', '90'),
+    ])
+
+    assert.deepEqual(
+      scored.map(({ scores }) => [
+        scores.exact.score,
+        scores.contains.score,
+        scores.numeric.score,
+      ]),
+      [
+        [1, 1, 0],
+        [0, 1, 0],
+        [0, 0, 1],
+      ]
+    )
+    assert.match(scored[2].scores.numeric.rationale, /Off by 5 \(allowed 9\)/)
+  })
+
+  it('fills regex placeholders with escaped record values', async () => {
+    const scorers = await build([
+      {
+        type: 'regex',
+        name: 'names_winery',
+        pattern: '^{{winery}}: {{label}}$',
+        flags: 'i',
+      },
+    ])
+
+    const { scored } = await runScorers(
+      scorers,
+      [
+        prediction(0, 'trimbach: riesling', 'Riesling'),
+        prediction(1, 'Château (Petrus): Merlot', 'Merlot'),
+        prediction(1, 'Château Petrus: Merlot', 'Merlot'),
+      ],
+      sources
+    )
+
+    assert.deepEqual(
+      scored.map(({ scores }) => scores.names_winery.score),
+      [1, 1, 0]
+    )
+  })
+
+  it('fails single predictions without stopping the others', async () => {
+    const scorers = await build([
+      { type: 'regex', pattern: '{{winery}}', flags: '' },
+    ])
+
+    // Record 5 is not in the dataset, so {{winery}} cannot be filled
+    const { scored, summaries } = await runScorers(
+      scorers,
+      [
+        prediction(0, 'Trimbach', 'Riesling'),
+        prediction(5, 'Egon', 'Riesling'),
+      ],
+      sources
+    )
+
+    assert.equal(scored[0].scores.regex.score, 1)
+    assert.equal(scored[1].scores.regex.score, null)
+    assert.match(
+      scored[1].scores.regex.rationale,
+      /Pattern failed: No source record for \{\{winery\}\} \(record 5\)/
+    )
+    assert.deepEqual(summaries, [
+      { scorer: 'regex', meanScore: 1, passed: 1, scored: 1, failed: 1 },
+    ])
+  })
+
+  it('does not score failed records', async () => {
+    const scorers = await build([{ type: 'exact', caseSensitive: true }])
+
+    const { scored, summaries } = await runScorers(scorers, [
+      prediction(0, '', 'Riesling', {
+        failure: { errorClass: 'refusal', error: 'No', attempts: 1 },
+      }),
+    ])
+
+    assert.deepEqual(scored[0].scores.exact, {
+      score: null,
+      rationale: 'No answer (refusal)',
+    })
+    assert.equal(summaries[0].meanScore, null)
+  })
+
+  it('clamps judge scores and records judge failures', async () => {
+    let answer: Record<string, unknown> | Error = {
+      rationale: 'Spot on',
+      score: 1.4,
+    }
+    const judge: ModelProvider = {
+      name: 'judge',
+      async complete() {
+        if (answer instanceof Error) throw answer
+        return { parsed: answer, refusal: null }
+      },
+    }
+    const scorers = await build(
+      [
+        {
+          type: 'llm_judge',
+          model: 'gpt-4o',
+          rubric: 'Is {{prediction}} the variety of {{winery}}?',
+          passThreshold: 0.7,
+        },
+      ],
+      judge
+    )
+    const predictions = [prediction(0, 'Riesling', 'Riesling')]
+
+    const passed = await runScorers(scorers, predictions, sources)
+    assert.deepEqual(passed.scored[0].scores.llm_judge, {
+      score: 1,
+      rationale: 'Spot on',
+    })
+
+    answer = new Error('Connection error.')
+    const failed = await runScorers(scorers, predictions, sources)
+    assert.deepEqual(failed.scored[0].scores.llm_judge, {
+      score: null,
+      rationale: 'Judge failed: Connection error.',
+    })
+  })
+})
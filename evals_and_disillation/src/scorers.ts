@@ -0,0 +1,493 @@
+import fs from 'fs'
+import { z } from 'zod'
+import { createObjectCsvWriter } from 'csv-writer'
+import { zodResponseFormat } from 'openai/helpers/zod'
+import { ModelProvider } from './model_provider'
+import { WinePredictionRecord } from './step3_analyze_results'
+import { TaskRecord } from './task_definition'
+
+// Outcome of scoring one prediction; score is null when the scorer failed
+interface ScoreResult {
+  score: number | null
+  rationale: string
+}
+
+// Scores a prediction against its source record
+// The source record is undefined when it cannot be found in the dataset
+interface Scorer {
+  name: string
+  passThreshold: number // Scores at or above this count as passed
+  score(
+    prediction: WinePredictionRecord,
+    source: TaskRecord | undefined
+  ): Promise<ScoreResult>
+}
+
+// Scorer settings as written in a task definition
+// Regex patterns and judge rubrics can use {{prediction}}, {{label}} and
+// {{column}} placeholders; values are regex-escaped inside patterns.
+const scorerConfigSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('exact'),
+    name: z.string().optional(),
+    caseSensitive: z.boolean().default(true),
+  }),
+  z.object({
+    type: z.literal('regex'),
+    name: z.string().optional(),
+    pattern: z.string(),
+    flags: z.string().default(''),
+  }),
+  z.object({
+    type: z.literal('contains'),
+    name: z.string().optional(),
+    caseSensitive: z.boolean().default(false),
+  }),
+  z.object({
+    type: z.literal('numeric'),
+    name: z.string().optional(),
+    tolerance: z.number().min(0).default(0),
+    relative: z.boolean().default(false), // Tolerance as a fraction of the label
+  }),
+  z.object({
+    type: z.literal('llm_judge'),
+    name: z.string().optional(),
+    model: z.string().default('gpt-4o'),
+    rubric: z.string().optional(),
+    rubricFile: z.string().optional(), // Relative to the task file
+    passThreshold: z.number().min(0).max(1).default(0.5),
+  }),
+])
+
+type ScorerConfig = z.infer<typeof scorerConfigSchema>
+
+// Per-scorer summary over one model's predictions
+interface ScorerSummary {
+  scorer: string
+  meanScore: number | null
+  passed: number
+  scored: number
+  failed: number // Predictions the scorer could not score
+}
+
+// One prediction with the result of every scorer
+interface ScoredPrediction {
+  recordId: number
+  prediction: string
+  actual: string
+  scores: Record<string, ScoreResult>
+}
+
+const judgeSystemPrompt =
+  'You are a strict, impartial grader. Score the answer against the rubric with a number between 0 (completely wrong) and 1 (fully correct), and explain your score briefly before giving it.'
+
+const judgeSchema = z.object({
+  rationale: z.string().describe('Short justification of the score'),
+  score: z.number().describe('Score between 0 and 1'),
+})
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+const placeholderPattern = /\{\{\s*(\w+)\s*\}\}/g
+
+// Checks the placeholders of a pattern or rubric against the task's input
+// columns, so a typo fails when the scorers are built rather than mid-analysis
+function checkPlaceholders(
+  scorer: string,
+  template: string,
+  inputColumns: string[]
+) {
+  for (const [placeholder, name] of template.matchAll(placeholderPattern)) {
+    if (
+      name !== 'prediction' &&
+      name !== 'label' &&
+      !inputColumns.includes(name)
+    ) {
+      throw new Error(
+        `Scorer "${scorer}" uses unknown placeholder ${placeholder} (expected prediction, label or one of ${inputColumns.join(
+          ', '
+        )})`
+      )
+    }
+  }
+}
+
+// Replaces {{prediction}}, {{label}} and {{column}} placeholders
+function fillTemplate(
+  template: string,
+  prediction: WinePredictionRecord,
+  source: TaskRecord | undefined,
+  transform: (value: string) => string = (value) => value
+): string {
+  return template.replace(placeholderPattern, (placeholder, name) => {
+    if (name === 'prediction') return transform(prediction.prediction)
+    if (name === 'label') return transform(prediction.actual_variety)
+    if (source && name in source.inputs) {
+      return transform(String(source.inputs[name]))
+    }
+    throw new Error(
+      source
+        ? `Unknown placeholder ${placeholder}`
+        : `No source record for ${placeholder} (record ${prediction.recordId})`
+    )
+  })
+}
+
+function createExactScorer(name: string, caseSensitive: boolean): Scorer {
+  return {
+    name,
+    passThreshold: 1,
+    async score({ prediction, actual_variety }) {
+      const matches = caseSensitive
+        ? prediction === actual_variety
+        : prediction.toLowerCase() === actual_variety.toLowerCase()
+      return {
+        score: matches ? 1 : 0,
+        rationale: matches ? 'Exact match' : 'Differs from the label',
+      }
+    },
+  }
+}
+
+function createRegexScorer(
+  name: string,
+  pattern: string,
+  flags: string
+): Scorer {
+  return {
+    name,
+    passThreshold: 1,
+    async score(prediction, source) {
+      try {
+        const regex = new RegExp(
+          fillTemplate(pattern, prediction, source, escapeRegex),
+          flags
+        )
+        const matches = regex.test(prediction.prediction)
+        return {
+          score: matches ? 1 : 0,
+          rationale: `${matches ? 'Matches' : 'Does not match'} /${
+            regex.source
+          }/${regex.flags}`,
+        }
+      } catch (error) {
+        return {
+          score: null,
+          rationale: `Pattern failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        }
+      }
+    },
+  }
+}
+
+function createContainsScorer(name: string, caseSensitive: boolean): Scorer {
+  return {
+    name,
+    passThreshold: 1,
+    async score({ prediction, actual_variety }) {
+      const contains = caseSensitive
+        ? prediction.includes(actual_variety)
+        : prediction.toLowerCase().includes(actual_variety.toLowerCase())
+      return {
+        score: contains ? 1 : 0,
+        rationale: contains
+          ? 'Label found in the answer'
+          : 'Label not found in the answer',
+      }
+    },
+  }
+}
+
+function createNumericScorer(
+  name: string,
+  tolerance: number,
+  relative: boolean
+): Scorer {
+  return {
+    name,
+    passThreshold: 1,
+    async score({ prediction, actual_variety }) {
+      const predicted = parseFloat(prediction)
+      const actual = parseFloat(actual_variety)
+      if (Number.isNaN(predicted) || Number.isNaN(actual)) {
+        return {
+          score: 0,
+          rationale: `Not a number (${prediction} vs ${actual_variety})`,
+        }
+      }
+
+      const allowed = relative ? Math.abs(actual) * tolerance : tolerance
+      const difference = Math.abs(predicted - actual)
+      return {
+        score: difference <= allowed ? 1 : 0,
+        rationale: `Off by ${difference} (allowed ${allowed})`,
+      }
+    },
+  }
+}
+
+// Asks a judge model to grade each answer against a rubric
+// Requests go through the given provider, so they share its cache and rate limits
+function createLLMJudgeScorer(
+  name: string,
+  model: string,
+  rubric: string,
+  passThreshold: number,
+  provider: ModelProvider
+): Scorer {
+  const responseFormat = zodResponseFormat(judgeSchema, 'judge_score')
+
+  return {
+    name,
+    passThreshold,
+    async score(prediction, source) {
+      try {
+        const response = await provider.complete({
+          model,
+          messages: [
+            { role: 'system', content: judgeSystemPrompt },
+            {
+              role: 'user',
+              content: fillTemplate(rubric, prediction, source),
+            },
+          ],
+          responseFormat,
+        })
+        if (!response.parsed) {
+          return {
+            score: null,
+            rationale: `Judge refused: ${response.refusal ?? 'no answer'}`,
+          }
+        }
+
+        const { score, rationale } = response.parsed as z.infer<
+          typeof judgeSchema
+        >
+        return { score: Math.min(1, Math.max(0, score)), rationale }
+      } catch (error) {
+        return {
+          score: null,
+          rationale: `Judge failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        }
+      }
+    },
+  }
+}
+
+// Builds the scorers configured for a task, checking patterns and rubric
+// placeholders against its input columns
+// LLM judges send their requests through `provider`
+async function createScorers(
+  configs: ScorerConfig[],
+  provider: ModelProvider,
+  inputColumns: string[]
+): Promise<Scorer[]> {
+  const scorers: Scorer[] = []
+
+  for (const config of configs) {
+    const name = config.name ?? config.type
+    if (scorers.some((scorer) => scorer.name === name)) {
+      throw new Error(`Duplicate scorer name "${name}"; set a unique name`)
+    }
+
+    switch (config.type) {
+      case 'exact':
+        scorers.push(createExactScorer(name, config.caseSensitive))
+        break
+      case 'regex': {
+        checkPlaceholders(name, config.pattern, inputColumns)
+        // Placeholders are filled with escaped text, so any value compiles
+        // if the pattern compiles with a plain word in their place
+        try {
+          new RegExp(
+            config.pattern.replace(placeholderPattern, 'x'),
+            config.flags
+          )
+        } catch (error) {
+          throw new Error(
+            `Scorer "${name}" has an invalid pattern: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          )
+        }
+        scorers.push(createRegexScorer(name, config.pattern, config.flags))
+        break
+      }
+      case 'contains':
+        scorers.push(createContainsScorer(name, config.caseSensitive))
+        break
+      case 'numeric':
+        scorers.push(
+          createNumericScorer(name, config.tolerance, config.relative)
+        )
+        break
+      case 'llm_judge': {
+        const rubric =
+          config.rubric ??
+          (config.rubricFile
+            ? await fs.promises.readFile(config.rubricFile, 'utf8')
+            : undefined)
+        if (!rubric) {
+          throw new Error(`Scorer "${name}" needs a rubric or rubricFile`)
+        }
+        checkPlaceholders(name, rubric, inputColumns)
+        scorers.push(
+          createLLMJudgeScorer(
+            name,
+            config.model,
+            rubric,
+            config.passThreshold,
+            provider
+          )
+        )
+        break
+      }
+    }
+  }
+  return scorers
+}
+
+// Runs every scorer on every prediction of one model
+// `sourceRecords` are the dataset's valid records, indexed by recordId
+async function runScorers(
+  scorers: Scorer[],
+  predictions: WinePredictionRecord[],
+  sourceRecords: TaskRecord[] = []
+): Promise<{ scored: ScoredPrediction[]; summaries: ScorerSummary[] }> {
+  const scored = await Promise.all(
+    predictions.map(async (prediction) => {
+      const source = sourceRecords[Number(prediction.recordId)]
+      // Failed records have no answer to score
+      const { failure } = prediction
+      const results = await Promise.all(
+        scorers.map((scorer) =>
+          failure
+            ? { score: null, rationale: `No answer (${failure.errorClass})` }
+            : scorer.score(prediction, source)
+        )
+      )
+      return {
+        recordId: Number(prediction.recordId),
+        prediction: prediction.prediction,
+        actual: prediction.actual_variety,
+        scores: Object.fromEntries(
+          scorers.map((scorer, i) => [scorer.name, results[i]])
+        ),
+      }
+    })
+  )
+
+  const summaries = scorers.map(({ name, passThreshold }) => {
+    const scores = scored
+      .map((record) => record.scores[name].score)
+      .filter((score): score is number => score !== null)
+    return {
+      scorer: name,
+      meanScore: scores.length
+        ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+        : null,
+      passed: scores.filter((score) => score >= passThreshold).length,
+      scored: scores.length,
+      failed: scored.length - scores.length,
+    }
+  })
+
+  return { scored, summaries }
+}
+
+function logScorerSummaries(model: string, summaries: ScorerSummary[]) {
+  console.log(`Scorers for ${model}:`)
+  for (const { scorer, meanScore, passed, scored, failed } of summaries) {
+    const mean = meanScore === null ? '-' : meanScore.toFixed(3)
+    console.log(
+      `  ${scorer}: mean ${mean}, passed ${passed}/${scored}${
+        failed ? ` (${failed} failed)` : ''
+      }`
+    )
+  }
+  console.log()
+}
+
+// Writes one score and one rationale column per scorer for every prediction
+async function saveScores(
+  model: string,
+  scorers: Scorer[],
+  scored: ScoredPrediction[],
+  outputName: string
+): Promise<string> {
+  const filePath = `./data/scores_${model}_${outputName}.csv`
+  const writer = createObjectCsvWriter({
+    path: filePath,
+    header: [
+      { id: 'recordId', title: 'Record' },
+      { id: 'prediction', title: 'Prediction' },
+      { id: 'actual', title: 'Actual' },
+      ...scorers.flatMap(({ name }, i) => [
+        { id: `score${i}`, title: `${name} Score` },
+        { id: `rationale${i}`, title: `${name} Rationale` },
+      ]),
+    ],
+  })
+
+  await writer.writeRecords(
+    scored.map(({ recordId, prediction, actual, scores }) => ({
+      recordId,
+      prediction,
+      actual,
+      ...Object.fromEntries(
+        scorers.flatMap(({ name }, i) => [
+          [`score${i}`, scores[name].score ?? ''],
+          [`rationale${i}`, scores[name].rationale],
+        ])
+      ),
+    }))
+  )
+  return filePath
+}
+
+// Writes the per-model summary of every scorer
+async function saveScorerSummaries(
+  summaries: Array<{ model: string } & ScorerSummary>,
+  outputName: string
+): Promise<string> {
+  const filePath = `./data/scorer_summary_${outputName}.csv`
+  const writer = createObjectCsvWriter({
+    path: filePath,
+    header: [
+      { id: 'model', title: 'Model' },
+      { id: 'scorer', title: 'Scorer' },
+      { id: 'meanScore', title: 'Mean Score' },
+      { id: 'passed', title: 'Passed' },
+      { id: 'scored', title: 'Scored' },
+      { id: 'failed', title: 'Failed' },
+    ],
+  })
+
+  await writer.writeRecords(
+    summaries.map((summary) => ({
+      ...summary,
+      meanScore: summary.meanScore ?? '',
+    }))
+  )
+  return filePath
+}
+
+export {
+  createScorers,
+  runScorers,
+  logScorerSummaries,
+  saveScores,
+  saveScorerSummaries,
+  scorerConfigSchema,
+  Scorer,
+  ScorerConfig,
+  ScoreResult,
+  ScorerSummary,
+  ScoredPrediction,
+}
@@ -0,0 +1,177 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { PredictionChoice } from './model_provider'
+import {
+  resolveSelfConsistency,
+  summarizeAgreement,
+  tallyVotes,
+  DEFAULT_SELF_CONSISTENCY_TEMPERATURE,
+} from './self_consistency'
+
+// A sample answering `variety`, or a refusal when it is null
+function sample(variety: string | null): PredictionChoice {
+  return variety === null
+    ? { parsed: null, refusal: 'I cannot tell' }
+    : { parsed: { variety }, refusal: null, content: variety }
+}
+
+describe('tallyVotes', () => {
+  it('predicts the label most samples chose', () => {
+    const vote = tallyVotes(
+      ['Merlot', 'Riesling', 'Riesling', 'Syrah', 'Riesling'].map(sample),
+      'variety'
+    )
+
+    assert.equal(vote?.prediction, 'Riesling')
+    assert.deepEqual(vote?.votes, { Merlot: 1, Riesling: 3, Syrah: 1 })
+    assert.equal(vote?.agreement, 3 / 5)
+  })
+
+  it('breaks ties in favor of the label sampled first', () => {
+    const choices = ['Syrah', 'Merlot', 'Merlot', 'Syrah'].map(sample)
+    const vote = tallyVotes(choices, 'variety')
+
+    assert.equal(vote?.prediction, 'Syrah')
+    assert.equal(vote?.choice, choices[0])
+    assert.equal(vote?.agreement, 0.5)
+
+    const reversed = tallyVotes(
+      ['Merlot', 'Syrah', 'Syrah', 'Merlot'].map(sample),
+      'variety'
+    )
+    assert.equal(reversed?.prediction, 'Merlot')
+  })
+
+  it('keeps the first sample of the winning label as the choice', () => {
+    const choices = ['Merlot', 'Riesling', 'Riesling'].map(sample)
+    assert.equal(tallyVotes(choices, 'variety')?.choice, choices[1])
+  })
+
+  it('counts samples without a valid answer towards k', () => {
+    const vote = tallyVotes(
+      ['Riesling', null, 'Riesling', null, null].map(sample),
+      'variety'
+    )
+
+    assert.equal(vote?.prediction, 'Riesling')
+    assert.deepEqual(vote?.votes, { Riesling: 2 })
+    assert.equal(vote?.agreement, 2 / 5)
+  })
+
+  it('returns null when no sample has a valid answer', () => {
+    assert.equal(tallyVotes([null, null].map(sample), 'variety'), null)
+  })
+})
+
+describe('summarizeAgreement', () => {
+  it('gives accuracy per agreement level and when keeping the levels above', () => {
+    const summary = summarizeAgreement([
+      { agreement: 1, correct: true },
+      { agreement: 1, correct: true },
+      { agreement: 0.8, correct: true },
+      { agreement: 0.8, correct: false },
+      { agreement: 0.4, correct: false },
+    ])
+
+    assert.deepEqual(summary?.levels, [
+      {
+        agreement: 0.4,
+        records: 1,
+        correct: 0,
+        accuracy: 0,
+        keptRecords: 5,
+        keptAccuracy: 3 / 5,
+        coverage: 1,
+      },
+      {
+        agreement: 0.8,
+        records: 2,
+        correct: 1,
+        accuracy: 0.5,
+        keptRecords: 4,
+        keptAccuracy: 3 / 4,
+        coverage: 4 / 5,
+      },
+      {
+        agreement: 1,
+        records: 2,
+        correct: 2,
+        accuracy: 1,
+        keptRecords: 2,
+        keptAccuracy: 1,
+        coverage: 2 / 5,
+      },
+    ])
+    assert.deepEqual(summary?.highAgreement, {
+      threshold: 0.8,
+      records: 4,
+      coverage: 4 / 5,
+      accuracy: 3 / 4,
+    })
+  })
+
+  it('counts failed records in the coverage but not the accuracy', () => {
+    const summary = summarizeAgreement([
+      { agreement: 1, correct: true },
+      { agreement: 0.6, correct: false },
+      { agreement: null, correct: false },
+      { agreement: null, correct: false },
+    ])
+
+    assert.equal(summary?.totalRecords, 4)
+    assert.deepEqual(
+      summary?.levels.map(({ agreement, keptAccuracy, coverage }) => ({
+        agreement,
+        keptAccuracy,
+        coverage,
+      })),
+      [
+        { agreement: 0.6, keptAccuracy: 0.5, coverage: 0.5 },
+        { agreement: 1, keptAccuracy: 1, coverage: 0.25 },
+      ]
+    )
+    assert.deepEqual(summary?.highAgreement, {
+      threshold: 0.8,
+      records: 1,
+      coverage: 0.25,
+      accuracy: 1,
+    })
+  })
+
+  it('has no high-agreement accuracy when no record reaches the threshold', () => {
+    const summary = summarizeAgreement(
+      [
+        { agreement: 0.6, correct: true },
+        { agreement: null, correct: false },
+      ],
+      0.9
+    )
+    assert.deepEqual(summary?.highAgreement, {
+      threshold: 0.9,
+      records: 0,
+      coverage: 0,
+      accuracy: null,
+    })
+  })
+
+  it('returns null without self-consistency records', () => {
+    assert.equal(summarizeAgreement([{ agreement: null, correct: true }]), null)
+    assert.equal(summarizeAgreement([]), null)
+  })
+})
+
+describe('resolveSelfConsistency', () => {
+  it('applies the default temperature', () => {
+    assert.deepEqual(resolveSelfConsistency({ samples: 5 }), {
+      samples: 5,
+      temperature: DEFAULT_SELF_CONSISTENCY_TEMPERATURE,
+    })
+  })
+
+  it('needs a number of samples', () => {
+    assert.throws(
+      () => resolveSelfConsistency({ temperature: 1 }),
+      /needs a number of samples/
+    )
+  })
+})
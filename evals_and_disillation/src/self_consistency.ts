@@ -0,0 +1,167 @@
+import { z } from 'zod'
+import { PredictionChoice } from './model_provider'
+
+// Self-consistency sampling: k completions per record at a set temperature,
+// the label most of them chose becomes the prediction
+interface SelfConsistencyConfig {
+  samples: number // k, completions per record
+  temperature: number
+}
+
+// The majority label of a record's samples and how strongly they agree
+interface MajorityVote {
+  prediction: string
+  choice: PredictionChoice // First sample that voted for the prediction
+  votes: Record<string, number> // Valid samples per label
+  agreement: number // Share of all k samples that voted for the prediction
+}
+
+// Records sharing one agreement level, and the records kept when predictions
+// below that level are dropped
+interface AgreementLevel {
+  agreement: number
+  records: number
+  correct: number
+  accuracy: number
+  keptRecords: number // Records at this agreement or higher
+  keptAccuracy: number
+  coverage: number // Kept records over all records, failed ones included
+}
+
+interface AgreementSummary {
+  totalRecords: number
+  levels: AgreementLevel[] // Ascending agreement
+  highAgreement: {
+    threshold: number
+    records: number
+    coverage: number
+    accuracy: number | null // null when no record reaches the threshold
+  }
+}
+
+// Temperature used when only the number of samples is given
+const DEFAULT_SELF_CONSISTENCY_TEMPERATURE = 0.7
+
+// Agreement from which a prediction is trusted, e.g. as distillation data
+const HIGH_AGREEMENT_THRESHOLD = 0.8
+
+// Self-consistency settings of a config file or flags; samples may come from
+// the file and the temperature from a flag, so both are optional here
+const selfConsistencyOptionsSchema = z
+  .object({
+    samples: z.number().int().min(2).max(128).optional(),
+    temperature: z.number().min(0).max(2).optional(),
+  })
+  .strict()
+
+type SelfConsistencyOptions = z.infer<typeof selfConsistencyOptionsSchema>
+
+// Applies the default temperature to merged settings; they need a sample count
+function resolveSelfConsistency(
+  options: SelfConsistencyOptions
+): SelfConsistencyConfig {
+  if (options.samples === undefined) {
+    throw new Error(
+      'Self-consistency needs a number of samples (--self-consistency or selfConsistency.samples)'
+    )
+  }
+  return {
+    samples: options.samples,
+    temperature: options.temperature ?? DEFAULT_SELF_CONSISTENCY_TEMPERATURE,
+  }
+}
+
+// Takes the label most samples answered; ties go to the label sampled first.
+// Samples without a valid answer still count towards k, so they lower the
+// agreement. Returns null when no sample has a valid answer
+function tallyVotes(
+  choices: PredictionChoice[],
+  answerField: string
+): MajorityVote | null {
+  const votes: Record<string, number> = {}
+  const firstChoice = new Map<string, PredictionChoice>()
+  for (const choice of choices) {
+    if (!choice.parsed) continue
+    const label = String(choice.parsed[answerField])
+    votes[label] = (votes[label] ?? 0) + 1
+    if (!firstChoice.has(label)) firstChoice.set(label, choice)
+  }
+
+  // Map order is sampling order, so the first label wins ties
+  let prediction: string | undefined
+  for (const label of firstChoice.keys()) {
+    if (prediction === undefined || votes[label] > votes[prediction]) {
+      prediction = label
+    }
+  }
+  if (prediction === undefined) return null
+
+  return {
+    prediction,
+    choice: firstChoice.get(prediction)!,
+    votes,
+    agreement: votes[prediction] / choices.length,
+  }
+}
+
+// Accuracy as a function of agreement, and accuracy when only predictions at
+// or above each agreement level are kept. Records without an agreement (failed
+// records) count in the coverage denominator only. Returns null when no
+// record was predicted with self-consistency
+function summarizeAgreement(
+  records: { agreement: number | null; correct: boolean }[],
+  threshold: number = HIGH_AGREEMENT_THRESHOLD
+): AgreementSummary | null {
+  const voted = records.filter(
+    (record): record is { agreement: number; correct: boolean } =>
+      record.agreement !== null
+  )
+  if (!voted.length) return null
+
+  const keptAt = (level: number) => {
+    const kept = voted.filter(({ agreement }) => agreement >= level)
+    const correct = kept.filter((record) => record.correct).length
+    return {
+      records: kept.length,
+      coverage: kept.length / records.length,
+      accuracy: kept.length ? correct / kept.length : null,
+    }
+  }
+
+  const levels = [...new Set(voted.map(({ agreement }) => agreement))]
+    .sort((a, b) => a - b)
+    .map((agreement) => {
+      const atLevel = voted.filter((record) => record.agreement === agreement)
+      const correct = atLevel.filter((record) => record.correct).length
+      const kept = keptAt(agreement)
+      return {
+        agreement,
+        records: atLevel.length,
+        correct,
+        accuracy: correct / atLevel.length,
+        keptRecords: kept.records,
+        keptAccuracy: kept.accuracy!,
+        coverage: kept.coverage,
+      }
+    })
+
+  return {
+    totalRecords: records.length,
+    levels,
+    highAgreement: { threshold, ...keptAt(threshold) },
+  }
+}
+
+export {
+  tallyVotes,
+  summarizeAgreement,
+  resolveSelfConsistency,
+  selfConsistencyOptionsSchema,
+  DEFAULT_SELF_CONSISTENCY_TEMPERATURE,
+  HIGH_AGREEMENT_THRESHOLD,
+  SelfConsistencyConfig,
+  SelfConsistencyOptions,
+  MajorityVote,
+  AgreementLevel,
+  AgreementSummary,
+}
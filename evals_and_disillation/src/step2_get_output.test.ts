@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, describe, it, mock } from 'node:test'
+import { createFakeProvider, ModelProvider } from './model_provider'
+import { loadPredictionsFile } from './prediction_results'
+import { getPredictionsFilePath, runPredictions } from './step2_get_output'
+import { loadTaskDefinition, TaskDefinition } from './task_definition'
+
+const startDir = process.cwd()
+let dir: string
+let task: TaskDefinition
+
+// A five-record task in a temporary directory; predictions go to its data/
+before(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'predictions-'))
+  fs.mkdirSync(path.join(dir, 'data'))
+  fs.writeFileSync(
+    path.join(dir, 'wines.csv'),
+    [
+      'winery,description,variety',
+      'Trimbach,Petrol and lime like a Riesling,Riesling',
+      'Drouhin,Cherry and forest floor like a Pinot Noir,Pinot Noir',
+      'Petrus,Plum and cedar like a Merlot,Merlot',
+      'Egon Müller,Slate and peach like a Riesling,Riesling',
+      'Ornellaia,Blackcurrant like a Merlot,Merlot',
+    ].join('\n')
+  )
+  fs.writeFileSync(
+    path.join(dir, 'task.json'),
+    JSON.stringify({
+      name: 'wine_test',
+      datasets: { train: 'wines.csv', validation: 'wines.csv' },
+      inputColumns: ['winery', 'description'],
+      labelColumn: 'variety',
+      labels: ['Riesling', 'Pinot Noir', 'Merlot'],
+      systemPrompt: 'You are a sommelier.',
+      promptTemplate: '{{winery}}: {{description}}. Choose from {{labels}}.',
+      answerField: 'variety',
+      displayColumn: 'winery',
+    })
+  )
+  task = await loadTaskDefinition(path.join(dir, 'task.json'))
+  process.chdir(dir)
+  mock.method(console, 'log', () => {})
+})
+after(() => {
+  process.chdir(startDir)
+  mock.restoreAll()
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+// Fake provider that records the wineries it was asked about and refuses
+// the ones listed
+function createTrackingProvider(refused: string[] = []) {
+  const fake = createFakeProvider()
+  const asked: string[] = []
+  const provider: ModelProvider = {
+    name: 'fake',
+    async complete(request) {
+      const prompt = String(request.messages.at(-1)?.content)
+      const winery = prompt.slice(0, prompt.indexOf(':'))
+      asked.push(winery)
+      return refused.includes(winery)
+        ? { parsed: null, refusal: 'I cannot tell', content: null }
+        : fake.complete(request)
+    },
+  }
+  return { provider, asked }
+}
+
+describe('runPredictions with resume', () => {
+  it('skips the records already in the predictions file', async () => {
+    const runId = 'resume-run'
+    const filePath = getPredictionsFilePath('gpt-4o', 'validation', runId)
+
+    // The interrupted run got through two records, one of them refused
+    const first = createTrackingProvider(['Drouhin'])
+    await runPredictions({
+      task,
+      dataset: 'validation',
+      models: ['gpt-4o'],
+      recordIds: [0, 1],
+      timestamp: runId,
+      provider: first.provider,
+    })
+    assert.deepEqual(first.asked, ['Trimbach', 'Drouhin'])
+
+    const second = createTrackingProvider()
+    await runPredictions({
+      task,
+      dataset: 'validation',
+      models: ['gpt-4o'],
+      recordIds: [0, 1, 2, 3, 4],
+      timestamp: runId,
+      provider: second.provider,
+      resume: true,
+    })
+
+    // Failed records are left to retry-failed
+    assert.deepEqual(second.asked.sort(), [
+      'Egon Müller',
+      'Ornellaia',
+      'Petrus',
+    ])
+    const { records } = await loadPredictionsFile(filePath)
+    assert.deepEqual(
+      records.map(({ recordId }) => recordId).sort(),
+      [0, 1, 2, 3, 4]
+    )
+    assert.equal(
+      records.find(({ recordId }) => recordId === 1)?.errorClass,
+      'refusal'
+    )
+    // One header and one line per record: nothing was predicted twice
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n')
+    assert.equal(lines.length, 6)
+  })
+
+  it('predicts every record again without resume', async () => {
+    const runId = 'fresh-run'
+    await runPredictions({
+      task,
+      dataset: 'validation',
+      models: ['gpt-4o'],
+      recordIds: [0, 1],
+      timestamp: runId,
+      provider: createTrackingProvider().provider,
+    })
+
+    const again = createTrackingProvider()
+    await runPredictions({
+      task,
+      dataset: 'validation',
+      models: ['gpt-4o'],
+      recordIds: [0, 1],
+      timestamp: runId,
+      provider: again.provider,
+    })
+    assert.deepEqual(again.asked.sort(), ['Drouhin', 'Trimbach'])
+  })
+})
@@ -1,394 +1,796 @@
-import fs from 'fs'
-import Papa from 'papaparse'
-import { zodResponseFormat } from 'openai/helpers/zod'
-import { z } from 'zod'
 import OpenAI from 'openai'
-import pLimit, { LimitFunction } from 'p-limit'
+import { zodResponseFormat } from 'openai/helpers/zod'
+import {
+  ContentFilterFinishReasonError,
+  LengthFinishReasonError,
+} from 'openai/error'
+import { ZodError } from 'zod'
 import { setTimeout } from 'timers/promises'
-import { createObjectCsvWriter } from 'csv-writer'
-import dotenv from 'dotenv'
-import path from 'path'
-
-// Configure dotenv to read from .env file
-dotenv.config({ path: path.resolve(__dirname, '../.env') })
-
-// Update the OpenAI client initialization
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY, // Will use environment variable if present, otherwise .env file
-})
-
-// Core interfaces for handling wine data and predictions
-interface WineRecord {
-  winery: string
-  province: string
-  country: string
-  region_1: string
-  description: string
-  taster_name: string
-  points: number
-  price: number
-  variety: string
-}
-
-interface PredictionResult {
+import { runBatchPredictions } from './batch_predictions'
+import { deriveLabelConfidence } from './calibration'
+import {
+  createModelProvider,
+  createOpenAIClient,
+  ModelProvider,
+} from './model_provider'
+import {
+  appendPredictionRecords,
+  findPredictionsFile,
+  loadPredictionsFile,
+  openPredictionsFile,
+  FailureClass,
+  PredictionRecord,
+} from './prediction_results'
+import { formatCacheStats, isCachedProvider } from './response_cache'
+import { RunEventLog } from './run_events'
+import { tallyVotes, SelfConsistencyConfig } from './self_consistency'
+import { addUsage, calculateCost, emptyUsage, TokenUsage } from './pricing'
+import { classifyError, ErrorClassification } from './rate_limiter'
+import { estimateMessageTokens, estimateTokens } from './tokens'
+import {
+  buildTaskMessages,
+  createAnswerSchema,
+  getDatasetPath,
+  getSchemaName,
+  getTaskLabels,
+  inspectTaskRows,
+  loadPromptVariant,
+  loadTaskRecords,
+  renderPrompt,
+  PromptVariant,
+  TaskDefinition,
+  TaskRecord,
+} from './task_definition'
+
+// A sampled record together with its index among the dataset's valid records
+interface IndexedTaskRecord extends TaskRecord {
   recordId: number
-  model: string
-  prediction: string
-  timestamp: string
-  winery: string
-  variety: string
-  actual_variety: string
 }
 
-// Paths to the training and validation datasets
-const trainDataPath = './data/winemag_train_dataset.csv'
-const validationDataPath = './data/winemag_validation_dataset.csv'
+// The answer to one record (or why there is none), the response it came from
+// and what it cost to get it
+interface PredictionOutcome {
+  prediction: string | null
+  output: Record<string, unknown> | null
+  rawResponse: string | null
+  refusal: string | null
+  error: string | null
+  errorClass: FailureClass | null
+  attempts: number
+  usage: TokenUsage | null // null when no response was received
+  latencyMs: number
+  fromCache: boolean
+  votes: Record<string, number> | null // Self-consistency only
+  agreement: number | null
+  confidence: number | null // Logprobs only
+}
 
-// Generates a prompt for the AI model based on wine details and possible varieties
-// This is the core prompt engineering part of the system
-function generatePrompt(record: WineRecord, varieties: string[]): string {
-  const varietyList = varieties.join(', ')
+// Options for a single prediction run over one dataset
+interface PredictionRunConfig {
+  task: TaskDefinition
+  dataset: 'train' | 'validation'
+  models?: string[] // Models to run, in order
+  referenceModel?: string // Teacher model whose completions are stored (defaults to the first model)
+  storeCompletions?: boolean
+  numSamples?: number
+  recordIds?: number[] // Records to predict, chosen by the run's sampling strategy (defaults to the first numSamples)
+  timestamp: string
+  prompts?: string[] // Prompt variant ids; each one is run with every model
+  provider?: ModelProvider
+  resume?: boolean // Skip records already present in the prediction files
+  execution?: PredictionExecution
+  selfConsistency?: SelfConsistencyConfig // Vote over k sampled answers per record
+  logprobs?: boolean // Request token logprobs and record the label's confidence
+  client?: OpenAI // Batch API client (defaults to one from the environment)
+  events?: RunEventLog // Receives progress, request, retry and failure events
+  runConfig?: Record<string, unknown> // Recorded in the header of each predictions file
+  onProgress?: (
+    model: string,
+    promptId: string,
+    completed: number,
+    total: number
+  ) => void | Promise<void>
+}
 
-  return `
-Based on this wine review, guess the grape variety:
-This wine is produced by ${record.winery} in the ${record.province} region of ${record.country}.
-It was grown in ${record.region_1}. It is described as: "${record.description}".
-The wine has been reviewed by ${record.taster_name} and received ${record.points} points.
-The price is ${record.price}.
+// How requests are sent: one chat completion per record, or all records of a
+// model and prompt as one Batch API job (half price, results within 24h)
+type PredictionExecution = 'sync' | 'batch'
 
-Here is a list of possible grape varieties to choose from: ${varietyList}.
+// Requests a prediction run would send for one model and prompt, for dry runs
+interface PlannedRequests {
+  dataset: 'train' | 'validation'
+  model: string
+  promptId: string
+  requests: number
+  promptTokens: number // Estimated, including the response schema
+  completionTokens: number // Estimated from the longest possible answer
+  estimatedCost: number | null // null when the model has no known price
+}
 
-What is the likely grape variety? Answer only with the grape variety name or blend from the list.
-`
+// Free-text answers have no upper bound; assume a few sentences each
+const ESTIMATED_TEXT_ANSWER_TOKENS = 100
+
+// Failure classes of the error kinds the rate limiter distinguishes
+const failureClassByKind: Record<ErrorClassification['kind'], FailureClass> = {
+  rate_limit: 'rate_limit',
+  timeout: 'timeout',
+  client: 'bad_request',
+  server: 'server_error',
+  connection: 'connection',
+  unknown: 'unknown',
 }
 
-// Extracts unique wine varieties from a dataset file
-// Used to create the list of possible classifications for the model
-async function getUniqueVarieties(filePath: string): Promise<string[]> {
-  return new Promise((resolve, reject) => {
-    const varieties = new Set<string>()
-
-    fs.createReadStream(filePath)
-      .pipe(
-        Papa.parse(Papa.NODE_STREAM_INPUT, {
-          header: true,
-          skipEmptyLines: true,
-        })
-      )
-      .on('data', (record: any) => {
-        if (record.variety) {
-          varieties.add(record.variety.trim())
-        }
-      })
-      .on('error', reject)
-      .on('end', () => {
-        resolve(Array.from(varieties))
-      })
-  })
+// Classifies an error thrown while predicting, and whether asking again can help
+function classifyFailure(error: unknown): {
+  errorClass: FailureClass
+  retryable: boolean
+} {
+  if (error instanceof ContentFilterFinishReasonError) {
+    return { errorClass: 'refusal', retryable: false }
+  }
+  if (
+    error instanceof LengthFinishReasonError ||
+    error instanceof SyntaxError ||
+    error instanceof ZodError
+  ) {
+    return { errorClass: 'parse_error', retryable: true }
+  }
+  const { kind, retryable } = classifyError(error)
+  return { errorClass: failureClassByKind[kind], retryable }
 }
 
-// Makes a single prediction using the OpenAI API
-// Includes retry logic and proper error handling
+// Makes a single prediction through the given model provider
+// Retries 429s (the provider's rate limiter paces the retry), 5xx, timeouts and
+// invalid answers; refusals and other 4xx errors fail immediately. Failures
+// are returned, not thrown, so every record ends up in the predictions file.
+// With self-consistency, k answers are sampled in one request and the
+// majority label is the prediction. With logprobs, the probability of the
+// answer's tokens is recorded as its confidence
 async function getPrediction(
+  task: TaskDefinition,
+  promptVariant: PromptVariant,
+  provider: ModelProvider,
   model: string,
   prompt: string,
   responseFormat: any,
   timestamp: string,
-  storeCompletions: boolean = true,
+  shouldStore: boolean = false,
+  selfConsistency?: SelfConsistencyConfig,
+  logprobs: boolean = false,
+  onRetry?: (failure: PredictionOutcome, delayMs: number) => void,
   retries = 3
-): Promise<string> {
+): Promise<PredictionOutcome> {
+  const messages = buildTaskMessages(promptVariant, prompt)
+  let failure: PredictionOutcome | undefined
+
   for (let attempt = 1; attempt <= retries; attempt++) {
+    const startTime = Date.now()
     try {
-      const isBaseModel = model === 'gpt-4o'
-      const shouldStore = isBaseModel && storeCompletions
-
-      const messages: OpenAI.ChatCompletionMessageParam[] = [
-        {
-          role: 'system',
-          content:
-            "You're a sommelier expert and you know everything about wine. You answer precisely with the name of the variety/blend.",
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ]
-
-      type ParsedResponse = {
-        variety: string
-      }
-
-      const completion = await openai.beta.chat.completions.parse({
+      const message = await provider.complete({
         model: model,
         messages: messages,
-        response_format: responseFormat,
+        responseFormat: responseFormat,
         store: shouldStore,
         metadata: shouldStore
           ? {
-              purpose: 'wine_classification',
+              purpose: task.name,
               timestamp: timestamp,
             }
           : undefined,
+        temperature: selfConsistency?.temperature,
+        n: selfConsistency?.samples,
+        logprobs: logprobs || undefined,
       })
-      const message = completion.choices[0].message
+      // Without a valid sample the first one decides how the record fails
+      const vote = selfConsistency
+        ? tallyVotes(message.choices ?? [message], task.answerField)
+        : null
+      const choice = vote?.choice ?? message
+      const response = {
+        output: choice.parsed,
+        rawResponse: choice.content ?? null,
+        refusal: choice.refusal,
+        attempts: attempt,
+        usage: message.usage ?? emptyUsage,
+        latencyMs: Date.now() - startTime,
+        fromCache: Boolean(message.fromCache),
+        votes: vote?.votes ?? null,
+        agreement: vote?.agreement ?? null,
+        confidence: choice.parsed
+          ? deriveLabelConfidence(
+              choice.content,
+              choice.logprobs,
+              task.answerField
+            )
+          : null,
+      }
 
-      if (message.parsed) {
-        console.log('message.parsed', message.parsed)
-        return (message.parsed as ParsedResponse).variety
-      } else if (message.refusal) {
-        throw new Error('Model refused to classify')
+      if (choice.parsed) {
+        return {
+          ...response,
+          prediction:
+            vote?.prediction ?? String(choice.parsed[task.answerField]),
+          error: null,
+          errorClass: null,
+        }
+      } else if (choice.refusal) {
+        return {
+          ...response,
+          prediction: null,
+          error: 'Model refused to answer',
+          errorClass: 'refusal',
+        }
+      }
+      failure = {
+        ...response,
+        prediction: null,
+        error: 'No valid response received',
+        errorClass: 'parse_error',
       }
-      throw new Error('No valid response received')
     } catch (error) {
-      if (attempt === retries) throw error
-      const delay = Math.pow(2, attempt) * 1000 // Exponential backoff
+      const { errorClass, retryable } = classifyFailure(error)
+      failure = {
+        prediction: null,
+        output: null,
+        rawResponse: null,
+        refusal: null,
+        error: error instanceof Error ? error.message : String(error),
+        errorClass,
+        attempts: attempt,
+        usage: null,
+        latencyMs: Date.now() - startTime,
+        fromCache: false,
+        votes: null,
+        agreement: null,
+        confidence: null,
+      }
+      if (!retryable) return failure
+      if (errorClass === 'rate_limit') {
+        if (attempt < retries) onRetry?.(failure, 0)
+        continue
+      }
+    }
+
+    if (attempt < retries) {
+      // Exponential backoff with jitter
+      const delay = Math.pow(2, attempt) * 1000 * (0.5 + Math.random())
+      onRetry?.(failure!, Math.round(delay))
       await setTimeout(delay)
     }
   }
-  throw new Error('All retries failed')
+  return failure!
+}
+
+// Logs the final result of a record: a request event, plus a failure event
+// when it has no answer
+function emitRecordEvents(
+  events: RunEventLog | undefined,
+  task: TaskDefinition,
+  dataset: string,
+  result: PredictionRecord
+) {
+  if (!events) return
+  const context = { dataset, model: result.model, promptId: result.promptId }
+
+  events.emit({
+    type: 'request',
+    ...context,
+    recordId: result.recordId,
+    status: result.errorClass ? 'failed' : 'ok',
+    correct:
+      result.prediction === null || task.answerFormat === 'text'
+        ? null
+        : result.prediction === result.label,
+    attempts: result.attempts,
+    latencyMs: result.latencyMs,
+    cacheHit: result.cacheHit,
+    usage: result.usage,
+    batchId: result.batchId,
+  })
+  if (result.errorClass) {
+    events.emit({
+      type: 'failure',
+      ...context,
+      recordId: result.recordId,
+      errorClass: result.errorClass,
+      error: result.error ?? '',
+      attempts: result.attempts,
+    })
+  }
 }
 
-// Processes a batch of records in parallel while respecting rate limits
-// Returns an array of successful predictions
+// Processes a batch of records in parallel; pacing is left to the provider
+// Returns one result per record, failed records included
 async function processBatch(
-  records: WineRecord[],
-  startIdx: number,
+  task: TaskDefinition,
+  promptVariant: PromptVariant,
+  labels: string[],
+  records: IndexedTaskRecord[],
   model: string,
   timestamp: string,
-  limit: LimitFunction,
   storeCompletions: boolean,
-  responseFormat: any
-): Promise<PredictionResult[]> {
-  const varieties = await getUniqueVarieties(trainDataPath)
-  const promises = records.map((record, index) =>
-    limit(async () => {
-      try {
-        const prompt = generatePrompt(record, varieties)
-        const prediction = await getPrediction(
-          model,
-          prompt,
-          responseFormat,
-          timestamp,
-          storeCompletions
+  responseFormat: any,
+  provider: ModelProvider,
+  selfConsistency: SelfConsistencyConfig | undefined,
+  logprobs: boolean,
+  dataset: string,
+  events?: RunEventLog
+): Promise<PredictionRecord[]> {
+  return Promise.all(
+    records.map(async (record) => {
+      const prompt = renderPrompt(promptVariant, record, labels)
+      const { fromCache, ...outcome } = await getPrediction(
+        task,
+        promptVariant,
+        provider,
+        model,
+        prompt,
+        responseFormat,
+        timestamp,
+        storeCompletions,
+        selfConsistency,
+        logprobs,
+        (failure, delayMs) =>
+          events?.emit({
+            type: 'retry',
+            dataset,
+            model,
+            promptId: promptVariant.id,
+            recordId: record.recordId,
+            attempt: failure.attempts,
+            errorClass: failure.errorClass!,
+            error: failure.error ?? '',
+            delayMs,
+          })
+      )
+      if (outcome.errorClass) {
+        console.error(
+          `❌ Record ${record.recordId} failed (${outcome.errorClass}) after ${outcome.attempts} attempt(s): ${outcome.error}`
         )
-        return {
-          recordId: startIdx + index,
-          model,
-          prediction,
-          timestamp: new Date().toISOString(),
-          winery: record.winery,
-          variety: record.variety,
-          actual_variety: record.variety,
-        }
-      } catch (error) {
-        console.error(`Error processing record ${startIdx + index}:`, error)
-        return null
       }
+
+      const result: PredictionRecord = {
+        type: 'prediction',
+        recordId: record.recordId,
+        model,
+        promptId: promptVariant.id,
+        display: record.display,
+        label: record.label,
+        ...outcome,
+        cacheHit: fromCache,
+        batchId: null,
+        timestamp: new Date().toISOString(),
+      }
+      emitRecordEvents(events, task, dataset, result)
+      return result
     })
   )
+}
 
-  const batchResults = await Promise.all(promises)
-  return batchResults.filter(
-    (result: PredictionResult | null): result is PredictionResult =>
-      result !== null
-  )
+// Reads the record IDs already written to a predictions file
+// Used to skip finished records when resuming an interrupted run
+async function readCompletedRecordIds(filePath: string): Promise<Set<number>> {
+  if (!findPredictionsFile(filePath)) return new Set()
+  const { records } = await loadPredictionsFile(filePath)
+  return new Set(records.map(({ recordId }) => recordId))
 }
 
-// Helper function to determine if we're processing training or validation data
-function getDatasetType(datasetPath: string): string {
-  return datasetPath.includes('train') ? 'train' : 'validation'
+// Picks the records to predict; recordIds index into the dataset's valid records
+function sampleRecords(
+  records: TaskRecord[],
+  numSamples: number,
+  recordIds?: number[]
+): IndexedTaskRecord[] {
+  const selectedIds =
+    recordIds ??
+    records
+      .slice(0, numSamples === -1 ? undefined : numSamples)
+      .map((_, recordId) => recordId)
+  return selectedIds.map((recordId) => {
+    if (!records[recordId]) {
+      throw new Error(
+        `Record ${recordId} is not in the dataset (${records.length} valid records); was the dataset changed?`
+      )
+    }
+    return { ...records[recordId], recordId }
+  })
 }
 
 // Main function that orchestrates the prediction pipeline
 // Handles data loading, batching, and saving results
-async function main(
-  datasetPath: string,
-  comparisonModel: string = 'gpt-4o-mini',
-  storeCompletions: boolean = true,
-  numSamples: number = -1,
-  timestamp: string
-): Promise<void> {
-  const varieties = await getUniqueVarieties(trainDataPath)
+async function main({
+  task,
+  dataset,
+  models = ['gpt-4o', 'gpt-4o-mini'],
+  referenceModel = models[0],
+  storeCompletions = true,
+  numSamples = -1,
+  recordIds,
+  timestamp,
+  prompts = ['default'],
+  provider = createModelProvider(),
+  resume = false,
+  execution = 'sync',
+  selfConsistency,
+  logprobs = false,
+  client,
+  events,
+  runConfig,
+  onProgress,
+}: PredictionRunConfig): Promise<void> {
+  // The Batch API bypasses the provider, so only OpenAI runs can use it
+  if (
+    execution === 'batch' &&
+    provider.name.replace(/^cached\((.*)\)$/, '$1') !== 'openai'
+  ) {
+    throw new Error(
+      `Batch execution needs the openai model provider, not ${provider.name}`
+    )
+  }
+  if (selfConsistency && task.answerFormat === 'text') {
+    throw new Error(
+      `Self-consistency votes over labels; task ${task.name} has free-text answers`
+    )
+  }
+  if (logprobs && task.answerFormat === 'text') {
+    throw new Error(
+      `Logprob confidence is computed for labels; task ${task.name} has free-text answers`
+    )
+  }
+  const labels = await getTaskLabels(task)
 
   // Define the schema using zod with descriptions
-  const wineVarietySchema = z.object({
-    variety: z
-      .enum(varieties as [string, ...string[]])
-      .describe('The grape variety or blend from the provided list'),
-  })
+  const answerSchema = createAnswerSchema(task, labels)
 
   // Create response format using the zodResponseFormat helper
-  const responseFormat = zodResponseFormat(
-    wineVarietySchema,
-    'wine_variety_prediction'
-  )
+  const responseFormat = zodResponseFormat(answerSchema, getSchemaName(task))
+
+  const {
+    totalRows,
+    records: validRecords,
+    dropped,
+  } = await inspectTaskRows(task, getDatasetPath(task, dataset))
+
+  console.log('Parsing Stats:', {
+    totalRows,
+    totalValid: validRecords.length,
+    ...(Object.keys(dropped).length ? { dropped } : {}),
+  })
 
-  return new Promise((resolve, reject) => {
-    const validRecords: WineRecord[] = []
-    const fileStream = fs.createReadStream(datasetPath, 'utf8')
+  const sampledRecords = sampleRecords(validRecords, numSamples, recordIds)
 
-    const parseConfig: Papa.ParseConfig = {
-      header: true,
-      dynamicTyping: true,
-      skipEmptyLines: true,
-      transform: (value) => value?.trim(),
-    }
+  const promptVariants = await Promise.all(
+    prompts.map((id) => loadPromptVariant(task, id))
+  )
+
+  console.log(
+    `Task: ${task.name} (${
+      task.answerFormat === 'text'
+        ? 'free-text answers'
+        : `${labels.length} labels`
+    })`
+  )
+  console.log(
+    `Using model provider: ${provider.name}${
+      execution === 'batch' ? ' (Batch API)' : ''
+    }`
+  )
+  if (selfConsistency) {
+    console.log(
+      `🗳️  Self-consistency: majority vote over ${selfConsistency.samples} samples per record at temperature ${selfConsistency.temperature}`
+    )
+  }
 
-    const parseStream = Papa.parse(Papa.NODE_STREAM_INPUT, parseConfig)
+  // Every prompt variant is run with every model on the same sampled records
+  const runs = promptVariants.flatMap((promptVariant) =>
+    models.map((model) => ({ promptVariant, model }))
+  )
 
-    // Handle stream errors
-    fileStream.on('error', (error) => {
-      reject(new Error(`File stream error: ${error.message}`))
+  // Process runs sequentially
+  for (const { promptVariant, model } of runs) {
+    console.log(
+      `\n Starting processing with model: ${model}${
+        promptVariant.id === 'default' ? '' : ` (prompt: ${promptVariant.id})`
+      }`
+    )
+
+    const filePath = getPredictionsFilePath(
+      model,
+      dataset,
+      timestamp,
+      promptVariant.id
+    )
+    const completedIds = resume
+      ? await readCompletedRecordIds(filePath)
+      : new Set<number>()
+    await openPredictionsFile(filePath, {
+      runId: timestamp,
+      task: task.name,
+      dataset,
+      model,
+      promptId: promptVariant.id,
+      config: runConfig ?? {
+        numSamples,
+        storeCompletions,
+        referenceModel,
+        provider: provider.name,
+      },
     })
-
-    parseStream.on('error', (error) => {
-      reject(new Error(`Parse stream error: ${error.message}`))
+    const pendingRecords = sampledRecords.filter(
+      (record) => !completedIds.has(record.recordId)
+    )
+    let totalProcessed = sampledRecords.length - pendingRecords.length
+    let totalFailed = 0
+    let runUsage = emptyUsage
+    let runCost = 0
+    const context = { dataset, model, promptId: promptVariant.id }
+    const startTime = Date.now()
+    events?.emit({
+      type: 'predictions_start',
+      ...context,
+      execution,
+      total: sampledRecords.length,
+      completed: totalProcessed,
     })
 
-    // Read the file using streaming
-    fileStream
-      .pipe(parseStream)
-      .on('data', (record: any) => {
-        if (record.winery && record.variety && record.description) {
-          validRecords.push({
-            winery: record.winery,
-            province: record.province,
-            country: record.country,
-            region_1: record.region_1,
-            description: record.description,
-            taster_name: record.taster_name,
-            points: record.points,
-            price: record.price,
-            variety: record.variety,
-          })
-        }
-      })
-      .on('error', (error) => {
-        reject(new Error(`Processing error: ${error.message}`))
+    if (resume) {
+      console.log(
+        `↩️  Resuming: ${totalProcessed} records already predicted, ${pendingRecords.length} remaining`
+      )
+    }
+
+    // Saves the results of a batch (of either kind) and tracks progress and cost
+    const recordResults = async (batchResults: PredictionRecord[]) => {
+      totalProcessed += batchResults.length
+      totalFailed += batchResults.filter(({ errorClass }) => errorClass).length
+      for (const result of batchResults) {
+        if (result.cacheHit || !result.usage) continue
+        runUsage = addUsage(runUsage, result.usage)
+        runCost +=
+          calculateCost(model, result.usage, result.batchId !== null) ?? 0
+      }
+
+      await saveResults(batchResults, filePath, model, dataset)
+      await onProgress?.(
+        model,
+        promptVariant.id,
+        totalProcessed,
+        sampledRecords.length
+      )
+    }
+    const percentComplete = () =>
+      ((totalProcessed / sampledRecords.length) * 100).toFixed(1)
+
+    if (execution === 'batch') {
+      await runBatchPredictions({
+        client: (client ??= createOpenAIClient()),
+        task,
+        promptVariant,
+        labels,
+        records: pendingRecords,
+        model,
+        responseFormat,
+        answerSchema,
+        predictionsFile: filePath,
+        timestamp,
+        store: storeCompletions && model === referenceModel,
+        selfConsistency,
+        logprobs,
+        pollIntervalMs: Number(process.env.BATCH_POLL_INTERVAL_MS) || undefined,
+        dataset,
+        events,
+        onResults: async (batchResults) => {
+          batchResults.forEach((result) =>
+            emitRecordEvents(events, task, dataset, result)
+          )
+          await recordResults(batchResults)
+          console.log(
+            `📈 Progress: ${percentComplete()}% (${totalProcessed}/${sampledRecords.length} records processed)`
+          )
+        },
       })
-      .on('end', async () => {
-        try {
-          console.log('Parsing Stats:', {
-            totalValid: validRecords.length,
-          })
+    } else {
+      for (let i = 0; i < pendingRecords.length; i += BATCH_SIZE) {
+        const batchRecords = pendingRecords.slice(i, i + BATCH_SIZE)
+
+        const batchNumber = Math.floor(i / BATCH_SIZE) + 1
+        const totalBatches = Math.ceil(pendingRecords.length / BATCH_SIZE)
+
+        console.log(`\n🔄 Processing batch ${batchNumber}/${totalBatches}...`)
+        const batch = `${batchNumber}/${totalBatches}`
+        events?.emit({
+          type: 'batch_start',
+          ...context,
+          batch,
+          records: batchRecords.length,
+        })
 
-          function sampleRecords(records: WineRecord[], numSamples: number) {
-            return numSamples === -1
-              ? records.slice(0) // Return all records if numSamples is -1
-              : records.slice(0, numSamples) // Return a sample of records if numSamples is a positive number
-          }
-
-          const sampledRecords = sampleRecords(validRecords, numSamples)
-
-          // Create rate limiter - 3 requests per second (conservative rate limiting)
-          const limit = pLimit(3)
-
-          // Process models sequentially
-          for (const model of ['gpt-4o', comparisonModel]) {
-            console.log(`\n Starting processing with model: ${model}`)
-            let totalProcessed = 0
-
-            for (let i = 0; i < sampledRecords.length; i += BATCH_SIZE) {
-              const batchRecords = sampledRecords.slice(i, i + BATCH_SIZE)
-
-              const batchNumber = Math.floor(i / BATCH_SIZE) + 1
-              const totalBatches = Math.ceil(sampledRecords.length / BATCH_SIZE)
-
-              console.log(
-                `\n🔄 Processing batch ${batchNumber}/${totalBatches}...`
-              )
-
-              const batchStartTime = Date.now()
-              const batchResults = await processBatch(
-                batchRecords,
-                i,
-                model,
-                timestamp,
-                limit,
-                storeCompletions,
-                responseFormat
-              )
-
-              totalProcessed += batchResults.length
-              const percentComplete = (
-                ((i + batchRecords.length) / sampledRecords.length) *
-                100
-              ).toFixed(1)
-              const batchDuration = (
-                (Date.now() - batchStartTime) /
-                1000
-              ).toFixed(1)
-
-              // Save batch results
-              await saveResults(batchResults, model, timestamp, datasetPath)
-
-              console.log(
-                `✓ Batch ${batchNumber} completed in ${batchDuration}s`
-              )
-              console.log(
-                `📈 Progress: ${percentComplete}% (${totalProcessed}/${sampledRecords.length} records processed)`
-              )
-
-              if (i + BATCH_SIZE < sampledRecords.length) {
-                console.log('⏳ Waiting 30 seconds before next batch...')
-                await setTimeout(30000)
-              }
-            }
+        const batchStartTime = Date.now()
+        const batchResults = await processBatch(
+          task,
+          promptVariant,
+          labels,
+          batchRecords,
+          model,
+          timestamp,
+          storeCompletions && model === referenceModel,
+          responseFormat,
+          provider,
+          selfConsistency,
+          logprobs,
+          dataset,
+          events
+        )
+        await recordResults(batchResults)
+        events?.emit({
+          type: 'batch_end',
+          ...context,
+          batch,
+          records: batchResults.length,
+          failed: batchResults.filter(({ errorClass }) => errorClass).length,
+          durationMs: Date.now() - batchStartTime,
+        })
+        const batchDuration = ((Date.now() - batchStartTime) / 1000).toFixed(1)
 
-            console.log(
-              `\n✅ Completed processing for model ${model}: ${totalProcessed} records processed\n`
-            )
-          }
+        console.log(`✓ Batch ${batchNumber} completed in ${batchDuration}s`)
+        console.log(
+          `📈 Progress: ${percentComplete()}% (${totalProcessed}/${sampledRecords.length} records processed)`
+        )
+      }
+    }
+    events?.emit({
+      type: 'predictions_end',
+      ...context,
+      completed: totalProcessed,
+      failed: totalFailed,
+      durationMs: Date.now() - startTime,
+    })
 
-          resolve()
-        } catch (error) {
-          reject(error)
-        }
+    console.log(
+      `\n✅ Completed processing for model ${model}: ${totalProcessed} records processed${
+        totalFailed
+          ? `, ${totalFailed} failed (rerun them with retry-failed ${timestamp})`
+          : ''
+      }\n`
+    )
+    console.log(
+      `🪙 Tokens used: ${runUsage.promptTokens} prompt (${
+        runUsage.cachedTokens
+      } cached), ${
+        runUsage.completionTokens
+      } completion, cost $${runCost.toFixed(4)}\n`
+    )
+    if (isCachedProvider(provider)) {
+      console.log(
+        `💾 Response cache (run total): ${formatCacheStats(
+          provider.cacheStats
+        )}\n`
+      )
+    }
+  }
+}
+
+// Works out the requests a prediction run would make, without sending any
+// Token counts are estimates (about 4 characters per token)
+async function planPredictions({
+  task,
+  dataset,
+  models = ['gpt-4o', 'gpt-4o-mini'],
+  numSamples = -1,
+  recordIds,
+  timestamp,
+  prompts = ['default'],
+  resume = false,
+  execution = 'sync',
+  selfConsistency,
+}: PredictionRunConfig): Promise<PlannedRequests[]> {
+  const labels = await getTaskLabels(task)
+  const responseFormat = zodResponseFormat(
+    createAnswerSchema(task, labels),
+    getSchemaName(task)
+  )
+  const schemaTokens = estimateTokens(
+    JSON.stringify(responseFormat.json_schema)
+  )
+  const longestLabel = labels.reduce(
+    (longest, label) => (label.length > longest.length ? label : longest),
+    ''
+  )
+  const answerTokens =
+    task.answerFormat === 'text'
+      ? ESTIMATED_TEXT_ANSWER_TOKENS
+      : estimateTokens(JSON.stringify({ [task.answerField]: longestLabel }))
+
+  const sampledRecords = sampleRecords(
+    await loadTaskRecords(task, getDatasetPath(task, dataset)),
+    numSamples,
+    recordIds
+  )
+
+  const plans: PlannedRequests[] = []
+  for (const promptId of prompts) {
+    const promptVariant = await loadPromptVariant(task, promptId)
+    const requestTokens = new Map(
+      sampledRecords.map((record) => [
+        record.recordId,
+        estimateMessageTokens(
+          buildTaskMessages(
+            promptVariant,
+            renderPrompt(promptVariant, record, labels)
+          )
+        ) + schemaTokens,
+      ])
+    )
+
+    for (const model of models) {
+      const completedIds = resume
+        ? await readCompletedRecordIds(
+            getPredictionsFilePath(model, dataset, timestamp, promptId)
+          )
+        : new Set<number>()
+      const pending = sampledRecords.filter(
+        ({ recordId }) => !completedIds.has(recordId)
+      )
+      const usage = {
+        promptTokens: pending.reduce(
+          (total, { recordId }) => total + (requestTokens.get(recordId) ?? 0),
+          0
+        ),
+        // Every sample is a completion billed in full
+        completionTokens:
+          pending.length * answerTokens * (selfConsistency?.samples ?? 1),
+        cachedTokens: 0,
+      }
+      plans.push({
+        dataset,
+        model,
+        promptId,
+        requests: pending.length,
+        ...usage,
+        estimatedCost: calculateCost(model, usage, execution === 'batch'),
       })
-  })
+    }
+  }
+  return plans
 }
 
-// Constants for rate limiting
-const REQUESTS_PER_MINUTE = 200
-const BATCH_SIZE = Math.floor(REQUESTS_PER_MINUTE / 4)
+// Records per batch; results are saved (and progress checkpointed) after each batch
+// Request pacing itself is handled by the provider's adaptive rate limiter
+const BATCH_SIZE = 50
 
-// Saves batch results to a CSV file with proper dataset labeling
+// Appends batch results to the run's predictions file
 async function saveResults(
-  results: PredictionResult[],
+  results: PredictionRecord[],
+  filePath: string,
   model: string,
-  timestamp: string,
-  datasetPath: string
+  datasetType: string
 ) {
   if (results.length === 0) return
 
-  const datasetType = getDatasetType(datasetPath)
-  const csvWriter = createCsvWriter(model, timestamp, datasetType)
-  await csvWriter.writeRecords(results)
+  await appendPredictionRecords(filePath, results)
   console.log(
     `✓ Saved ${results.length} new results for model ${model} (${datasetType} dataset)`
   )
 }
 
-// Creates a CSV writer with the correct headers and file path
-function createCsvWriter(
+// Builds the predictions file path for a model, dataset type and run timestamp
+// Prompt variants other than the default get their own file
+function getPredictionsFilePath(
   model: string,
+  datasetType: string,
   timestamp: string,
-  datasetType: string
-) {
-  return createObjectCsvWriter({
-    path: `./data/predictions_${model}_${datasetType}_${timestamp}.csv`,
-    header: [
-      { id: 'recordId', title: 'Record ID' },
-      { id: 'model', title: 'Model' },
-      { id: 'prediction', title: 'Prediction' },
-      { id: 'timestamp', title: 'Timestamp' },
-      { id: 'winery', title: 'Winery' },
-      { id: 'variety', title: 'Original Variety' },
-      { id: 'actual_variety', title: 'Actual Variety' },
-    ],
-    append: true,
-  })
+  promptId: string = 'default'
+): string {
+  const prompt = promptId === 'default' ? '' : `_${promptId}`
+  return `./data/predictions_${model}_${datasetType}${prompt}_${timestamp}.jsonl`
 }
 
 // Update the export
-export { main as runPredictions, trainDataPath, validationDataPath }
+export {
+  main as runPredictions,
+  planPredictions,
+  getPredictionsFilePath,
+  PlannedRequests,
+  PredictionExecution,
+  PredictionRunConfig,
+}
@@ -1,6 +1,38 @@
-import fs from 'fs'
-import Papa, { ParseConfig } from 'papaparse'
 import { createObjectCsvWriter } from 'csv-writer'
+import { summarizeCalibration, CalibrationSummary } from './calibration'
+import {
+  computeClassificationMetrics,
+  getTopConfusions,
+  ClassificationMetrics,
+} from './classification_metrics'
+import {
+  comparePairedPredictions,
+  PairedComparisonResult,
+} from './paired_comparison'
+import { addUsage, calculateCost, emptyUsage, TokenUsage } from './pricing'
+import {
+  buildLeaderboard,
+  logLeaderboard,
+  saveLeaderboard,
+} from './leaderboard'
+import { createLabelMatcher, LabelMatcher, MatchKind } from './label_matcher'
+import {
+  logScorerSummaries,
+  runScorers,
+  saveScorerSummaries,
+  saveScores,
+  Scorer,
+  ScorerSummary,
+} from './scorers'
+import {
+  loadPredictionsFile,
+  FailureClass,
+  PredictionRecord,
+} from './prediction_results'
+import { summarizeAgreement, AgreementSummary } from './self_consistency'
+import { TaskRecord } from './task_definition'
+import { saveHtmlReport, ReportOptions } from './html_report'
+import { createRunId } from './run_registry'
 
 // Core interfaces for analyzing wine prediction results
 interface WinePredictionRecord {
@@ -11,6 +43,28 @@ interface WinePredictionRecord {
   winery: string
   variety: string
   actual_variety: string
+  usage?: TokenUsage // Missing in files written before usage was recorded
+  latencyMs?: number
+  cacheHit?: boolean
+  batch?: boolean // Answered through the Batch API, at the batch price
+  promptId?: string // Missing in files written before prompt variants
+  agreement?: number // Share of self-consistency samples that voted for the prediction
+  confidence?: number // Probability of the prediction from token logprobs
+  failure?: {
+    // Set when the model gave no answer; `prediction` is then empty
+    errorClass: FailureClass
+    error: string
+    attempts: number
+  }
+}
+
+// Token, cost and latency totals for one model's predictions
+interface UsageSummary {
+  recordsWithUsage: number
+  usage: TokenUsage
+  totalCost: number | null // null when the model has no known price
+  costPerCorrect: number | null
+  meanLatencyMs: number | null
 }
 
 // Analysis results structure containing accuracy metrics and example errors
@@ -19,49 +73,67 @@ interface WineAnalysisResult {
   totalPredictions: number
   correctPredictions: number
   accuracy: number
+  lenientCorrect: number // Sum of matcher credit (aliases, normalization, partial blends)
+  lenientAccuracy: number
+  matchCounts: Record<MatchKind, number>
+  failedPredictions: number // Records without an answer, counted as wrong
+  failuresByClass: Partial<Record<FailureClass, number>>
   incorrectExamples: Array<{
     winery: string
     predicted: string
     actual: string
     description?: string
   }>
+  metrics: ClassificationMetrics
+  usageSummary: UsageSummary
+  agreementSummary: AgreementSummary | null // null unless predicted with self-consistency
+  calibration: CalibrationSummary | null // null unless predicted with logprobs
 }
 
-// Validates that a record contains all required fields for analysis
-// Used to ensure data quality before processing
-function validateWinePredictionRecord(
-  record: any
-): record is WinePredictionRecord {
-  const isValid =
-    typeof record === 'object' &&
-    record !== null &&
-    (typeof record.recordId === 'number' ||
-      typeof record.recordId === 'string') &&
-    typeof record.model === 'string' &&
-    typeof record.prediction === 'string' &&
-    typeof record.winery === 'string' &&
-    typeof record.variety === 'string' &&
-    typeof record.actual_variety === 'string'
-
-  return isValid
-}
+// Stands in for the answer of failed records in the per-label metrics
+const FAILED_PREDICTION = '(failed)'
 
 // Calculates accuracy metrics for a set of predictions
+// Strict accuracy needs an exact label; lenient accuracy sums the matcher's credit
+// Failed records stay in the denominator, so failures lower accuracy
 // Returns detailed analysis including sample incorrect predictions
+// Calibration defers unconfident records to the fallback model's predictions
 function calculateWineAccuracy(
-  predictions: WinePredictionRecord[]
+  predictions: WinePredictionRecord[],
+  matcher: LabelMatcher = createLabelMatcher(),
+  fallbackPredictions?: WinePredictionRecord[]
 ): WineAnalysisResult {
   if (!predictions.length) {
     throw new Error('No predictions to analyze')
   }
 
   let correctPredictions = 0
+  let lenientCorrect = 0
+  const matchCounts: Record<MatchKind, number> = {
+    exact: 0,
+    normalized: 0,
+    alias: 0,
+    partial: 0,
+    none: 0,
+  }
   const incorrectExamples: WineAnalysisResult['incorrectExamples'] = []
+  const failuresByClass: WineAnalysisResult['failuresByClass'] = {}
 
   for (const prediction of predictions) {
-    const isCorrect = prediction.prediction === prediction.actual_variety
+    if (prediction.failure) {
+      const { errorClass } = prediction.failure
+      failuresByClass[errorClass] = (failuresByClass[errorClass] ?? 0) + 1
+      continue
+    }
+
+    const match = matcher.match(
+      prediction.prediction,
+      prediction.actual_variety
+    )
+    matchCounts[match.kind]++
+    lenientCorrect += match.credit
 
-    if (isCorrect) {
+    if (match.strict) {
       correctPredictions++
     } else {
       incorrectExamples.push({
@@ -77,169 +149,794 @@ function calculateWineAccuracy(
     totalPredictions: predictions.length,
     correctPredictions,
     accuracy: correctPredictions / predictions.length,
+    lenientCorrect,
+    lenientAccuracy: lenientCorrect / predictions.length,
+    matchCounts,
+    failedPredictions: predictions.filter(({ failure }) => failure).length,
+    failuresByClass,
     incorrectExamples: incorrectExamples.slice(0, 5),
+    metrics: computeClassificationMetrics(
+      predictions.map((prediction) => ({
+        predicted: prediction.failure
+          ? FAILED_PREDICTION
+          : prediction.prediction,
+        actual: prediction.actual_variety,
+      }))
+    ),
+    usageSummary: summarizeUsage(predictions, correctPredictions),
+    agreementSummary: summarizeAgreement(
+      predictions.map((prediction) => ({
+        agreement: prediction.agreement ?? null,
+        correct: isStrictlyCorrect(prediction, matcher),
+      }))
+    ),
+    calibration: summarizeCalibration(
+      predictions.map((prediction) => ({
+        recordId: prediction.recordId,
+        confidence: prediction.confidence ?? null,
+        correct: isStrictlyCorrect(prediction, matcher),
+      })),
+      fallbackPredictions && {
+        model: fallbackPredictions[0].model,
+        correct: new Map(
+          fallbackPredictions.map((prediction) => [
+            prediction.recordId,
+            isStrictlyCorrect(prediction, matcher),
+          ])
+        ),
+      }
+    ),
+  }
+}
+
+function isStrictlyCorrect(
+  prediction: WinePredictionRecord,
+  matcher: LabelMatcher
+): boolean {
+  return (
+    !prediction.failure &&
+    matcher.match(prediction.prediction, prediction.actual_variety).strict
+  )
+}
+
+// Sums tokens and cost over the predictions that recorded usage
+// Cache hits count towards tokens but not towards cost
+function summarizeUsage(
+  predictions: WinePredictionRecord[],
+  correctPredictions: number
+): UsageSummary {
+  const withUsage = predictions.filter((prediction) => prediction.usage)
+  const model = predictions[0].model
+  let usage = emptyUsage
+  let totalCost: number | null = 0
+
+  for (const prediction of withUsage) {
+    usage = addUsage(usage, prediction.usage!)
+    if (prediction.cacheHit) continue
+
+    const cost = calculateCost(model, prediction.usage!, prediction.batch)
+    totalCost = cost === null || totalCost === null ? null : totalCost + cost
+  }
+
+  const latencies = withUsage
+    .map((prediction) => prediction.latencyMs)
+    .filter((latency): latency is number => typeof latency === 'number')
+
+  if (!withUsage.length) totalCost = null
+
+  return {
+    recordsWithUsage: withUsage.length,
+    usage,
+    totalCost,
+    costPerCorrect:
+      totalCost !== null && correctPredictions > 0
+        ? totalCost / correctPredictions
+        : null,
+    meanLatencyMs: latencies.length
+      ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length
+      : null,
+  }
+}
+
+// Writes per-label precision/recall/F1 plus the averaged rows for each model
+async function saveClassMetrics(
+  results: WineAnalysisResult[],
+  outputName: string
+): Promise<string> {
+  const filePath = `./data/class_metrics_${outputName}.csv`
+  const writer = createObjectCsvWriter({
+    path: filePath,
+    header: [
+      { id: 'model', title: 'Model' },
+      { id: 'label', title: 'Label' },
+      { id: 'precision', title: 'Precision' },
+      { id: 'recall', title: 'Recall' },
+      { id: 'f1', title: 'F1' },
+      { id: 'support', title: 'Support' },
+    ],
+  })
+
+  await writer.writeRecords(
+    results.flatMap(({ model, metrics, totalPredictions }) => [
+      ...metrics.perClass.map((classMetrics) => ({ model, ...classMetrics })),
+      ...(['macro', 'micro', 'weighted'] as const).map((average) => ({
+        model,
+        label: `(${average} avg)`,
+        ...metrics[average],
+        support: totalPredictions,
+      })),
+    ])
+  )
+  return filePath
+}
+
+// Writes the confusion matrix of one model: rows are actual varieties,
+// columns are predicted varieties
+async function saveConfusionMatrix(
+  { model, metrics }: WineAnalysisResult,
+  outputName: string
+): Promise<string> {
+  const { labels, counts } = metrics.confusionMatrix
+  const filePath = `./data/confusion_matrix_${model}_${outputName}.csv`
+  const writer = createObjectCsvWriter({
+    path: filePath,
+    header: [
+      { id: 'actual', title: 'Actual \\ Predicted' },
+      ...labels.map((label, i) => ({ id: `c${i}`, title: label })),
+    ],
+  })
+
+  await writer.writeRecords(
+    labels.map((actual, i) => ({
+      actual,
+      ...Object.fromEntries(counts[i].map((count, j) => [`c${j}`, count])),
+    }))
+  )
+  return filePath
+}
+
+// Maps a predictions file record to the fields the analysis works with
+function toAnalysisRecord(record: PredictionRecord): WinePredictionRecord {
+  return {
+    recordId: record.recordId,
+    model: record.model,
+    prediction: record.prediction ?? '',
+    timestamp: record.timestamp,
+    winery: record.display,
+    variety: record.label,
+    actual_variety: record.label,
+    usage: record.usage ?? undefined,
+    latencyMs: record.latencyMs ?? undefined,
+    cacheHit: record.cacheHit,
+    batch: record.batchId !== null,
+    promptId: record.promptId,
+    agreement: record.agreement ?? undefined,
+    confidence: record.confidence ?? undefined,
+    failure:
+      record.prediction === null
+        ? {
+            errorClass: record.errorClass ?? 'unknown',
+            error: record.error ?? 'No answer recorded',
+            attempts: record.attempts,
+          }
+        : undefined,
   }
 }
 
-// Reads and parses a predictions CSV file
-// Handles streaming for memory efficiency with large datasets
+// Reads the records of a predictions file (JSONL, or a CSV written by older
+// versions), failed records included
 async function readPredictionsFile(
   filePath: string
 ): Promise<WinePredictionRecord[]> {
-  if (!fs.existsSync(filePath)) {
-    throw new Error(`File not found: ${filePath}`)
+  const { records } = await loadPredictionsFile(filePath)
+  if (records.length === 0) {
+    throw new Error(`No valid records found in ${filePath}`)
   }
+  return records.map(toAnalysisRecord)
+}
 
-  return new Promise((resolve, reject) => {
-    const validRecords: WinePredictionRecord[] = []
-    const fileStream = fs.createReadStream(filePath, 'utf8')
+// e.g. "2 refusal, 1 timeout"
+function formatFailureClasses(
+  failuresByClass: WineAnalysisResult['failuresByClass']
+): string {
+  return Object.entries(failuresByClass)
+    .map(([errorClass, count]) => `${count} ${errorClass}`)
+    .join(', ')
+}
 
-    const parseConfig: ParseConfig = {
-      header: false,
-      dynamicTyping: true,
-      skipEmptyLines: true,
-      transform: (value) => value?.trim(),
-    }
+function logUsageSummary({
+  recordsWithUsage,
+  usage,
+  totalCost,
+  costPerCorrect,
+  meanLatencyMs,
+}: UsageSummary) {
+  if (!recordsWithUsage) {
+    console.log('Usage: not recorded in this predictions file')
+    return
+  }
 
-    const parseStream = Papa.parse(Papa.NODE_STREAM_INPUT, parseConfig)
-
-    fileStream
-      .pipe(parseStream)
-      .on('data', (record: any[]) => {
-        const timestamp =
-          record[3] instanceof Date
-            ? record[3].toISOString()
-            : String(record[3])
-
-        const mappedRecord = {
-          recordId: record[0],
-          model: record[1],
-          prediction: String(record[2]),
-          timestamp: timestamp,
-          winery: String(record[4]),
-          variety: String(record[5]),
-          actual_variety: String(record[6]),
-        }
+  console.log(
+    `Tokens: ${usage.promptTokens} prompt (${usage.cachedTokens} cached), ${usage.completionTokens} completion`
+  )
+  console.log(
+    `Cost: ${
+      totalCost === null ? 'unknown model price' : `$${totalCost.toFixed(4)}`
+    }${
+      costPerCorrect === null
+        ? ''
+        : ` ($${costPerCorrect.toFixed(6)} per correct prediction)`
+    }`
+  )
+  if (meanLatencyMs !== null) {
+    console.log(`Mean latency: ${meanLatencyMs.toFixed(0)}ms`)
+  }
+}
 
-        if (validateWinePredictionRecord(mappedRecord)) {
-          validRecords.push(mappedRecord)
-        }
-      })
-      .on('error', (error) => {
-        reject(new Error(`Error parsing file: ${error.message}`))
-      })
-      .on('end', () => {
-        if (validRecords.length === 0) {
-          reject(new Error(`No valid records found in ${filePath}`))
-        } else {
-          resolve(validRecords)
-        }
-      })
+// Prints accuracy by self-consistency agreement and the accuracy left when
+// only the predictions the samples agreed on are kept
+function logAgreementSummary({ levels, highAgreement }: AgreementSummary) {
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`
 
-    fileStream.on('error', (error) => {
-      reject(new Error(`Error reading file: ${error.message}`))
-    })
+  console.log('Accuracy by self-consistency agreement:')
+  for (const level of levels) {
+    console.log(
+      `  ${pct(level.agreement).padStart(6)}: ${pct(level.accuracy)} of ${
+        level.records
+      } · kept at ≥ this: ${pct(level.keptAccuracy)} at ${pct(
+        level.coverage
+      )} coverage`
+    )
+  }
+  console.log(
+    `High agreement (≥ ${pct(highAgreement.threshold)}): ${
+      highAgreement.accuracy === null
+        ? 'no predictions'
+        : `${pct(highAgreement.accuracy)} accuracy on ${
+            highAgreement.records
+          } predictions (${pct(highAgreement.coverage)} coverage)`
+    }`
+  )
+}
+
+// Writes accuracy and kept-prediction accuracy per agreement level of every
+// model predicted with self-consistency
+async function saveAgreementSummaries(
+  results: WineAnalysisResult[],
+  outputName: string
+): Promise<string> {
+  const filePath = `./data/agreement_${outputName}.csv`
+  const writer = createObjectCsvWriter({
+    path: filePath,
+    header: [
+      { id: 'model', title: 'Model' },
+      { id: 'agreement', title: 'Agreement' },
+      { id: 'records', title: 'Records' },
+      { id: 'correct', title: 'Correct' },
+      { id: 'accuracy', title: 'Accuracy' },
+      { id: 'keptRecords', title: 'Kept Records (at or above)' },
+      { id: 'keptAccuracy', title: 'Kept Accuracy' },
+      { id: 'coverage', title: 'Coverage' },
+    ],
   })
+
+  await writer.writeRecords(
+    results.flatMap(({ model, agreementSummary }) =>
+      (agreementSummary?.levels ?? []).map((level) => ({ model, ...level }))
+    )
+  )
+  return filePath
+}
+
+// Prints the reliability table and the coverage-vs-accuracy curve used to
+// pick a confidence threshold for deferring to the fallback model
+function logCalibration(calibration: CalibrationSummary) {
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`
+
+  console.log(
+    `Calibration (logprob confidence on ${calibration.scoredRecords} of ${
+      calibration.totalRecords
+    } records): ECE ${calibration.expectedCalibrationError.toFixed(
+      3
+    )}, mean confidence ${pct(calibration.meanConfidence)}, accuracy ${pct(
+      calibration.accuracy
+    )}`
+  )
+  console.log('Reliability (confidence: records, mean confidence → accuracy):')
+  for (const bucket of calibration.buckets) {
+    if (!bucket.records) continue
+    console.log(
+      `  ${bucket.lower.toFixed(1)}-${bucket.upper.toFixed(1)}: ${String(
+        bucket.records
+      ).padStart(4)}, ${pct(bucket.meanConfidence!)} → ${pct(bucket.accuracy!)}`
+    )
+  }
+  console.log(
+    `Selective prediction (answer at ≥ threshold${
+      calibration.fallbackModel
+        ? `, defer the rest to ${calibration.fallbackModel}`
+        : ''
+    }):`
+  )
+  for (const point of calibration.curve) {
+    console.log(
+      `  ≥ ${point.threshold.toFixed(2)}: ${pct(point.coverage)} coverage, ${
+        point.accuracy === null
+          ? 'no answers'
+          : `${pct(point.accuracy)} accuracy`
+      }${
+        point.accuracyWithDeferral === null
+          ? ''
+          : `, ${pct(point.accuracyWithDeferral)} with deferral`
+      }`
+    )
+  }
+}
+
+// Writes the reliability table of every model predicted with logprobs
+async function saveCalibration(
+  results: WineAnalysisResult[],
+  outputName: string
+): Promise<string> {
+  const filePath = `./data/calibration_${outputName}.csv`
+  const writer = createObjectCsvWriter({
+    path: filePath,
+    header: [
+      { id: 'model', title: 'Model' },
+      { id: 'lower', title: 'Confidence From' },
+      { id: 'upper', title: 'Confidence To' },
+      { id: 'records', title: 'Records' },
+      { id: 'meanConfidence', title: 'Mean Confidence' },
+      { id: 'accuracy', title: 'Accuracy' },
+    ],
+  })
+
+  await writer.writeRecords(
+    results.flatMap(({ model, calibration }) =>
+      (calibration?.buckets ?? []).map((bucket) => ({
+        model,
+        ...bucket,
+        meanConfidence: bucket.meanConfidence ?? '',
+        accuracy: bucket.accuracy ?? '',
+      }))
+    )
+  )
+  return filePath
+}
+
+// Writes the coverage-vs-accuracy curve of every model predicted with logprobs
+async function saveSelectivePrediction(
+  results: WineAnalysisResult[],
+  outputName: string
+): Promise<string> {
+  const filePath = `./data/selective_prediction_${outputName}.csv`
+  const writer = createObjectCsvWriter({
+    path: filePath,
+    header: [
+      { id: 'model', title: 'Model' },
+      { id: 'threshold', title: 'Confidence Threshold' },
+      { id: 'answered', title: 'Answered' },
+      { id: 'coverage', title: 'Coverage' },
+      { id: 'accuracy', title: 'Accuracy (answered)' },
+      { id: 'fallbackModel', title: 'Deferred To' },
+      { id: 'accuracyWithDeferral', title: 'Accuracy with Deferral' },
+    ],
+  })
+
+  await writer.writeRecords(
+    results.flatMap(({ model, calibration }) =>
+      (calibration?.curve ?? []).map((point) => ({
+        model,
+        ...point,
+        accuracy: point.accuracy ?? '',
+        fallbackModel: calibration!.fallbackModel ?? '',
+        accuracyWithDeferral: point.accuracyWithDeferral ?? '',
+      }))
+    )
+  )
+  return filePath
+}
+
+// Flattens a usage summary into analysis CSV columns (empty when unknown)
+function toUsageColumns({
+  recordsWithUsage,
+  usage,
+  totalCost,
+  costPerCorrect,
+  meanLatencyMs,
+}: UsageSummary) {
+  return {
+    promptTokens: recordsWithUsage ? usage.promptTokens : '',
+    completionTokens: recordsWithUsage ? usage.completionTokens : '',
+    cachedTokens: recordsWithUsage ? usage.cachedTokens : '',
+    totalCost: totalCost ?? '',
+    costPerCorrect: costPerCorrect ?? '',
+    meanLatencyMs: meanLatencyMs ?? '',
+  }
+}
+
+// Prints the paired (same records) comparison between the two models
+function logPairedComparison(
+  result: PairedComparisonResult,
+  baseModel: string,
+  comparisonModel: string
+) {
+  const { contingency, bootstrapInterval } = result
+  const pct = (value: number) => `${(value * 100).toFixed(2)}%`
+
+  console.log('=== Paired Comparison (joined on recordId) ===\n')
+  console.log(`Paired records: ${result.pairedCount}`)
+  if (result.baseOnlyRecords || result.comparisonOnlyRecords) {
+    console.log(
+      `Unpaired records: ${result.baseOnlyRecords} only in ${baseModel}, ${result.comparisonOnlyRecords} only in ${comparisonModel}`
+    )
+  }
+  console.log(`Both correct: ${contingency.bothCorrect}`)
+  console.log(`Only ${baseModel} correct: ${contingency.baseOnlyCorrect}`)
+  console.log(
+    `Only ${comparisonModel} correct: ${contingency.comparisonOnlyCorrect}`
+  )
+  console.log(`Both wrong: ${contingency.bothWrong}`)
+  console.log(
+    `Accuracy on paired records: ${baseModel} ${pct(
+      result.baseAccuracy
+    )}, ${comparisonModel} ${pct(result.comparisonAccuracy)}`
+  )
+  console.log(
+    `Difference (${comparisonModel} - ${baseModel}): ${pct(
+      result.accuracyDifference
+    )} (${bootstrapInterval.confidence * 100}% bootstrap CI ${pct(
+      bootstrapInterval.lower
+    )} to ${pct(bootstrapInterval.upper)})`
+  )
+  console.log(
+    `McNemar exact p-value: ${result.mcNemarPValue.toFixed(4)} (${
+      result.mcNemarPValue < 0.05
+        ? 'significant at 0.05'
+        : 'not significant at 0.05'
+    })\n`
+  )
+}
+
+// Writes the records where exactly one of the two models is correct
+async function savePairedDisagreements(
+  result: PairedComparisonResult,
+  baseModel: string,
+  comparisonModel: string,
+  outputName: string
+): Promise<string> {
+  const filePath = `./data/paired_disagreements_${comparisonModel}_${outputName}.csv`
+  const writer = createObjectCsvWriter({
+    path: filePath,
+    header: [
+      { id: 'recordId', title: 'Record ID' },
+      { id: 'winery', title: 'Record' },
+      { id: 'actual', title: 'Actual Label' },
+      { id: 'basePrediction', title: `${baseModel} Prediction` },
+      { id: 'comparisonPrediction', title: `${comparisonModel} Prediction` },
+      { id: 'correctModel', title: 'Correct Model' },
+    ],
+  })
+
+  await writer.writeRecords(
+    result.disagreements.map((record) => ({
+      ...record,
+      correctModel: record.baseCorrect ? baseModel : comparisonModel,
+    }))
+  )
+  return filePath
 }
 
 // Interface for specifying input files for analysis
 interface AnalysisFiles {
-  baseModelFile: string
-  comparisonModelFile: string
+  modelFiles: string[] // One predictions file per model
+  referenceModelFile?: string // Model the others are compared against (defaults to the first file)
+  matcher?: LabelMatcher // Lenient matching rules (defaults to normalization only)
+  scorers?: Scorer[] // Extra scorers, each reported in its own columns
+  sourceRecords?: TaskRecord[] // Dataset records the scorers and report look up by recordId
+  report?: ReportOptions // Also write a self-contained HTML report
+  reportOnly?: boolean // Skip the CSV outputs (the HTML report is still written)
+  outputName?: string // Dataset, prompt and run in output file names (defaults to a new run ID)
 }
 
-// Main analysis function that compares two models' performance
-// Generates both console output and CSV report
+// Main analysis function that compares any number of models
+// Every model is paired with the reference model and ranked on a leaderboard
+// Generates both console output and CSV reports, and returns the per-model
+// results with the paths of every file written
 async function analyzePredictions({
-  baseModelFile,
-  comparisonModelFile,
-}: AnalysisFiles) {
+  modelFiles,
+  referenceModelFile = modelFiles[0],
+  matcher = createLabelMatcher(),
+  scorers = [],
+  sourceRecords,
+  report,
+  reportOnly = false,
+  outputName,
+}: AnalysisFiles): Promise<{
+  results: WineAnalysisResult[]
+  files: string[]
+}> {
   console.log('Starting analysis...\n')
 
   try {
-    const [baseModelPredictions, comparisonModelPredictions] =
-      await Promise.all([
-        readPredictionsFile(baseModelFile),
-        readPredictionsFile(comparisonModelFile),
-      ])
-
-    if (baseModelPredictions.length !== comparisonModelPredictions.length) {
-      console.warn(
-        `Warning: Different number of predictions between models (Base Model: ${baseModelPredictions.length}, Comparison Model: ${comparisonModelPredictions.length})`
+    if (!modelFiles.includes(referenceModelFile)) {
+      throw new Error(
+        `Reference predictions file ${referenceModelFile} is not one of the analyzed files`
       )
     }
 
-    const baseModelResults = calculateWineAccuracy(baseModelPredictions)
-    const comparisonModelResults = calculateWineAccuracy(
-      comparisonModelPredictions
+    const predictions = await Promise.all(
+      modelFiles.map((file) => readPredictionsFile(file))
+    )
+    const referenceIndex = modelFiles.indexOf(referenceModelFile)
+    const referencePredictions = predictions[referenceIndex]
+
+    // Calibration of the other models defers to the reference model
+    const results = predictions.map((modelPredictions, i) =>
+      calculateWineAccuracy(
+        modelPredictions,
+        matcher,
+        i === referenceIndex ? undefined : referencePredictions
+      )
     )
+    const referenceResults = results[referenceIndex]
+
+    predictions.forEach((modelPredictions, i) => {
+      if (modelPredictions.length !== referencePredictions.length) {
+        console.warn(
+          `Warning: Different number of predictions between models (${referenceResults.model}: ${referencePredictions.length}, ${results[i].model}: ${modelPredictions.length}). The paired comparison only uses records predicted by both.`
+        )
+      }
+    })
 
     console.log('=== Model Performance Analysis ===\n')
 
-    for (const result of [baseModelResults, comparisonModelResults]) {
+    for (const result of results) {
       console.log(`\n${result.model} Results:`)
       console.log(`Total Predictions: ${result.totalPredictions}`)
       console.log(`Correct Predictions: ${result.correctPredictions}`)
-      console.log(`Accuracy: ${(result.accuracy * 100).toFixed(2)}%\n`)
+      if (result.failedPredictions) {
+        console.log(
+          `Failed Predictions: ${
+            result.failedPredictions
+          } (${formatFailureClasses(result.failuresByClass)})`
+        )
+      }
+      console.log(
+        `Accuracy: ${(result.accuracy * 100).toFixed(2)}% strict, ${(
+          result.lenientAccuracy * 100
+        ).toFixed(2)}% lenient`
+      )
+      const { normalized, alias, partial } = result.matchCounts
+      if (normalized || alias || partial) {
+        console.log(
+          `Lenient matches: ${normalized} normalized, ${alias} alias, ${partial} partial (blend component)`
+        )
+      }
+      for (const average of ['macro', 'micro', 'weighted'] as const) {
+        const { precision, recall, f1 } = result.metrics[average]
+        console.log(
+          `${average} avg - Precision: ${precision.toFixed(
+            3
+          )}, Recall: ${recall.toFixed(3)}, F1: ${f1.toFixed(3)}`
+        )
+      }
+
+      logUsageSummary(result.usageSummary)
+      if (result.agreementSummary) {
+        logAgreementSummary(result.agreementSummary)
+      }
+      if (result.calibration) logCalibration(result.calibration)
+
+      const topConfusions = getTopConfusions(result.metrics.confusionMatrix)
+      if (topConfusions.length) {
+        console.log('Most frequent confusions (actual → predicted):')
+        topConfusions.forEach(({ actual, predicted, count }) =>
+          console.log(`  ${actual} → ${predicted}: ${count}`)
+        )
+      }
+      console.log()
     }
 
-    console.log('Performance Difference:')
-    const accuracyDiff =
-      baseModelResults.accuracy - comparisonModelResults.accuracy
-    console.log(
-      `Base Model outperforms Comparison Model by ${(
-        accuracyDiff * 100
-      ).toFixed(2)}%\n`
+    // Pair every other model with the reference model
+    const comparisons = results
+      .map((result, i) => ({ result, predictions: predictions[i] }))
+      .filter((_, i) => i !== referenceIndex)
+      .map(({ result, predictions: modelPredictions }) => ({
+        result,
+        paired: comparePairedPredictions(
+          referencePredictions,
+          modelPredictions
+        ),
+      }))
+
+    for (const { result, paired } of comparisons) {
+      logPairedComparison(paired, referenceResults.model, result.model)
+
+      console.log(`=== Sample Incorrect Predictions from ${result.model} ===\n`)
+      result.incorrectExamples.forEach((example, index) => {
+        console.log(`Example ${index + 1}:`)
+        console.log(`Title: ${example.winery}`)
+        console.log(`Predicted: ${example.predicted}`)
+        console.log(`Actual: ${example.actual}\n`)
+      })
+    }
+
+    const leaderboard = buildLeaderboard(
+      results,
+      predictions,
+      referenceResults.model
     )
+    logLeaderboard(leaderboard)
 
-    console.log('=== Sample Incorrect Predictions from Comparison Model ===\n')
-    comparisonModelResults.incorrectExamples.forEach((example, index) => {
-      console.log(`Example ${index + 1}:`)
-      console.log(`Title: ${example.winery}`)
-      console.log(`Predicted: ${example.predicted}`)
-      console.log(`Actual: ${example.actual}\n`)
-    })
+    const scorerRuns = scorers.length
+      ? await Promise.all(
+          predictions.map((modelPredictions) =>
+            runScorers(scorers, modelPredictions, sourceRecords)
+          )
+        )
+      : []
+    if (scorerRuns.length) {
+      console.log('=== Scorers ===\n')
+      scorerRuns.forEach(({ summaries }, i) =>
+        logScorerSummaries(results[i].model, summaries)
+      )
+    }
 
     // Save results
-    const now = new Date()
-    const timestamp = `${String(now.getMonth() + 1).padStart(2, '0')}-${String(
-      now.getDate()
-    ).padStart(2, '0')}-${String(now.getHours()).padStart(2, '0')}-${String(
-      now.getMinutes()
-    ).padStart(2, '0')}`
-
-    const analysisWriter = createObjectCsvWriter({
-      path: `./data/analysis_results_${timestamp}.csv`,
-      header: [
-        { id: 'model', title: 'Model' },
-        { id: 'accuracy', title: 'Accuracy' },
-        { id: 'totalPredictions', title: 'Total Predictions' },
-        { id: 'correctPredictions', title: 'Correct Predictions' },
-      ],
-    })
+    const fileSuffix = outputName ?? (await createRunId())
 
-    await analysisWriter.writeRecords([
-      {
-        model: baseModelResults.model,
-        accuracy: baseModelResults.accuracy,
-        totalPredictions: baseModelResults.totalPredictions,
-        correctPredictions: baseModelResults.correctPredictions,
-      },
-      {
-        model: comparisonModelResults.model,
-        accuracy: comparisonModelResults.accuracy,
-        totalPredictions: comparisonModelResults.totalPredictions,
-        correctPredictions: comparisonModelResults.correctPredictions,
-      },
-    ])
+    const outputFiles: string[] = []
+    if (!reportOnly) {
+      const analysisFile = `./data/analysis_results_${fileSuffix}.csv`
+      const analysisWriter = createObjectCsvWriter({
+        path: analysisFile,
+        header: [
+          { id: 'model', title: 'Model' },
+          { id: 'accuracy', title: 'Accuracy' },
+          { id: 'lenientAccuracy', title: 'Lenient Accuracy' },
+          { id: 'totalPredictions', title: 'Total Predictions' },
+          { id: 'correctPredictions', title: 'Correct Predictions' },
+          { id: 'failedPredictions', title: 'Failed Predictions' },
+          { id: 'lenientCorrect', title: 'Lenient Correct' },
+          { id: 'macroF1', title: 'Macro F1' },
+          { id: 'weightedF1', title: 'Weighted F1' },
+          { id: 'promptTokens', title: 'Prompt Tokens' },
+          { id: 'completionTokens', title: 'Completion Tokens' },
+          { id: 'cachedTokens', title: 'Cached Tokens' },
+          { id: 'totalCost', title: 'Total Cost (USD)' },
+          { id: 'costPerCorrect', title: 'Cost per Correct (USD)' },
+          { id: 'meanLatencyMs', title: 'Mean Latency (ms)' },
+          { id: 'highAgreementAccuracy', title: 'High-Agreement Accuracy' },
+          { id: 'highAgreementCoverage', title: 'High-Agreement Coverage' },
+          { id: 'ece', title: 'Expected Calibration Error' },
+        ],
+      })
 
-    console.log(
-      `Analysis results saved to data/analysis_results_${timestamp}.csv`
-    )
+      await analysisWriter.writeRecords(
+        results.map((result) => ({
+          model: result.model,
+          accuracy: result.accuracy,
+          lenientAccuracy: result.lenientAccuracy,
+          totalPredictions: result.totalPredictions,
+          correctPredictions: result.correctPredictions,
+          failedPredictions: result.failedPredictions,
+          lenientCorrect: result.lenientCorrect,
+          macroF1: result.metrics.macro.f1,
+          weightedF1: result.metrics.weighted.f1,
+          ...toUsageColumns(result.usageSummary),
+          highAgreementAccuracy:
+            result.agreementSummary?.highAgreement.accuracy ?? '',
+          highAgreementCoverage:
+            result.agreementSummary?.highAgreement.coverage ?? '',
+          ece: result.calibration?.expectedCalibrationError ?? '',
+        }))
+      )
+
+      console.log(`Analysis results saved to ${analysisFile}`)
+
+      const { leaderboardFile, pairwiseFile } = await saveLeaderboard(
+        leaderboard,
+        fileSuffix
+      )
+      console.log(`Leaderboard saved to ${leaderboardFile}`)
+      console.log(`Pairwise win/loss counts saved to ${pairwiseFile}`)
+
+      const classMetricsFile = await saveClassMetrics(results, fileSuffix)
+      console.log(`Per-label metrics saved to ${classMetricsFile}`)
+
+      outputFiles.push(
+        analysisFile,
+        leaderboardFile,
+        pairwiseFile,
+        classMetricsFile
+      )
+
+      if (results.some(({ agreementSummary }) => agreementSummary)) {
+        const agreementFile = await saveAgreementSummaries(results, fileSuffix)
+        console.log(`Accuracy by agreement saved to ${agreementFile}`)
+        outputFiles.push(agreementFile)
+      }
+
+      if (results.some(({ calibration }) => calibration)) {
+        const calibrationFile = await saveCalibration(results, fileSuffix)
+        const selectiveFile = await saveSelectivePrediction(results, fileSuffix)
+        console.log(`Reliability table saved to ${calibrationFile}`)
+        console.log(`Coverage vs accuracy saved to ${selectiveFile}`)
+        outputFiles.push(calibrationFile, selectiveFile)
+      }
+
+      for (const result of results) {
+        const matrixFile = await saveConfusionMatrix(result, fileSuffix)
+        console.log(
+          `Confusion matrix for ${result.model} saved to ${matrixFile}`
+        )
+        outputFiles.push(matrixFile)
+      }
+
+      for (const { result, paired } of comparisons) {
+        const disagreementsFile = await savePairedDisagreements(
+          paired,
+          referenceResults.model,
+          result.model,
+          fileSuffix
+        )
+        console.log(`Paired disagreements saved to ${disagreementsFile}`)
+        outputFiles.push(disagreementsFile)
+      }
+
+      if (scorerRuns.length) {
+        for (const [i, { scored }] of scorerRuns.entries()) {
+          const scoresFile = await saveScores(
+            results[i].model,
+            scorers,
+            scored,
+            fileSuffix
+          )
+          console.log(`Scores for ${results[i].model} saved to ${scoresFile}`)
+          outputFiles.push(scoresFile)
+        }
+
+        const summaryFile = await saveScorerSummaries(
+          scorerRuns.flatMap(({ summaries }, i) =>
+            summaries.map((summary: ScorerSummary) => ({
+              model: results[i].model,
+              ...summary,
+            }))
+          ),
+          fileSuffix
+        )
+        console.log(`Scorer summary saved to ${summaryFile}`)
+        outputFiles.push(summaryFile)
+      }
+    }
+
+    if (report) {
+      const reportFile = await saveHtmlReport({
+        options: report,
+        results,
+        predictions,
+        leaderboard,
+        sourceRecords,
+        baselinePredictions: report.baselineFiles
+          ? await Promise.all(report.baselineFiles.map(readPredictionsFile))
+          : undefined,
+      })
+      console.log(`HTML report saved to ${reportFile}`)
+      outputFiles.push(reportFile)
+    }
+
+    return { results, files: outputFiles }
   } catch (error) {
     console.error('Error during analysis:', error)
     throw error
   }
 }
 
-export { analyzePredictions, AnalysisFiles }
+export {
+  analyzePredictions,
+  readPredictionsFile,
+  AnalysisFiles,
+  WineAnalysisResult,
+  WinePredictionRecord,
+}
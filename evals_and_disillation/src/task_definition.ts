@@ -0,0 +1,365 @@
+import fs from 'fs'
+import path from 'path'
+import Papa from 'papaparse'
+import OpenAI from 'openai'
+import { z } from 'zod'
+import {
+  createLabelMatcher,
+  loadMatcherConfig,
+  LabelMatcher,
+} from './label_matcher'
+import { scorerConfigSchema } from './scorers'
+
+// Task used when none is given on the command line or in the run config
+const defaultTaskPath = './tasks/wine_variety.json'
+
+// A single-label classification or free-text task: where the data lives, how
+// a record becomes a prompt and which column holds the answer.
+// Dataset paths are resolved relative to the task file.
+const taskDefinitionSchema = z
+  .object({
+    name: z.string().regex(/^[\w-]+$/, 'Use letters, digits, _ and - only'),
+    description: z.string().optional(),
+    datasets: z.object({
+      train: z.string(),
+      validation: z.string(),
+    }),
+    // Columns available to the prompt template
+    inputColumns: z.array(z.string()).min(1),
+    // Rows missing any of these (or the label) are skipped; defaults to inputColumns
+    requiredColumns: z.array(z.string()).optional(),
+    labelColumn: z.string(),
+    // `label` restricts answers to the label set, `text` accepts any string
+    answerFormat: z.enum(['label', 'text']).default('label'),
+    // Either a fixed list or the distinct values of a column of one dataset
+    // Required for label answers, ignored for text answers
+    labels: z
+      .union([
+        z.array(z.string()).min(1),
+        z.object({
+          column: z.string().optional(), // Defaults to labelColumn
+          dataset: z.enum(['train', 'validation']).default('train'),
+        }),
+      ])
+      .optional(),
+    systemPrompt: z.string(),
+    // {{column}} placeholders are replaced by record values, {{labels}} by the label list
+    promptTemplate: z.string(),
+    // Alternative prompts by id, for prompt matrix runs; the inline template above
+    // is the `default` variant. Template files are relative to the task file.
+    promptVariants: z
+      .record(
+        z.string().regex(/^[\w-]+$/, 'Use letters, digits, _ and - only'),
+        z.object({
+          templateFile: z.string(),
+          systemPrompt: z.string().optional(), // Defaults to the task's systemPrompt
+        })
+      )
+      .default({}),
+    answerField: z.string().default('label'),
+    answerDescription: z.string().default('The label from the provided list'),
+    schemaName: z.string().optional(), // Defaults to <name>_prediction
+    // Label matching rules (normalization, aliases, blends) used for lenient accuracy
+    matching: z.string().optional(),
+    // Column identifying a record in prediction files and reports
+    displayColumn: z.string().optional(), // Defaults to the first input column
+    // Extra scorers run on every analysis; rubric files are relative to the task file
+    scorers: z.array(scorerConfigSchema).default([]),
+    // Columns compared across train and validation by the dataset check
+    // (any dataset column, not only inputs); defaults to inputColumns
+    leakageColumns: z.array(z.string()).min(1).optional(),
+  })
+  .refine((task) => task.answerFormat === 'text' || task.labels, {
+    message: 'labels are required when answerFormat is "label"',
+    path: ['labels'],
+  })
+
+type TaskDefinition = z.infer<typeof taskDefinitionSchema> & {
+  filePath: string
+}
+
+// A prompt template together with the system message it is sent with
+interface PromptVariant {
+  id: string
+  systemPrompt: string
+  template: string
+}
+
+// One usable dataset row
+interface TaskRecord {
+  inputs: Record<string, unknown>
+  label: string
+  display: string
+}
+
+// Every row of a dataset file, split into usable records and skipped rows
+interface DatasetRows {
+  totalRows: number
+  rows: Record<string, unknown>[] // Raw rows of the records, with every column
+  records: TaskRecord[]
+  dropped: Record<string, number> // Skip reason (first missing column) -> rows
+}
+
+// Loads and validates a task definition file
+async function loadTaskDefinition(
+  filePath: string = defaultTaskPath
+): Promise<TaskDefinition> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Task definition not found: ${filePath}`)
+  }
+
+  const parsed = taskDefinitionSchema.safeParse(
+    JSON.parse(await fs.promises.readFile(filePath, 'utf8'))
+  )
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ')
+    throw new Error(`Invalid task definition ${filePath}: ${issues}`)
+  }
+
+  const directory = path.dirname(filePath)
+  return {
+    ...parsed.data,
+    datasets: {
+      train: path.join(directory, parsed.data.datasets.train),
+      validation: path.join(directory, parsed.data.datasets.validation),
+    },
+    promptVariants: Object.fromEntries(
+      Object.entries(parsed.data.promptVariants).map(([id, variant]) => [
+        id,
+        {
+          ...variant,
+          templateFile: path.join(directory, variant.templateFile),
+        },
+      ])
+    ),
+    matching:
+      parsed.data.matching && path.join(directory, parsed.data.matching),
+    scorers: parsed.data.scorers.map((scorer) =>
+      scorer.type === 'llm_judge' && scorer.rubricFile
+        ? { ...scorer, rubricFile: path.join(directory, scorer.rubricFile) }
+        : scorer
+    ),
+    filePath,
+  }
+}
+
+// Builds the label matcher of a task (normalization only when none is configured)
+async function loadTaskMatcher(task: TaskDefinition): Promise<LabelMatcher> {
+  return createLabelMatcher(
+    task.matching ? await loadMatcherConfig(task.matching) : undefined
+  )
+}
+
+// Ids of every prompt the task can run, starting with the inline default
+function getPromptIds(task: TaskDefinition): string[] {
+  return ['default', ...Object.keys(task.promptVariants)]
+}
+
+// Resolves a prompt variant, reading its template file
+async function loadPromptVariant(
+  task: TaskDefinition,
+  id: string = 'default'
+): Promise<PromptVariant> {
+  if (id === 'default') {
+    return {
+      id,
+      systemPrompt: task.systemPrompt,
+      template: task.promptTemplate,
+    }
+  }
+
+  const variant = task.promptVariants[id]
+  if (!variant) {
+    throw new Error(
+      `Task ${task.name} has no prompt "${id}" (available: ${getPromptIds(
+        task
+      ).join(', ')})`
+    )
+  }
+  return {
+    id,
+    systemPrompt: variant.systemPrompt ?? task.systemPrompt,
+    template: await fs.promises.readFile(variant.templateFile, 'utf8'),
+  }
+}
+
+function getDatasetPath(
+  task: TaskDefinition,
+  dataset: 'train' | 'validation'
+): string {
+  return task.datasets[dataset]
+}
+
+function parseCsvRows(filePath: string): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    const rows: any[] = []
+    const fileStream = fs.createReadStream(filePath, 'utf8')
+
+    const parseStream = Papa.parse(Papa.NODE_STREAM_INPUT, {
+      header: true,
+      dynamicTyping: true,
+      skipEmptyLines: true,
+      transform: (value) => value?.trim(),
+    })
+
+    fileStream.on('error', (error) => {
+      reject(new Error(`File stream error: ${error.message}`))
+    })
+
+    parseStream.on('error', (error) => {
+      reject(new Error(`Parse stream error: ${error.message}`))
+    })
+
+    fileStream
+      .pipe(parseStream)
+      .on('data', (row: any) => rows.push(row))
+      .on('error', (error) => {
+        reject(new Error(`Processing error: ${error.message}`))
+      })
+      .on('end', () => resolve(rows))
+  })
+}
+
+// Reads a dataset and sorts its rows into records and rows skipped for a
+// missing required column (or label)
+async function inspectTaskRows(
+  task: TaskDefinition,
+  datasetPath: string
+): Promise<DatasetRows> {
+  const required = [
+    ...(task.requiredColumns ?? task.inputColumns),
+    task.labelColumn,
+  ]
+  const displayColumn = task.displayColumn ?? task.inputColumns[0]
+
+  const allRows = await parseCsvRows(datasetPath)
+  const rows: Record<string, unknown>[] = []
+  const dropped: Record<string, number> = {}
+  for (const row of allRows) {
+    const missing = required.find((column) => !row[column])
+    if (missing) {
+      dropped[`missing ${missing}`] = (dropped[`missing ${missing}`] ?? 0) + 1
+    } else {
+      rows.push(row)
+    }
+  }
+
+  return {
+    totalRows: allRows.length,
+    rows,
+    records: rows.map((row) => ({
+      inputs: Object.fromEntries(
+        task.inputColumns.map((column) => [column, row[column]])
+      ),
+      label: String(row[task.labelColumn]),
+      display: String(row[displayColumn]),
+    })),
+    dropped,
+  }
+}
+
+// Loads every usable record of a dataset, in file order
+// Prediction recordIds index into this list
+async function loadTaskRecords(
+  task: TaskDefinition,
+  datasetPath: string
+): Promise<TaskRecord[]> {
+  return (await inspectTaskRows(task, datasetPath)).records
+}
+
+// Resolves the label set in first-seen order (empty for text answers)
+async function getTaskLabels(task: TaskDefinition): Promise<string[]> {
+  if (task.answerFormat === 'text' || !task.labels) return []
+  if (Array.isArray(task.labels)) return task.labels
+
+  const column = task.labels.column ?? task.labelColumn
+  const rows = await parseCsvRows(getDatasetPath(task, task.labels.dataset))
+  const labels = new Set<string>()
+  for (const row of rows) {
+    if (
+      row[column] !== null &&
+      row[column] !== undefined &&
+      row[column] !== ''
+    ) {
+      labels.add(String(row[column]))
+    }
+  }
+  return Array.from(labels)
+}
+
+// Fills a prompt template with the values of one record
+function renderPrompt(
+  prompt: PromptVariant,
+  record: TaskRecord,
+  labels: string[]
+): string {
+  return prompt.template.replace(
+    /\{\{\s*(\w+)\s*\}\}/g,
+    (placeholder, name: string) => {
+      if (name === 'labels') return labels.join(', ')
+      if (name in record.inputs) return String(record.inputs[name])
+      throw new Error(
+        `Prompt ${prompt.id}: template placeholder ${placeholder} is not an input column`
+      )
+    }
+  )
+}
+
+// Builds the chat messages for a rendered prompt
+function buildTaskMessages(
+  prompt: PromptVariant,
+  content: string
+): OpenAI.ChatCompletionMessageParam[] {
+  return [
+    {
+      role: 'system',
+      content: prompt.systemPrompt,
+    },
+    {
+      role: 'user',
+      content,
+    },
+  ]
+}
+
+// Zod schema of the structured answer, restricted to the label set unless
+// the task expects free text
+function createAnswerSchema(task: TaskDefinition, labels: string[]) {
+  if (task.answerFormat === 'text') {
+    return z.object({
+      [task.answerField]: z.string().describe(task.answerDescription),
+    })
+  }
+  return z.object({
+    [task.answerField]: z
+      .enum(labels as [string, ...string[]])
+      .describe(task.answerDescription),
+  })
+}
+
+function getSchemaName(task: TaskDefinition): string {
+  return task.schemaName ?? `${task.name}_prediction`
+}
+
+export {
+  loadTaskDefinition,
+  loadTaskRecords,
+  inspectTaskRows,
+  parseCsvRows,
+  getTaskLabels,
+  getDatasetPath,
+  getPromptIds,
+  loadPromptVariant,
+  loadTaskMatcher,
+  renderPrompt,
+  buildTaskMessages,
+  createAnswerSchema,
+  getSchemaName,
+  defaultTaskPath,
+  TaskDefinition,
+  TaskRecord,
+  DatasetRows,
+  PromptVariant,
+}
@@ -0,0 +1,26 @@
+import OpenAI from 'openai'
+
+// Rough token estimate (about 4 characters per token for English text)
+// Good enough for budgeting and limit checks without shipping a tokenizer
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+// Estimated prompt tokens of a chat request, including per-message overhead
+function estimateMessageTokens(
+  messages: OpenAI.ChatCompletionMessageParam[]
+): number {
+  return messages.reduce(
+    (total, message) =>
+      total +
+      4 +
+      estimateTokens(
+        typeof message.content === 'string'
+          ? message.content
+          : JSON.stringify(message.content ?? '')
+      ),
+    3
+  )
+}
+
+export { estimateTokens, estimateMessageTokens }